@@ -11,10 +11,14 @@ CREATE TABLE IF NOT EXISTS projects (
   content TEXT NOT NULL,
   documents JSONB,
   site_flow JSONB,
+  brief JSONB,
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+-- Add columns introduced after the first release (safe to re-run)
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS brief JSONB;
+
 -- Create indexes for performance
 CREATE INDEX IF NOT EXISTS idx_projects_user_id ON projects(user_id);
 CREATE INDEX IF NOT EXISTS idx_projects_updated_at ON projects(updated_at DESC);
@@ -67,3 +71,38 @@ CREATE TRIGGER update_projects_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+
+-- Create project_versions table: a snapshot of documents and site flow on every document save,
+-- and at most once a minute while the site flow is being edited
+CREATE TABLE IF NOT EXISTS project_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  author TEXT,
+  title TEXT NOT NULL,
+  documents JSONB,
+  site_flow JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_versions_project_id ON project_versions(project_id, created_at DESC);
+
+ALTER TABLE project_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own project versions" ON project_versions;
+DROP POLICY IF EXISTS "Users can insert their own project versions" ON project_versions;
+DROP POLICY IF EXISTS "Users can delete their own project versions" ON project_versions;
+
+-- Versions are append-only: no update policy. They are deleted with their project, and the app
+-- prunes each project's oldest versions beyond the newest 100
+CREATE POLICY "Users can view their own project versions"
+  ON project_versions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own project versions"
+  ON project_versions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own project versions"
+  ON project_versions FOR DELETE
+  USING (auth.uid() = user_id);
@@ -2,8 +2,8 @@ import { useState, useEffect } from 'react'
 import DocumentGenerator from '../DocumentGeneration/DocumentGenerator'
 import ProjectDetail from '../Project/ProjectDetail'
 import { storage } from '../../utils/storage'
-import { supabaseStorage } from '../../utils/supabaseStorage'
 import type { Project } from '../../utils/storage'
+import StorageBadge from '../UI/StorageBadge'
 
 interface DashboardProps {
   onNavigateToNew?: () => void
@@ -23,7 +23,7 @@ const Dashboard = ({ onNavigateToNew }: DashboardProps = {}) => {
     // Migrate localStorage data to Supabase on first load (if user is authenticated)
     const migrateData = async () => {
       try {
-        const migrated = await supabaseStorage.migrateFromLocalStorage()
+        const migrated = await storage.migrateFromLocalStorage()
         if (migrated > 0) {
           await loadProjects() // Reload after migration
         }
@@ -305,6 +305,7 @@ const Dashboard = ({ onNavigateToNew }: DashboardProps = {}) => {
                       <p className="text-sm text-mid-grey mb-2.5 line-clamp-2 leading-relaxed">{project.description}</p>
                       <div className="flex items-center gap-3 text-xs text-mid-grey">
                         <span>Updated {storage.formatDate(project.updatedAt)}</span>
+                        <StorageBadge backend={project.storageBackend} syncStatus={project.syncStatus} />
                       </div>
                     </div>
                     <div className="ml-4 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -0,0 +1,142 @@
+import { useMemo } from 'react'
+import { toTableName, type DataModel, type DataModelEntity, type DataModelRelation } from '../../utils/dataModel'
+
+interface DataModelDiagramProps {
+  model: DataModel
+}
+
+type EntityBox = {
+  entity: DataModelEntity
+  x: number
+  y: number
+  height: number
+}
+
+const BOX_WIDTH = 220
+const HEADER_HEIGHT = 30
+const ROW_HEIGHT = 18
+const GAP_X = 90
+const GAP_Y = 60
+const PADDING = 24
+
+const COLORS = {
+  header: '#D9A441',
+  box: '#1E1E1E',
+  border: '#2A2A2A',
+  text: '#E5E5E5',
+  muted: '#9CA3AF',
+  line: '#6B7280',
+}
+
+const boxHeight = (entity: DataModelEntity) => HEADER_HEIGHT + entity.fields.length * ROW_HEIGHT + 8
+
+/**
+ * Lay entities out on a grid in model order, each row as tall as its tallest entity
+ */
+const layoutEntities = (entities: DataModelEntity[]): EntityBox[] => {
+  const columns = Math.max(1, Math.ceil(Math.sqrt(entities.length)))
+  const boxes: EntityBox[] = []
+  let y = PADDING
+
+  for (let start = 0; start < entities.length; start += columns) {
+    const row = entities.slice(start, start + columns)
+    row.forEach((entity, column) => {
+      boxes.push({ entity, x: PADDING + column * (BOX_WIDTH + GAP_X), y, height: boxHeight(entity) })
+    })
+    y += Math.max(...row.map(boxHeight)) + GAP_Y
+  }
+
+  return boxes
+}
+
+// Joins the facing sides of two boxes: left/right when they sit in different columns, top/bottom otherwise
+const relationPath = (from: EntityBox, to: EntityBox) => {
+  if (from === to) {
+    const x = from.x + BOX_WIDTH
+    const y = from.y + HEADER_HEIGHT / 2
+    return { d: `M ${x} ${y} h 30 v 30 h -30`, start: { x: x + 6, y: y - 4 }, end: { x: x + 6, y: y + 26 } }
+  }
+  if (from.x !== to.x) {
+    const forward = to.x > from.x
+    const x1 = forward ? from.x + BOX_WIDTH : from.x
+    const x2 = forward ? to.x : to.x + BOX_WIDTH
+    const y1 = from.y + HEADER_HEIGHT / 2
+    const y2 = to.y + HEADER_HEIGHT / 2
+    const middle = (x1 + x2) / 2
+    return {
+      d: `M ${x1} ${y1} C ${middle} ${y1}, ${middle} ${y2}, ${x2} ${y2}`,
+      start: { x: forward ? x1 + 6 : x1 - 14, y: y1 - 4 },
+      end: { x: forward ? x2 - 14 : x2 + 6, y: y2 - 4 },
+    }
+  }
+  const down = to.y > from.y
+  const x = from.x + BOX_WIDTH / 2
+  const y1 = down ? from.y + from.height : from.y
+  const y2 = down ? to.y : to.y + to.height
+  return {
+    d: `M ${x} ${y1} L ${x} ${y2}`,
+    start: { x: x + 6, y: y1 + (down ? 14 : -6) },
+    end: { x: x + 6, y: y2 + (down ? -6 : 14) },
+  }
+}
+
+const cardinality = (relation: DataModelRelation): [string, string] =>
+  relation.type === 'one-to-one' ? ['1', '1'] : relation.type === 'one-to-many' ? ['1', 'N'] : ['N', 'N']
+
+const DataModelDiagram = ({ model }: DataModelDiagramProps) => {
+  const boxes = useMemo(() => layoutEntities(model.entities), [model])
+  const width = Math.max(...boxes.map(box => box.x + BOX_WIDTH), 0) + PADDING + 30
+  const height = Math.max(...boxes.map(box => box.y + box.height), 0) + PADDING
+
+  // Foreign key fields are marked in the entity boxes
+  const foreignKeys = useMemo(
+    () => new Set(model.relations.filter(relation => relation.foreignKey).map(relation => `${relation.to}.${relation.foreignKey}`)),
+    [model]
+  )
+
+  return (
+    <div className="overflow-auto bg-dark-surface/40 border border-divider/20 rounded-lg">
+      <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="block">
+        {model.relations.map((relation, index) => {
+          const from = boxes.find(box => box.entity.name === relation.from)
+          const to = boxes.find(box => box.entity.name === relation.to)
+          if (!from || !to) return null
+          const path = relationPath(from, to)
+          const [fromLabel, toLabel] = cardinality(relation)
+          return (
+            <g key={index}>
+              <path d={path.d} fill="none" stroke={COLORS.line} strokeWidth={1.5} strokeDasharray={relation.type === 'many-to-many' ? '4 3' : undefined} />
+              <text x={path.start.x} y={path.start.y} fill={COLORS.muted} fontSize={10} fontWeight={600}>{fromLabel}</text>
+              <text x={path.end.x} y={path.end.y} fill={COLORS.muted} fontSize={10} fontWeight={600}>{toLabel}</text>
+            </g>
+          )
+        })}
+
+        {boxes.map(({ entity, x, y, height: entityHeight }) => (
+          <g key={entity.name}>
+            <title>{entity.description || entity.name}</title>
+            <rect x={x} y={y} width={BOX_WIDTH} height={entityHeight} rx={6} fill={COLORS.box} stroke={COLORS.border} />
+            <rect x={x} y={y} width={BOX_WIDTH} height={HEADER_HEIGHT} rx={6} fill={COLORS.header} fillOpacity={0.15} />
+            <text x={x + 10} y={y + 19} fill={COLORS.header} fontSize={12} fontWeight={700}>{entity.name}</text>
+            <text x={x + BOX_WIDTH - 10} y={y + 19} fill={COLORS.muted} fontSize={9} textAnchor="end">{toTableName(entity.name)}</text>
+            {entity.fields.map((field, index) => {
+              const rowY = y + HEADER_HEIGHT + 4 + index * ROW_HEIGHT + 12
+              const marker = field.primaryKey ? 'PK' : foreignKeys.has(`${entity.name}.${field.name}`) ? 'FK' : ''
+              return (
+                <g key={field.name}>
+                  <text x={x + 10} y={rowY} fill={marker ? COLORS.header : COLORS.muted} fontSize={8} fontWeight={700}>{marker}</text>
+                  <text x={x + 30} y={rowY} fill={COLORS.text} fontSize={11}>
+                    {field.name}{field.nullable ? '?' : ''}
+                  </text>
+                  <text x={x + BOX_WIDTH - 10} y={rowY} fill={COLORS.muted} fontSize={10} textAnchor="end" fontFamily="monospace">{field.type}</text>
+                </g>
+              )
+            })}
+          </g>
+        ))}
+      </svg>
+    </div>
+  )
+}
+
+export default DataModelDiagram
@@ -0,0 +1,68 @@
+import { useMemo, useState } from 'react'
+import MarkdownRenderer from './MarkdownRenderer'
+import DataModelDiagram from '../DataModel/DataModelDiagram'
+import { parseDataModel, toPostgresDDL, toPrismaSchema } from '../../utils/dataModel'
+
+interface DataModelViewProps {
+  content: string // Data model as JSON
+}
+
+type DataModelTab = 'Diagram' | 'PostgreSQL' | 'Prisma' | 'JSON'
+
+const TABS: DataModelTab[] = ['Diagram', 'PostgreSQL', 'Prisma', 'JSON']
+
+const DataModelView = ({ content }: DataModelViewProps) => {
+  const [tab, setTab] = useState<DataModelTab>('Diagram')
+  const { model, errors } = useMemo(() => parseDataModel(content), [content])
+
+  const renderSource = () => {
+    if (!model || tab === 'JSON') return <MarkdownRenderer content={`\`\`\`json\n${content}\n\`\`\``} />
+    if (tab === 'PostgreSQL') return <MarkdownRenderer content={`\`\`\`sql\n${toPostgresDDL(model)}\n\`\`\``} />
+    return <MarkdownRenderer content={`\`\`\`prisma\n${toPrismaSchema(model)}\n\`\`\``} />
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        {model ? (
+          <div className="text-[11px] text-mid-grey">
+            {model.entities.length} entit{model.entities.length === 1 ? 'y' : 'ies'} · {model.relations.length} relation{model.relations.length === 1 ? '' : 's'}
+          </div>
+        ) : (
+          <div className="text-xs text-red-400">
+            {errors.length} problem{errors.length === 1 ? '' : 's'} found, this document is not a valid data model
+          </div>
+        )}
+        {model && (
+          <div className="flex gap-1 flex-shrink-0">
+            {TABS.map(option => (
+              <button
+                key={option}
+                onClick={() => setTab(option)}
+                className={`px-2.5 py-1 text-[11px] rounded-md border transition-colors ${
+                  tab === option
+                    ? 'text-amber-gold border-amber-gold/40 bg-amber-gold/10'
+                    : 'text-mid-grey hover:text-charcoal border-divider/30 hover:border-divider/50'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-300 bg-red-500/10 border border-red-500/30 rounded-md px-3 py-2 space-y-1 list-disc list-inside">
+          {errors.map(error => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      {model && tab === 'Diagram' ? <DataModelDiagram model={model} /> : renderSource()}
+    </div>
+  )
+}
+
+export default DataModelView
@@ -0,0 +1,131 @@
+import { useMemo } from 'react'
+import { diffLines, summarizeDiff, type DiffLine } from '../../utils/textDiff'
+
+interface DiffViewProps {
+  before: string
+  after: string
+  maxHeight?: number
+  layout?: 'unified' | 'split' // split shows before and after side by side
+  beforeLabel?: string
+  afterLabel?: string
+}
+
+// Unchanged lines kept around each change; longer unchanged runs are collapsed
+const CONTEXT_LINES = 2
+
+type SplitRow = { left?: DiffLine; right?: DiffLine }
+
+// Pair each run of removed lines with the added lines that replaced it
+const toSplitRows = (diff: DiffLine[]): SplitRow[] => {
+  const rows: SplitRow[] = []
+  let index = 0
+  while (index < diff.length) {
+    if (diff[index].type === 'equal') {
+      rows.push({ left: diff[index], right: diff[index] })
+      index++
+      continue
+    }
+
+    const removed: DiffLine[] = []
+    const added: DiffLine[] = []
+    while (index < diff.length && diff[index].type !== 'equal') {
+      (diff[index].type === 'removed' ? removed : added).push(diff[index])
+      index++
+    }
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] })
+    }
+  }
+  return rows
+}
+
+const SplitCell = ({ line }: { line?: DiffLine }) => {
+  const style = !line
+    ? 'bg-dark-surface/30'
+    : line.type === 'added'
+      ? 'bg-emerald-500/10 text-emerald-300'
+      : line.type === 'removed'
+        ? 'bg-red-500/10 text-red-300'
+        : 'text-mid-grey'
+  return <div className={`px-3 whitespace-pre-wrap break-words ${style}`}>{line ? line.text || ' ' : ' '}</div>
+}
+
+const DiffView = ({ before, after, maxHeight = 360, layout = 'unified', beforeLabel = 'Before', afterLabel = 'After' }: DiffViewProps) => {
+  const diff = useMemo(() => diffLines(before, after), [before, after])
+  const { added, removed } = summarizeDiff(diff)
+
+  if (layout === 'split') {
+    const splitRows = toSplitRows(diff)
+    return (
+      <div className="rounded-lg border border-divider/30 overflow-hidden">
+        <div className="grid grid-cols-2 bg-dark-surface/40 border-b border-divider/20 text-[11px] text-mid-grey">
+          <div className="px-3 py-1.5 border-r border-divider/20">{beforeLabel} <span className="text-red-400 ml-1">−{removed}</span></div>
+          <div className="px-3 py-1.5">{afterLabel} <span className="text-emerald-400 ml-1">+{added}</span></div>
+        </div>
+        <div className="overflow-auto font-mono text-[11px] leading-5" style={{ maxHeight }}>
+          {splitRows.map((row, index) => (
+            <div key={index} className="grid grid-cols-2">
+              <div className="border-r border-divider/20"><SplitCell line={row.left} /></div>
+              <SplitCell line={row.right} />
+            </div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  const isNearChange = (index: number) =>
+    diff.slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1).some(line => line.type !== 'equal')
+
+  const rows: Array<{ type: 'line'; index: number } | { type: 'gap'; count: number }> = []
+  diff.forEach((_, index) => {
+    if (isNearChange(index)) {
+      rows.push({ type: 'line', index })
+      return
+    }
+    const last = rows[rows.length - 1]
+    if (last?.type === 'gap') {
+      last.count++
+    } else {
+      rows.push({ type: 'gap', count: 1 })
+    }
+  })
+
+  return (
+    <div className="rounded-lg border border-divider/30 overflow-hidden">
+      <div className="px-3 py-1.5 bg-dark-surface/40 border-b border-divider/20 text-[11px] text-mid-grey flex gap-3">
+        <span className="text-emerald-400">+{added}</span>
+        <span className="text-red-400">−{removed}</span>
+        {added === 0 && removed === 0 && <span>No changes</span>}
+      </div>
+      <div className="overflow-auto font-mono text-[11px] leading-5" style={{ maxHeight }}>
+        {rows.map((row, rowIndex) => {
+          if (row.type === 'gap') {
+            return (
+              <div key={`gap-${rowIndex}`} className="px-3 text-mid-grey/60 bg-dark-surface/20 select-none">
+                ⋯ {row.count} unchanged line{row.count === 1 ? '' : 's'}
+              </div>
+            )
+          }
+
+          const line = diff[row.index]
+          const style = line.type === 'added'
+            ? 'bg-emerald-500/10 text-emerald-300'
+            : line.type === 'removed'
+              ? 'bg-red-500/10 text-red-300 line-through decoration-red-400/40'
+              : 'text-mid-grey'
+          const marker = line.type === 'added' ? '+' : line.type === 'removed' ? '−' : ' '
+
+          return (
+            <div key={row.index} className={`px-3 whitespace-pre-wrap break-words ${style}`}>
+              <span className="select-none mr-2 opacity-60">{marker}</span>
+              {line.text || ' '}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export default DiffView
@@ -1,8 +1,8 @@
 import { useState, useRef, useEffect } from 'react'
 import ExportModal from '../Export/ExportModal'
 import MarkdownRenderer from './MarkdownRenderer'
-import { storage } from '../../utils/storage'
-import { extractInfo, generatePRD, generateDesignPrompt, generateUserStories, generateSpecs } from '../../utils/contentGenerator'
+import { storage, StorageQuotaError } from '../../utils/storage'
+import { extractInfo, generatePRD, generateDesignPrompt, generateUserStories, generateSpecs, type GenerationOptions } from '../../utils/contentGenerator'
 
 type DocumentType = 'PRD' | 'Design Prompt' | 'User Stories' | 'Specs'
 
@@ -17,6 +17,7 @@ const DocumentGenerator = ({ onClose, isStandalone = false, onProjectCreated }:
   const [input, setInput] = useState('')
   const [isGenerating, setIsGenerating] = useState(false)
   const [generatedContent, setGeneratedContent] = useState<string | null>(null)
+  const [streamingContent, setStreamingContent] = useState('')
   const [showExport, setShowExport] = useState(false)
   const [projectName, setProjectName] = useState('')
   const [isSaving, setIsSaving] = useState(false)
@@ -32,23 +33,25 @@ const DocumentGenerator = ({ onClose, isStandalone = false, onProjectCreated }:
     if (!input.trim() || !documentType) return
 
     setIsGenerating(true)
+    setStreamingContent('')
     const info = await extractInfo(input)
     setProjectName(info.projectName)
     
     try {
+      const options: GenerationOptions = { onToken: ({ content }) => setStreamingContent(content) }
       let content = ''
       switch (documentType) {
         case 'PRD':
-          content = await generatePRD(info, input)
+          content = await generatePRD(info, input, options)
           break
         case 'Design Prompt':
-          content = await generateDesignPrompt(info, input)
+          content = await generateDesignPrompt(info, input, options)
           break
         case 'User Stories':
-          content = await generateUserStories(info, input)
+          content = await generateUserStories(info, input, options)
           break
         case 'Specs':
-          content = await generateSpecs(info, input)
+          content = await generateSpecs(info, input, options)
           break
       }
       setGeneratedContent(content)
@@ -58,6 +61,7 @@ const DocumentGenerator = ({ onClose, isStandalone = false, onProjectCreated }:
       alert(`Failed to generate content: ${errorMessage}\n\nCheck the browser console for details.`)
     } finally {
       setIsGenerating(false)
+      setStreamingContent('')
     }
   }
 
@@ -81,10 +85,16 @@ const DocumentGenerator = ({ onClose, isStandalone = false, onProjectCreated }:
       onClose()
     } catch (error) {
       console.error('Error saving project:', error)
+      alert(error instanceof StorageQuotaError ? error.message : 'Failed to save the project. Please check your connection and try again.')
       setIsSaving(false)
     }
   }
 
+  const streamingPreview = isGenerating && streamingContent && (
+    <div className="mt-6 pt-6 border-t border-divider max-h-[400px] overflow-y-auto">
+      <MarkdownRenderer content={streamingContent} />
+    </div>
+  )
 
   if (generatedContent) {
     if (isStandalone) {
@@ -115,6 +125,7 @@ const DocumentGenerator = ({ onClose, isStandalone = false, onProjectCreated }:
             <ExportModal
               content={generatedContent}
               filename={projectName}
+              subtitle={documentType || undefined}
               onClose={() => setShowExport(false)}
             />
           )}
@@ -156,6 +167,7 @@ const DocumentGenerator = ({ onClose, isStandalone = false, onProjectCreated }:
           <ExportModal
             content={generatedContent}
             filename={projectName}
+            subtitle={documentType || undefined}
             onClose={() => setShowExport(false)}
           />
         )}
@@ -238,6 +250,7 @@ const DocumentGenerator = ({ onClose, isStandalone = false, onProjectCreated }:
                   )}
                 </button>
               </div>
+              {streamingPreview}
             </div>
           </div>
         )}
@@ -334,6 +347,7 @@ const DocumentGenerator = ({ onClose, isStandalone = false, onProjectCreated }:
                     )}
                   </button>
                 </div>
+                {streamingPreview}
               </div>
             </div>
           )}
@@ -1,15 +1,105 @@
-import { useState } from 'react'
+import { useState, useRef, useEffect, useMemo } from 'react'
 import MarkdownRenderer from './MarkdownRenderer'
+import DiffView from './DiffView'
+import OpenAPIView from './OpenAPIView'
+import DataModelView from './DataModelView'
+import type { DocumentSource } from '../../utils/storage'
+import { regenerateSection, refineDocument, type ExtractedInfo } from '../../utils/contentGenerator'
+import { parseSections, type MarkdownSection } from '../../utils/markdownSections'
+import { isAIAvailable, isAbortError } from '../../utils/aiAgent'
+import { findDocumentProblems } from '../../utils/documentValidation'
 
 interface DocumentViewerProps {
   type: string
   name: string
   content: string
+  source?: DocumentSource
+  brief?: ExtractedInfo // Project brief passed to the AI when rewriting sections
   onExport: () => void
+  onContentChange?: (content: string) => void // Enables section regeneration and refining when provided
 }
 
-const DocumentViewer = ({ type, content, onExport }: DocumentViewerProps) => {
+const DocumentViewer = ({ type, content, source, brief, onExport, onContentChange }: DocumentViewerProps) => {
   const [isExpanded, setIsExpanded] = useState(false)
+  const [showSections, setShowSections] = useState(false)
+  const [regeneratingHeading, setRegeneratingHeading] = useState<string | null>(null)
+  const [refineInstruction, setRefineInstruction] = useState('')
+  const [isRefining, setIsRefining] = useState(false)
+  const [proposedContent, setProposedContent] = useState<string | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  // OpenAPI (YAML) and Data Model (JSON) documents have no markdown sections to regenerate
+  const isOpenAPI = type === 'OpenAPI'
+  const isDataModel = type === 'Data Model'
+  const sections = useMemo(() => (isOpenAPI || isDataModel ? [] : parseSections(content)), [content, isOpenAPI, isDataModel])
+  const canEdit = !!onContentChange && isAIAvailable()
+  const canRegenerate = canEdit && sections.length > 0
+  const isBusy = regeneratingHeading !== null || isRefining
+
+  // Stop any in-flight section rewrite when the viewer goes away
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort()
+  }, [])
+
+  const handleRefine = async () => {
+    const instruction = refineInstruction.trim()
+    if (!instruction) return
+
+    abortControllerRef.current?.abort()
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    setIsRefining(true)
+    setProposedContent(null)
+
+    try {
+      const refined = await refineDocument({ type, content }, instruction, brief, { signal: controller.signal })
+      setProposedContent(refined)
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Refine error:', error)
+        alert('Failed to refine the document. Please try again.')
+      }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+        setIsRefining(false)
+      }
+    }
+  }
+
+  const handleAcceptRefinement = () => {
+    if (proposedContent === null) return
+    const problems = findDocumentProblems({ type, content: proposedContent })
+    if (problems.length > 0) {
+      alert(`The revised ${type} document is invalid:\n\n${problems.join('\n')}`)
+      return
+    }
+    onContentChange?.(proposedContent)
+    setProposedContent(null)
+    setRefineInstruction('')
+  }
+
+  const handleRegenerateSection = async (section: MarkdownSection) => {
+    abortControllerRef.current?.abort()
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    setRegeneratingHeading(section.heading)
+
+    try {
+      const updated = await regenerateSection({ type, content }, section, brief, { signal: controller.signal })
+      onContentChange?.(updated)
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Section regeneration error:', error)
+        alert(`Failed to regenerate "${section.heading}". Please try again.`)
+      }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+        setRegeneratingHeading(null)
+      }
+    }
+  }
 
   const getTypeConfig = (type: string) => {
     switch (type) {
@@ -65,6 +155,32 @@ const DocumentViewer = ({ type, content, onExport }: DocumentViewerProps) => {
             </svg>
           )
         }
+      case 'OpenAPI':
+        return {
+          gradient: 'from-cyan-500/10 via-cyan-600/5 to-transparent',
+          accent: 'text-cyan-400',
+          accentBg: 'bg-cyan-500/10',
+          accentBorder: 'border-cyan-500/30',
+          iconBg: 'bg-cyan-500/15',
+          icon: (
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2 1 3 3 3h10c2 0 3-1 3-3V7c0-2-1-3-3-3H7C5 4 4 5 4 7zm4 5h8M12 8v8" />
+            </svg>
+          )
+        }
+      case 'Data Model':
+        return {
+          gradient: 'from-rose-500/10 via-rose-600/5 to-transparent',
+          accent: 'text-rose-400',
+          accentBg: 'bg-rose-500/10',
+          accentBorder: 'border-rose-500/30',
+          iconBg: 'bg-rose-500/15',
+          icon: (
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7c0 1.657 3.582 3 8 3s8-1.343 8-3M4 7c0-1.657 3.582-3 8-3s8 1.343 8 3M4 7v10c0 1.657 3.582 3 8 3s8-1.343 8-3V7M4 12c0 1.657 3.582 3 8 3s8-1.343 8-3" />
+            </svg>
+          )
+        }
       default:
         return {
           gradient: 'from-amber-gold/10 via-amber-gold/5 to-transparent',
@@ -99,10 +215,30 @@ const DocumentViewer = ({ type, content, onExport }: DocumentViewerProps) => {
               <span className={`inline-flex items-center px-2 py-0.5 text-[10px] font-semibold rounded-md bg-dark-surface/10 border border-divider/30 text-mid-grey backdrop-blur-sm`}>
                 {type}
               </span>
+              {source && (
+                <span
+                  className="ml-2 text-[10px] text-mid-grey"
+                  title={source.model ? `${source.provider} · ${source.model}` : source.provider}
+                >
+                  {source.provider === 'template' ? 'Template' : `via ${source.provider}${source.model ? ` · ${source.model}` : ''}`}
+                </span>
+              )}
             </div>
           </div>
           
           <div className="flex items-center gap-1.5 flex-shrink-0">
+            {canRegenerate && (
+              <button
+                onClick={() => setShowSections(!showSections)}
+                className={`px-2.5 py-1.5 text-xs rounded-md font-medium transition-all border backdrop-blur-sm ${
+                  showSections
+                    ? 'text-amber-gold border-amber-gold/40 bg-amber-gold/10'
+                    : 'text-mid-grey hover:text-charcoal hover:bg-dark-surface/50 border-divider/20 hover:border-divider/40'
+                }`}
+              >
+                Sections
+              </button>
+            )}
             <button
               onClick={() => setIsExpanded(!isExpanded)}
               className="p-1.5 text-xs text-mid-grey hover:text-charcoal hover:bg-dark-surface/50 rounded-md transition-all font-medium border border-divider/20 hover:border-divider/40 backdrop-blur-sm"
@@ -136,11 +272,102 @@ const DocumentViewer = ({ type, content, onExport }: DocumentViewerProps) => {
         </div>
       </div>
       
+      {/* Section list with per-section regeneration */}
+      {canRegenerate && showSections && (
+        <div className="px-4 py-3 border-b border-divider/10 bg-dark-surface/20 space-y-1">
+          {sections.map(section => {
+            const isRegenerating = regeneratingHeading === section.heading
+            return (
+              <div key={`${section.start}-${section.heading}`} className="flex items-center justify-between gap-3 py-1">
+                <span className={`text-xs truncate ${isRegenerating ? 'text-amber-gold' : 'text-white'}`}>
+                  {section.heading}
+                </span>
+                {isRegenerating ? (
+                  <button
+                    onClick={() => abortControllerRef.current?.abort()}
+                    className="flex items-center gap-1.5 px-2 py-1 text-[11px] text-mid-grey hover:text-white rounded-md border border-divider/30 transition-colors"
+                  >
+                    <span className="w-3 h-3 border border-amber-gold/30 border-t-amber-gold rounded-full animate-spin"></span>
+                    Cancel
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => handleRegenerateSection(section)}
+                    disabled={isBusy || proposedContent !== null}
+                    className="px-2 py-1 text-[11px] text-mid-grey hover:text-amber-gold rounded-md border border-divider/30 hover:border-amber-gold/40 transition-colors disabled:opacity-40 disabled:cursor-not-allowed flex-shrink-0"
+                  >
+                    Regenerate section
+                  </button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {/* Refine with a free-text instruction, reviewed as a diff before it is applied */}
+      {canEdit && (
+        <div className="px-4 py-3 border-b border-divider/10 space-y-3">
+          <div className="flex items-center gap-2">
+            <input
+              value={refineInstruction}
+              onChange={(e) => setRefineInstruction(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !isBusy && proposedContent === null) {
+                  e.preventDefault()
+                  handleRefine()
+                }
+              }}
+              disabled={isBusy || proposedContent !== null}
+              placeholder='Refine, e.g. "make acceptance criteria Gherkin" or "target enterprise buyers"'
+              className="flex-1 px-3 py-1.5 bg-dark-surface/50 border border-divider/30 rounded-md text-xs text-white placeholder:text-mid-grey/50 focus:outline-none focus:border-amber-gold/50 disabled:opacity-50"
+            />
+            {isRefining ? (
+              <button
+                onClick={() => abortControllerRef.current?.abort()}
+                className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs text-mid-grey hover:text-white rounded-md border border-divider/30 transition-colors"
+              >
+                <span className="w-3 h-3 border border-amber-gold/30 border-t-amber-gold rounded-full animate-spin"></span>
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={handleRefine}
+                disabled={!refineInstruction.trim() || isBusy || proposedContent !== null}
+                className="px-2.5 py-1.5 text-xs bg-amber-gold hover:bg-amber-gold/90 text-black rounded-md font-semibold transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Refine
+              </button>
+            )}
+          </div>
+
+          {proposedContent !== null && (
+            <div className="space-y-2">
+              <DiffView before={content} after={proposedContent} />
+              <div className="flex items-center justify-end gap-2">
+                <button
+                  onClick={() => setProposedContent(null)}
+                  className="px-2.5 py-1.5 text-xs text-white rounded-md border border-divider/30 hover:bg-dark-surface/50 transition-colors"
+                >
+                  Reject
+                </button>
+                <button
+                  onClick={handleAcceptRefinement}
+                  className="px-2.5 py-1.5 text-xs bg-deep-green hover:bg-deep-green/90 text-white rounded-md font-semibold transition-colors"
+                >
+                  Accept changes
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Streamlined content */}
       <div className={`relative transition-all duration-500 ease-out ${isExpanded ? 'max-h-[600px]' : 'max-h-[400px]'}`}>
         <div className="p-4 overflow-y-auto overflow-x-hidden h-full scrollbar-thin scrollbar-thumb-divider/30 scrollbar-track-transparent" style={{ maxHeight: isExpanded ? '600px' : '400px' }}>
           <div className="max-w-none">
-            <MarkdownRenderer content={content} />
+            {isOpenAPI ? <OpenAPIView content={content} /> : isDataModel ? <DataModelView content={content} /> : <MarkdownRenderer content={content} />}
           </div>
         </div>
         
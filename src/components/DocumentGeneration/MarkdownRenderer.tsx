@@ -10,7 +10,11 @@ const MarkdownRenderer = ({ content, className = '' }: MarkdownRendererProps) =>
   const contentRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
-    if (!content || !contentRef.current) return
+    if (!contentRef.current) return
+    if (!content) {
+      contentRef.current.innerHTML = ''
+      return
+    }
 
     // Configure marked options for better rendering
     marked.setOptions({
@@ -0,0 +1,99 @@
+import { useMemo, useState } from 'react'
+import MarkdownRenderer from './MarkdownRenderer'
+import { validateOpenAPI, listEndpoints, type HTTPMethod } from '../../utils/openapi'
+
+interface OpenAPIViewProps {
+  content: string // OpenAPI document as YAML
+}
+
+const METHOD_COLORS: Record<HTTPMethod, string> = {
+  get: 'text-blue-400 bg-blue-500/10 border-blue-500/30',
+  post: 'text-emerald-400 bg-emerald-500/10 border-emerald-500/30',
+  put: 'text-amber-400 bg-amber-500/10 border-amber-500/30',
+  patch: 'text-amber-400 bg-amber-500/10 border-amber-500/30',
+  delete: 'text-red-400 bg-red-500/10 border-red-500/30',
+  options: 'text-mid-grey bg-dark-surface/30 border-divider/30',
+  head: 'text-mid-grey bg-dark-surface/30 border-divider/30',
+  trace: 'text-mid-grey bg-dark-surface/30 border-divider/30',
+}
+
+const OpenAPIView = ({ content }: OpenAPIViewProps) => {
+  const [showSource, setShowSource] = useState(false)
+  const { spec, problems } = useMemo(() => validateOpenAPI(content), [content])
+  const endpoints = useMemo(() => (spec ? listEndpoints(spec) : []), [spec])
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          {spec ? (
+            <>
+              <div className="text-sm font-semibold text-white truncate">{spec.info.title}</div>
+              <div className="text-[11px] text-mid-grey">
+                Version {spec.info.version} · OpenAPI {spec.openapi} · {endpoints.length} endpoint{endpoints.length === 1 ? '' : 's'}
+              </div>
+            </>
+          ) : (
+            <div className="text-xs text-red-400">
+              {problems.length} problem{problems.length === 1 ? '' : 's'} found, this document is not a valid OpenAPI 3.1 spec
+            </div>
+          )}
+        </div>
+        <button
+          onClick={() => setShowSource(!showSource)}
+          className="px-2.5 py-1 text-[11px] text-mid-grey hover:text-charcoal rounded-md border border-divider/30 hover:border-divider/50 transition-colors flex-shrink-0"
+        >
+          {showSource ? 'Endpoints' : 'YAML'}
+        </button>
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="text-xs text-red-300 bg-red-500/10 border border-red-500/30 rounded-md px-3 py-2 space-y-1 list-disc list-inside">
+          {problems.map(problem => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+
+      {showSource || !spec ? (
+        <MarkdownRenderer content={`\`\`\`yaml\n${content}\n\`\`\``} />
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-mid-grey border-b border-divider/20">
+                <th className="py-2 pr-3 font-medium">Method</th>
+                <th className="py-2 pr-3 font-medium">Path</th>
+                <th className="py-2 pr-3 font-medium">Summary</th>
+                <th className="py-2 font-medium">Responses</th>
+              </tr>
+            </thead>
+            <tbody>
+              {endpoints.map(endpoint => (
+                <tr key={`${endpoint.method} ${endpoint.path}`} className="border-b border-divider/10 align-top">
+                  <td className="py-2 pr-3">
+                    <span className={`inline-block px-1.5 py-0.5 rounded border font-mono font-semibold uppercase text-[10px] ${METHOD_COLORS[endpoint.method]}`}>
+                      {endpoint.method}
+                    </span>
+                  </td>
+                  <td className={`py-2 pr-3 font-mono text-white whitespace-nowrap ${endpoint.deprecated ? 'line-through opacity-60' : ''}`}>
+                    {endpoint.path}
+                  </td>
+                  <td className="py-2 pr-3 text-charcoal">
+                    {endpoint.summary || <span className="text-mid-grey">—</span>}
+                    {endpoint.parameters.length > 0 && (
+                      <div className="text-[10px] text-mid-grey mt-0.5">Params: {endpoint.parameters.join(', ')}</div>
+                    )}
+                  </td>
+                  <td className="py-2 font-mono text-mid-grey whitespace-nowrap">{endpoint.responses.join(' ')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default OpenAPIView
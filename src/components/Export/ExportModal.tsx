@@ -1,29 +1,103 @@
 import { useState } from 'react'
-import { exportToPDF, exportToDOCX, exportToMarkdown } from '../../utils/exportUtils'
+import { exportToPDF, exportToDOCX, exportToMarkdown, exportToYAML, exportProject, exportUserStories, exportDataModel, exportSiteFlow, type ExportFormat, type ExportPackaging } from '../../utils/exportUtils'
+import { STORY_EXPORT_FORMATS, STORY_EXPORT_FILES, isStoryExportFormat, type StoryExportFormat } from '../../utils/userStories'
+import { DATA_MODEL_EXPORT_FORMATS, DATA_MODEL_EXPORT_FILES, isDataModelExportFormat, type DataModelExportFormat } from '../../utils/dataModel'
+import { SITE_FLOW_EXPORT_FORMATS, SITE_FLOW_EXPORT_FILES, isSiteFlowExportFormat, type SiteFlowExportFormat } from '../../utils/siteFlowExport'
+import type { Project } from '../../utils/storage'
 
 interface ExportModalProps {
-  content: string
+  content: string // For a site flow, the flow as JSON
   filename: string
+  subtitle?: string // Document type, shown on the cover of PDF and DOCX exports
+  project?: Project // Offers exporting every document in the project at once
   onClose: () => void
 }
 
-const ExportModal = ({ content, filename, onClose }: ExportModalProps) => {
-  const [exportFormat, setExportFormat] = useState<'PDF' | 'DOCX' | 'Markdown'>('PDF')
+type ModalFormat = ExportFormat | StoryExportFormat | DataModelExportFormat | SiteFlowExportFormat | 'YAML'
+
+const DOCUMENT_FORMATS: ExportFormat[] = ['PDF', 'DOCX', 'Markdown']
+
+const isDocumentFormat = (format: ModalFormat): format is ExportFormat => (DOCUMENT_FORMATS as string[]).includes(format)
+
+const ExportModal = ({ content, filename, subtitle, project, onClose }: ExportModalProps) => {
+  // An OpenAPI spec is only useful to tools as YAML, a data model as a database schema and
+  // a site flow as a diagram, so none of them is rendered through PDF or DOCX on its own
+  const isOpenAPI = subtitle === 'OpenAPI'
+  const isDataModel = subtitle === 'Data Model'
+  const isSiteFlow = subtitle === 'Site Flow'
+  const singleFormats: ModalFormat[] | null = isOpenAPI ? ['YAML'] : isDataModel ? DATA_MODEL_EXPORT_FORMATS : isSiteFlow ? SITE_FLOW_EXPORT_FORMATS : null
+  const [exportFormat, setExportFormat] = useState<ModalFormat>(singleFormats ? singleFormats[0] : 'PDF')
+  const [scope, setScope] = useState<'document' | 'project'>('document')
+  const [packaging, setPackaging] = useState<ExportPackaging>('combined')
   const [isExporting, setIsExporting] = useState(false)
 
+  const isProjectExport = scope === 'project' && !!project
+  // Issue tracker formats only make sense for a single User Stories document
+  const offersStoryFormats = !isProjectExport && subtitle === 'User Stories'
+  const formats: ModalFormat[] = !isProjectExport && singleFormats ? singleFormats : DOCUMENT_FORMATS
+  // Falls back to PDF when a document-only format was picked before switching to the whole project
+  const documentFormat: ExportFormat = isDocumentFormat(exportFormat) ? exportFormat : 'PDF'
+  const outputName = isProjectExport
+    ? `${project.title}.${packaging === 'zip' ? 'zip' : { PDF: 'pdf', DOCX: 'docx', Markdown: 'md' }[documentFormat]}`
+    : exportFormat === 'YAML'
+      ? `${filename}.yaml`
+      : isStoryExportFormat(exportFormat)
+        ? `${filename}${STORY_EXPORT_FILES[exportFormat]}`
+        : isDataModelExportFormat(exportFormat)
+          ? `${filename}${DATA_MODEL_EXPORT_FILES[exportFormat]}`
+          : isSiteFlowExportFormat(exportFormat) ? `${filename}${SITE_FLOW_EXPORT_FILES[exportFormat]}` : filename
+
+  const handleScopeChange = (value: 'document' | 'project') => {
+    setScope(value)
+    setExportFormat(value === 'document' && singleFormats ? singleFormats[0] : documentFormat)
+  }
+
   const handleExport = async () => {
     setIsExporting(true)
+    const target = isProjectExport ? 'project' : exportFormat
     try {
-      switch (exportFormat) {
+      switch (target) {
+        case 'project':
+          await exportProject(project!, documentFormat, packaging)
+          break
         case 'PDF':
-          await exportToPDF(content, filename)
+          await exportToPDF(content, filename, { subtitle })
           break
         case 'DOCX':
-          await exportToDOCX(content, filename)
+          await exportToDOCX(content, filename, { subtitle })
           break
         case 'Markdown':
           exportToMarkdown(content, filename)
           break
+        case 'YAML':
+          exportToYAML(content, filename)
+          break
+        case 'PostgreSQL':
+        case 'Prisma':
+          if (!exportDataModel(content, filename, target)) {
+            setIsExporting(false)
+            alert('This data model has errors, so no schema can be generated from it. Fix them in the document first.')
+            return
+          }
+          break
+        case 'SVG':
+        case 'PNG':
+        case 'Mermaid':
+          if (!(await exportSiteFlow(content, filename, target))) {
+            setIsExporting(false)
+            alert('This site flow has no pages to export yet.')
+            return
+          }
+          break
+        case 'Jira CSV':
+        case 'Linear CSV':
+        case 'GitHub Issues':
+          if (exportUserStories(content, filename, target) === 0) {
+            setIsExporting(false)
+            alert('No user stories were found in this document. Stories need an "As a... I want... so that..." sentence or acceptance criteria.')
+            return
+          }
+          break
       }
       setTimeout(() => {
         setIsExporting(false)
@@ -40,7 +114,7 @@ const ExportModal = ({ content, filename, onClose }: ExportModalProps) => {
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
       <div className="bg-dark-card rounded-lg max-w-md w-full p-5 border border-divider/50 shadow-xl">
         <div className="flex items-center justify-between mb-5">
-          <h2 className="text-lg font-heading font-semibold text-charcoal">Export Document</h2>
+          <h2 className="text-lg font-heading font-semibold text-charcoal">{isProjectExport ? 'Export Project' : isSiteFlow ? 'Export Diagram' : 'Export Document'}</h2>
           <button onClick={onClose} className="text-mid-grey hover:text-charcoal">
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -49,10 +123,57 @@ const ExportModal = ({ content, filename, onClose }: ExportModalProps) => {
         </div>
 
         <div className="space-y-4">
+          {project && (
+            <div>
+              <label className="block text-sm font-medium text-charcoal mb-2">What to Export</label>
+              <div className="grid grid-cols-2 gap-2">
+                {([['document', 'This document'], ['project', 'Whole project']] as const).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => handleScopeChange(value)}
+                    className={`px-3.5 py-2 rounded-md border transition-all text-sm font-medium focus:outline-none focus:ring-2 focus:ring-amber-gold/50 ${
+                      scope === value
+                        ? 'border-amber-gold bg-amber-gold/15 text-amber-gold shadow-sm'
+                        : 'border-divider/50 text-charcoal hover:border-amber-gold/50 hover:bg-dark-surface/50'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {isProjectExport && (
+            <div>
+              <label className="block text-sm font-medium text-charcoal mb-2">Package</label>
+              <div className="grid grid-cols-2 gap-2">
+                {([['combined', 'One file'], ['zip', 'Zip archive']] as const).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => setPackaging(value)}
+                    className={`px-3.5 py-2 rounded-md border transition-all text-sm font-medium focus:outline-none focus:ring-2 focus:ring-amber-gold/50 ${
+                      packaging === value
+                        ? 'border-amber-gold bg-amber-gold/15 text-amber-gold shadow-sm'
+                        : 'border-divider/50 text-charcoal hover:border-amber-gold/50 hover:bg-dark-surface/50'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-mid-grey mt-2">
+                {packaging === 'zip'
+                  ? 'Each document as its own file, plus the site flow as SVG and JSON.'
+                  : 'Every document as a chapter, followed by the site flow diagram.'}
+              </p>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-charcoal mb-2">Export Format</label>
             <div className="grid grid-cols-3 gap-2">
-              {(['PDF', 'DOCX', 'Markdown'] as const).map((format) => (
+              {formats.map((format) => (
                 <button
                   key={format}
                   onClick={() => setExportFormat(format)}
@@ -68,11 +189,35 @@ const ExportModal = ({ content, filename, onClose }: ExportModalProps) => {
             </div>
           </div>
 
+          {offersStoryFormats && (
+            <div>
+              <label className="block text-sm font-medium text-charcoal mb-2">Issue Tracker Import</label>
+              <div className="grid grid-cols-3 gap-2">
+                {STORY_EXPORT_FORMATS.map((format) => (
+                  <button
+                    key={format}
+                    onClick={() => setExportFormat(format)}
+                    className={`px-3.5 py-2 rounded-md border transition-all text-sm font-medium focus:outline-none focus:ring-2 focus:ring-amber-gold/50 ${
+                      exportFormat === format
+                        ? 'border-amber-gold bg-amber-gold/15 text-amber-gold shadow-sm'
+                        : 'border-divider/50 text-charcoal hover:border-amber-gold/50 hover:bg-dark-surface/50'
+                    }`}
+                  >
+                    {format}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-mid-grey mt-2">
+                One issue per story, with acceptance criteria, priority and story points.
+              </p>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-charcoal mb-2">Filename</label>
             <input
               type="text"
-              value={filename}
+              value={outputName}
               readOnly
               className="w-full px-3.5 py-2 border border-divider/50 rounded-md bg-dark-surface text-charcoal text-sm focus:outline-none focus:border-amber-gold/50 focus:ring-2 focus:ring-amber-gold/30 transition-colors"
             />
@@ -0,0 +1,141 @@
+import { useState } from 'react'
+import type { Project, ProjectDocument, ProjectUpdates } from '../../utils/storage'
+import DiffView from '../DocumentGeneration/DiffView'
+
+interface MergeDialogProps {
+  base: Project // The copy this tab's changes were made to
+  mine: Project // The project as this tab wanted to save it
+  theirs: Project // The copy saved somewhere else in the meantime
+  onMerge: (documents: Pick<ProjectUpdates, 'documents' | 'content'>) => Promise<void>
+  onDiscard: () => void
+}
+
+type Choice = 'mine' | 'theirs'
+
+// Legacy single-document projects keep their text in content only
+const documentsOf = (project: Project): ProjectDocument[] =>
+  project.documents && project.documents.length > 0
+    ? project.documents
+    : [{ type: project.type, content: project.content }]
+
+const MergeDialog = ({ base, mine, theirs, onMerge, onDiscard }: MergeDialogProps) => {
+  const baseDocuments = documentsOf(base)
+  const myDocuments = documentsOf(mine)
+  const theirDocuments = documentsOf(theirs)
+  const documentTypes = [...new Set([...theirDocuments, ...myDocuments].map(doc => doc.type))]
+  const conflicting = documentTypes.filter(type =>
+    myDocuments.find(doc => doc.type === type)?.content !== theirDocuments.find(doc => doc.type === type)?.content
+  )
+
+  const [activeType, setActiveType] = useState(conflicting[0] || documentTypes[0])
+  const [choices, setChoices] = useState<Record<string, Choice>>({})
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Default to whichever side actually edited the document
+  const choiceFor = (type: string): Choice => {
+    if (choices[type]) return choices[type]
+    const edited = myDocuments.find(doc => doc.type === type)?.content !== baseDocuments.find(doc => doc.type === type)?.content
+    return edited ? 'mine' : 'theirs'
+  }
+
+  const handleMerge = async () => {
+    const documents = documentTypes
+      .map(type => (choiceFor(type) === 'mine' ? myDocuments : theirDocuments).find(doc => doc.type === type))
+      .filter((doc): doc is ProjectDocument => !!doc)
+    const prd = documents.find(doc => doc.type === 'PRD') || documents[0]
+
+    setIsSaving(true)
+    try {
+      await onMerge({
+        documents,
+        content: prd?.content || '',
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const myContent = myDocuments.find(doc => doc.type === activeType)?.content || ''
+  const theirContent = theirDocuments.find(doc => doc.type === activeType)?.content || ''
+
+  return (
+    <div className="fixed inset-0 bg-black/90 backdrop-blur-xl z-50 flex items-center justify-center p-4">
+      <div className="bg-dark-card/95 backdrop-blur-sm rounded-2xl max-w-5xl w-full max-h-[90vh] flex flex-col p-6 border border-divider/20 shadow-2xl">
+        <h3 className="text-lg font-light text-white mb-1">This project was changed somewhere else</h3>
+        <p className="text-xs text-mid-grey mb-4 leading-relaxed">
+          Someone saved "{theirs.title}" ({new Date(theirs.updatedAt).toLocaleString()}) after you opened it.
+          Pick which version of each document to keep, then save the merged project.
+        </p>
+
+        <div className="flex gap-1 border-b border-divider/20 overflow-x-auto">
+          {documentTypes.map(type => (
+            <button
+              key={type}
+              onClick={() => setActiveType(type)}
+              className={`px-2 py-1 text-xs font-medium rounded-t-lg transition-all duration-200 whitespace-nowrap ${
+                activeType === type
+                  ? 'bg-amber-gold text-black'
+                  : 'text-mid-grey hover:text-white hover:bg-dark-surface/50'
+              }`}
+            >
+              {type}
+              {conflicting.includes(type) && <span className="ml-1 text-red-400">•</span>}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto py-3 space-y-2">
+          {conflicting.includes(activeType) ? (
+            <>
+              <div className="flex items-center gap-2 text-xs">
+                <span className="text-mid-grey">Keep:</span>
+                {(['theirs', 'mine'] as Choice[]).map(choice => (
+                  <button
+                    key={choice}
+                    onClick={() => setChoices({ ...choices, [activeType]: choice })}
+                    className={`px-2 py-1 rounded-lg border transition-all duration-200 ${
+                      choiceFor(activeType) === choice
+                        ? 'border-amber-gold/50 bg-amber-gold/10 text-white'
+                        : 'border-divider/30 text-mid-grey hover:text-white'
+                    }`}
+                  >
+                    {choice === 'mine' ? 'Your changes' : 'Their version'}
+                  </button>
+                ))}
+              </div>
+              <DiffView
+                layout="split"
+                before={theirContent}
+                after={myContent}
+                beforeLabel="Their version"
+                afterLabel="Your changes"
+                maxHeight={420}
+              />
+            </>
+          ) : (
+            <div className="text-xs text-mid-grey">Both versions of this document are identical.</div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3 justify-end pt-3 border-t border-divider/20">
+          <button
+            onClick={onDiscard}
+            disabled={isSaving}
+            className="px-4 py-2 text-xs text-white hover:bg-dark-surface/50 rounded-lg transition-all duration-200 border border-divider/30 disabled:opacity-50"
+          >
+            Discard my changes
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={isSaving}
+            className="px-4 py-2 text-xs bg-amber-gold hover:bg-amber-gold/90 text-black rounded-lg font-semibold transition-all duration-200 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving…' : 'Save merged project'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default MergeDialog
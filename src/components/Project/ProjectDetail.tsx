@@ -1,9 +1,22 @@
-import { useState, useEffect } from 'react'
-import { storage } from '../../utils/storage'
-import type { Project } from '../../utils/storage'
+import { useState, useEffect, useRef } from 'react'
+import { storage, StorageQuotaError, ProjectConflictError } from '../../utils/storage'
+import type { Project, ProjectUpdates, ProjectVersion, SiteFlowData } from '../../utils/storage'
 import DocumentViewer from '../DocumentGeneration/DocumentViewer'
-import SiteFlowVisualizer from '../SiteFlow/SiteFlowVisualizer'
-import { exportToPDF } from '../../utils/exportUtils'
+import VersionHistory from './VersionHistory'
+import MergeDialog from './MergeDialog'
+import StorageBadge from '../UI/StorageBadge'
+import SiteFlowVisualizer, { type SiteFlowData as VisualizerSiteFlowData } from '../SiteFlow/SiteFlowVisualizer'
+import DataModelDiagram from '../DataModel/DataModelDiagram'
+import ExportModal from '../Export/ExportModal'
+import { exportProjectBundle, BUNDLE_EXTENSION } from '../../utils/projectBundle'
+import { findDocumentProblems } from '../../utils/documentValidation'
+import { parseDataModel } from '../../utils/dataModel'
+import { clearSiteFlowHistory } from '../../utils/siteFlowHistory'
+
+// Site flow edits (each drag, undo and redo) are saved once they pause for this long
+const SITE_FLOW_SAVE_DELAY_MS = 800
+
+type ProjectConflict = { current: Project; updates: ProjectUpdates }
 
 interface ProjectDetailProps {
   projectId: string
@@ -17,9 +30,22 @@ const ProjectDetail = ({ projectId, onClose, onDelete }: ProjectDetailProps) =>
   const [editedTitle, setEditedTitle] = useState('')
   const [editedDescription, setEditedDescription] = useState('')
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
+  const [showExport, setShowExport] = useState(false)
   const [activeDocumentIndex, setActiveDocumentIndex] = useState(0)
-  const [activeTab, setActiveTab] = useState<'documents' | 'siteflow'>('documents')
+  const [activeTab, setActiveTab] = useState<'documents' | 'siteflow' | 'datamodel' | 'history'>('documents')
   const [isLoading, setIsLoading] = useState(true)
+  const [conflict, setConflict] = useState<ProjectConflict | null>(null)
+  // Read by queued saves, which run after the render that started them
+  const conflictRef = useRef<ProjectConflict | null>(null)
+  // Latest saved copy, so queued saves are based on what the previous save returned
+  const projectRef = useRef<Project | null>(null)
+  const saveQueueRef = useRef<Promise<unknown>>(Promise.resolve())
+  const pendingSiteFlowRef = useRef<SiteFlowData | null>(null)
+  const siteFlowTimerRef = useRef<number | undefined>(undefined)
+
+  useEffect(() => {
+    projectRef.current = project
+  }, [project])
 
   // Get project color based on type
   const getProjectColor = (type: string) => {
@@ -63,29 +89,197 @@ const ProjectDetail = ({ projectId, onClose, onDelete }: ProjectDetailProps) =>
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Escape' && !showDeleteConfirm) {
+      if (e.key === 'Escape' && !showDeleteConfirm && !showExport) {
         onClose()
       }
     }
     
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [onClose, showDeleteConfirm])
+  }, [onClose, showDeleteConfirm, showExport])
+
+  const showConflict = (next: ProjectConflict | null) => {
+    conflictRef.current = next
+    setConflict(next)
+  }
+
+  // Persist changes, telling the user when the save fails (e.g. browser storage is full).
+  // Saves run one at a time, each based on the copy the previous one returned; updates given as a
+  // function are worked out from that copy. If the project was saved elsewhere meanwhile, the merge
+  // dialog opens instead, and later saves are added to it until the user resolves it
+  const updateProject = (
+    changes: ProjectUpdates | ((current: Project) => ProjectUpdates),
+    failureMessage: string,
+    expectedUpdatedAt?: string
+  ): Promise<Project | null> => {
+    const save = async (): Promise<Project | null> => {
+      const current = projectRef.current
+      if (!current) return null
+      const resolve = (base: Project) => (typeof changes === 'function' ? changes(base) : changes)
+
+      // Saving now would hit the same conflict, so the changes wait for the user with the earlier ones
+      const pending = conflictRef.current
+      if (pending) {
+        showConflict({ ...pending, updates: { ...pending.updates, ...resolve({ ...current, ...pending.updates }) } })
+        return null
+      }
+      const updates = resolve(current)
+
+      try {
+        const updated = await storage.update(current.id, updates, expectedUpdatedAt ?? current.updatedAt)
+        if (updated) {
+          projectRef.current = updated
+          setProject(updated)
+        } else {
+          alert(failureMessage)
+        }
+        return updated
+      } catch (error) {
+        if (error instanceof ProjectConflictError) {
+          console.warn('⚠️ Project was changed elsewhere, asking to merge')
+          showConflict({ current: error.current, updates })
+          return null
+        }
+        console.error('Error updating project:', error)
+        alert(error instanceof StorageQuotaError ? error.message : failureMessage)
+        return null
+      }
+    }
+
+    const result = saveQueueRef.current.then(save)
+    saveQueueRef.current = result
+    return result
+  }
+
+  const handleMerge = async (documents: Pick<ProjectUpdates, 'documents' | 'content'>) => {
+    if (!conflict) return
+
+    const current = conflict.current
+    showConflict(null)
+    // Fields other than documents come from whichever side changed them
+    const updated = await updateProject(
+      { ...conflict.updates, ...documents },
+      'Failed to save the merged project. Please try again.',
+      current.updatedAt
+    )
+    if (updated) {
+      setIsEditing(false)
+    }
+  }
+
+  const handleDiscardChanges = () => {
+    if (!conflict) return
+
+    projectRef.current = conflict.current
+    setProject(conflict.current)
+    setEditedTitle(conflict.current.title)
+    setEditedDescription(conflict.current.description)
+    setIsEditing(false)
+    showConflict(null)
+  }
 
   const handleSave = async () => {
-    if (!project) return
-    
-    const updated = await storage.update(project.id, {
+    const updated = await updateProject({
       title: editedTitle,
       description: editedDescription,
-    })
+    }, 'Failed to save the project. Please try again.')
     
     if (updated) {
-      setProject(updated)
       setIsEditing(false)
     }
   }
 
+  const handleDocumentChange = async (index: number, content: string) => {
+    if (!project) return
+
+    const problems = findDocumentProblems({ type: project.documents?.[index]?.type || project.type, content })
+    if (problems.length > 0) {
+      alert(`This document can't be saved until these problems are fixed:\n\n${problems.join('\n')}`)
+      return
+    }
+
+    // Built from the copy the previous save returned, so quick edits don't undo each other.
+    // Legacy single-document projects keep their text in content only
+    await updateProject(current => {
+      const documents = current.documents?.map((doc, docIndex) => (docIndex === index ? { ...doc, content } : doc))
+      return documents && documents.length > 0
+        ? {
+            documents,
+            // content mirrors the PRD for backward compatibility
+            ...(documents[index].type === 'PRD' ? { content } : {}),
+          }
+        : { content }
+    }, 'Failed to save the updated document. Please try again.')
+  }
+
+  const saveSiteFlow = () => {
+    window.clearTimeout(siteFlowTimerRef.current)
+    const flow = pendingSiteFlowRef.current
+    pendingSiteFlowRef.current = null
+    if (flow) updateProject({ siteFlow: flow }, 'Failed to save the site flow. Please try again.')
+  }
+
+  const handleSiteFlowChange = (flow: VisualizerSiteFlowData) => {
+    pendingSiteFlowRef.current = flow as SiteFlowData
+    window.clearTimeout(siteFlowTimerRef.current)
+    siteFlowTimerRef.current = window.setTimeout(saveSiteFlow, SITE_FLOW_SAVE_DELAY_MS)
+  }
+
+  // Don't lose the last site flow edit when the project is closed before it was saved
+  useEffect(() => () => saveSiteFlow(), [])
+
+  const handleRestoreVersion = async (version: ProjectVersion) => {
+    if (!project) return
+
+    // A site flow edit still waiting to be saved would overwrite the restored flow
+    window.clearTimeout(siteFlowTimerRef.current)
+    pendingSiteFlowRef.current = null
+
+    // Snapshots without documents (older site flow saves) leave the current documents alone
+    const prd = version.documents?.find(doc => doc.type === 'PRD') || version.documents?.[0]
+    const updated = await updateProject({
+      ...(version.documents ? { documents: version.documents } : {}),
+      ...(version.siteFlow ? { siteFlow: version.siteFlow } : {}),
+      ...(prd ? { content: prd.content } : {}),
+    }, 'Failed to restore this version. Please try again.')
+
+    if (updated) {
+      setActiveDocumentIndex(0)
+      // Undo steps were recorded against the flow that was just replaced
+      clearSiteFlowHistory(updated.id)
+    }
+  }
+
+  const handleRetrySync = async () => {
+    if (!project) return
+    await storage.retrySync(project.id)
+    const reloaded = await storage.get(project.id)
+    if (reloaded) setProject(reloaded)
+    if (reloaded?.syncStatus === 'error') {
+      alert(`Syncing still fails: ${reloaded.syncError || 'the server rejected the changes'}`)
+    }
+  }
+
+  const handleDiscardUnsynced = async () => {
+    if (!project) return
+    if (!confirm('Discard the changes that could not be synced? The copy on the server is kept; a project that never reached the server is removed.')) return
+
+    try {
+      const stored = await storage.discardUnsynced(project.id)
+      if (!stored) {
+        onDelete()
+        return
+      }
+      clearSiteFlowHistory(stored.id)
+      setProject(stored)
+      setEditedTitle(stored.title)
+      setEditedDescription(stored.description)
+    } catch (error) {
+      console.error('Error discarding unsynced changes:', error)
+      alert('Could not reach the server to reload this project. Please try again when you are online.')
+    }
+  }
+
   const handleDelete = async () => {
     if (!project) return
     await storage.delete(project.id)
@@ -93,14 +287,7 @@ const ProjectDetail = ({ projectId, onClose, onDelete }: ProjectDetailProps) =>
   }
 
   const handleExport = () => {
-    if (!project) return
-    
-    // Export the currently active document, or the main content if single document
-    const contentToExport = project.documents && project.documents.length > 1
-      ? project.documents[activeDocumentIndex]?.content || project.content
-      : project.content
-    
-    exportToPDF(contentToExport, project.title)
+    setShowExport(true)
   }
 
   if (isLoading) {
@@ -119,6 +306,10 @@ const ProjectDetail = ({ projectId, onClose, onDelete }: ProjectDetailProps) =>
     )
   }
 
+  // The diagram needs a valid model; invalid ones are shown with their errors in the document tab
+  const dataModelDoc = project.documents?.find(doc => doc.type === 'Data Model')
+  const dataModel = dataModelDoc ? parseDataModel(dataModelDoc.content).model : null
+
   return (
     <div className="w-full">
       <div className="bg-dark-card/95 backdrop-blur-sm rounded-xl max-w-6xl w-full max-h-[85vh] overflow-hidden flex flex-col shadow-2xl border border-divider/20">
@@ -168,6 +359,7 @@ const ProjectDetail = ({ projectId, onClose, onDelete }: ProjectDetailProps) =>
                       <span className="text-xs text-mid-grey">
                         {storage.formatDate(project.updatedAt)}
                       </span>
+                      <StorageBadge backend={project.storageBackend} syncStatus={project.syncStatus} />
                     </div>
                   </div>
                 </div>
@@ -189,6 +381,13 @@ const ProjectDetail = ({ projectId, onClose, onDelete }: ProjectDetailProps) =>
                 >
                   Export
                 </button>
+                <button
+                  onClick={() => exportProjectBundle(project)}
+                  className="px-2 py-1 text-xs text-white hover:bg-dark-surface/50 rounded-lg transition-all duration-200 border border-divider/30 hover:border-amber-gold/50"
+                  title={`Download everything in this project as a ${BUNDLE_EXTENSION} bundle, importable from the projects page`}
+                >
+                  Bundle
+                </button>
                 <button
                   onClick={() => setShowDeleteConfirm(true)}
                   className="px-2 py-1 text-xs text-red-400 hover:bg-red-400/10 rounded-lg transition-all duration-200 border border-red-400/20 hover:border-red-400/40"
@@ -206,6 +405,28 @@ const ProjectDetail = ({ projectId, onClose, onDelete }: ProjectDetailProps) =>
           </div>
         </div>
 
+        {project.syncStatus === 'error' && (
+          <div className="flex items-center justify-between gap-3 mx-2 mt-2 px-3 py-2 text-xs text-red-300 bg-red-500/10 border border-red-500/30 rounded-lg">
+            <span>
+              Changes to this project could not be synced{project.syncError ? `: ${project.syncError}` : ''}. They are kept in this browser.
+            </span>
+            <div className="flex gap-2 flex-shrink-0">
+              <button
+                onClick={handleRetrySync}
+                className="px-2 py-1 text-xs text-white hover:bg-dark-surface/50 rounded-lg transition-all duration-200 border border-divider/30"
+              >
+                Retry
+              </button>
+              <button
+                onClick={handleDiscardUnsynced}
+                className="px-2 py-1 text-xs text-red-400 hover:bg-red-400/10 rounded-lg transition-all duration-200 border border-red-400/20 hover:border-red-400/40"
+              >
+                Discard local changes
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-2">
           {isEditing ? (
@@ -245,6 +466,28 @@ const ProjectDetail = ({ projectId, onClose, onDelete }: ProjectDetailProps) =>
                 >
                   Site Flow
                 </button>
+                {dataModel && (
+                  <button
+                    onClick={() => setActiveTab('datamodel')}
+                    className={`px-3 py-1.5 text-xs font-medium rounded-t-lg transition-all duration-200 ${
+                      activeTab === 'datamodel'
+                        ? 'bg-amber-gold text-black border-b-2 border-amber-gold shadow-lg'
+                        : 'text-mid-grey hover:text-white hover:bg-dark-surface/50 border-b-2 border-transparent'
+                    }`}
+                  >
+                    Data Model
+                  </button>
+                )}
+                <button
+                  onClick={() => setActiveTab('history')}
+                  className={`px-3 py-1.5 text-xs font-medium rounded-t-lg transition-all duration-200 ${
+                    activeTab === 'history'
+                      ? 'bg-amber-gold text-black border-b-2 border-amber-gold shadow-lg'
+                      : 'text-mid-grey hover:text-white hover:bg-dark-surface/50 border-b-2 border-transparent'
+                  }`}
+                >
+                  History
+                </button>
               </div>
 
               {/* Tab Content */}
@@ -273,7 +516,10 @@ const ProjectDetail = ({ projectId, onClose, onDelete }: ProjectDetailProps) =>
                       type={project.documents[activeDocumentIndex].type}
                       name={project.title}
                       content={project.documents[activeDocumentIndex].content}
+                      source={project.documents[activeDocumentIndex].source}
+                      brief={project.brief}
                       onExport={handleExport}
+                      onContentChange={(content) => handleDocumentChange(activeDocumentIndex, content)}
                     />
                   </div>
                 </>
@@ -286,18 +532,33 @@ const ProjectDetail = ({ projectId, onClose, onDelete }: ProjectDetailProps) =>
                       appDescription={project.description}
                       prdContent={project.documents?.find(doc => doc.type === 'PRD')?.content}
                       projectName={project.title}
+                      siteFlow={project.siteFlow}
+                      historyKey={project.id}
+                      onSiteFlowChange={handleSiteFlowChange}
                     />
                   </div>
                 </div>
               )}
 
+              {activeTab === 'datamodel' && dataModel && (
+                <div className="mt-4">
+                  <DataModelDiagram model={dataModel} />
+                </div>
+              )}
+
+              {activeTab === 'history' && (
+                <VersionHistory project={project} onRestore={handleRestoreVersion} />
+              )}
+
               {activeTab === 'documents' && (!project.documents || project.documents.length === 0) && (
                 <div className="mt-4">
                   <DocumentViewer
                     type={project.type}
                     name={project.title}
                     content={project.content}
+                    brief={project.brief}
                     onExport={handleExport}
+                    onContentChange={(content) => handleDocumentChange(0, content)}
                   />
                 </div>
               )}
@@ -305,6 +566,27 @@ const ProjectDetail = ({ projectId, onClose, onDelete }: ProjectDetailProps) =>
           )}
         </div>
 
+        {/* Exports the active document, or the main content if single document, or the whole project */}
+        {showExport && (
+          <ExportModal
+            content={project.documents?.[activeDocumentIndex]?.content || project.content}
+            filename={project.title}
+            subtitle={project.documents?.[activeDocumentIndex]?.type || project.type}
+            project={project}
+            onClose={() => setShowExport(false)}
+          />
+        )}
+
+        {conflict && (
+          <MergeDialog
+            base={project}
+            mine={{ ...project, ...conflict.updates }}
+            theirs={conflict.current}
+            onMerge={handleMerge}
+            onDiscard={handleDiscardChanges}
+          />
+        )}
+
         {/* Delete Confirmation Modal */}
         {showDeleteConfirm && (
           <div className="fixed inset-0 bg-black/90 backdrop-blur-xl z-50 flex items-center justify-center p-4">
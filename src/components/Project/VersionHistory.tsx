@@ -0,0 +1,130 @@
+import { useState, useEffect } from 'react'
+import { storage } from '../../utils/storage'
+import type { Project, ProjectVersion } from '../../utils/storage'
+import DiffView from '../DocumentGeneration/DiffView'
+
+interface VersionHistoryProps {
+  project: Project
+  onRestore: (version: ProjectVersion) => Promise<void>
+}
+
+const VersionHistory = ({ project, onRestore }: VersionHistoryProps) => {
+  const [versions, setVersions] = useState<ProjectVersion[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [selectedType, setSelectedType] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  // Reload after every save so the version just written shows up
+  useEffect(() => {
+    const loadVersions = async () => {
+      setIsLoading(true)
+      const loaded = await storage.getVersions(project.id)
+      setVersions(loaded)
+      setIsLoading(false)
+    }
+    loadVersions()
+  }, [project.id, project.updatedAt])
+
+  const selected = versions.find(version => version.id === selectedId) || versions[1] || versions[0]
+  const currentDocuments = project.documents && project.documents.length > 0
+    ? project.documents
+    : [{ type: project.type, content: project.content }]
+  const documentTypes = [...new Set([
+    ...currentDocuments.map(doc => doc.type),
+    ...(selected?.documents || []).map(doc => doc.type),
+  ])]
+  const activeType = selectedType && documentTypes.includes(selectedType as Project['type']) ? selectedType : documentTypes[0]
+
+  const handleRestore = async () => {
+    if (!selected) return
+    if (!confirm(`Restore the version from ${new Date(selected.createdAt).toLocaleString()}? It is saved as a new version, so the current state stays in the history.`)) return
+
+    setIsRestoring(true)
+    try {
+      await onRestore(selected)
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  if (isLoading) {
+    return <div className="mt-4 text-xs text-mid-grey">Loading history…</div>
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="mt-4 text-xs text-mid-grey">
+        No saved versions yet. A version is recorded every time the documents are saved, and at most once a minute while the site flow is being edited.
+      </div>
+    )
+  }
+
+  return (
+    <div className="mt-2 flex gap-3 min-h-[400px]">
+      {/* Version list */}
+      <div className="w-56 flex-shrink-0 space-y-1 overflow-y-auto max-h-[520px]">
+        {versions.map((version, index) => (
+          <button
+            key={version.id}
+            onClick={() => setSelectedId(version.id)}
+            className={`w-full text-left px-3 py-2 rounded-lg border transition-all duration-200 ${
+              selected?.id === version.id
+                ? 'border-amber-gold/50 bg-amber-gold/10'
+                : 'border-divider/20 hover:border-divider/40 hover:bg-dark-surface/50'
+            }`}
+          >
+            <div className="text-xs text-white">
+              {storage.formatDate(version.createdAt)}
+              {index === 0 && <span className="ml-2 text-[10px] text-amber-gold">Latest</span>}
+            </div>
+            <div className="text-[10px] text-mid-grey truncate" title={new Date(version.createdAt).toLocaleString()}>
+              {version.author || 'Unknown author'}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {/* Side-by-side diff of the selected version against the current project */}
+      {selected && (
+        <div className="flex-1 min-w-0 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex gap-1 overflow-x-auto">
+              {documentTypes.map(type => (
+                <button
+                  key={type}
+                  onClick={() => setSelectedType(type)}
+                  className={`px-2 py-1 text-xs font-medium rounded-lg transition-all duration-200 whitespace-nowrap ${
+                    activeType === type
+                      ? 'bg-amber-gold text-black'
+                      : 'text-mid-grey hover:text-white hover:bg-dark-surface/50'
+                  }`}
+                >
+                  {type}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={handleRestore}
+              disabled={isRestoring}
+              className="px-2 py-1 text-xs bg-amber-gold hover:bg-amber-gold/90 text-black rounded-lg font-semibold transition-all duration-200 disabled:opacity-50 flex-shrink-0"
+            >
+              {isRestoring ? 'Restoring…' : 'Restore this version'}
+            </button>
+          </div>
+
+          <DiffView
+            layout="split"
+            before={selected.documents?.find(doc => doc.type === activeType)?.content || ''}
+            after={currentDocuments.find(doc => doc.type === activeType)?.content || ''}
+            beforeLabel={`Version · ${new Date(selected.createdAt).toLocaleString()}`}
+            afterLabel="Current"
+            maxHeight={460}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default VersionHistory
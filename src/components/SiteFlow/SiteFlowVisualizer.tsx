@@ -1,9 +1,16 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react'
+import React, { useState, useRef, useEffect, useCallback, useId, useReducer } from 'react'
+import { layoutSiteFlow, SITE_FLOW_LAYOUTS, type SiteFlowLayout } from '../../utils/siteFlowLayout'
+import { getSiteFlowHistory, clearSiteFlowHistory, recordCommand, applyCommand, revertCommand, describeCommand, type SiteFlowCommand } from '../../utils/siteFlowHistory'
+import { SITE_FLOW_NODE_TYPES, SITE_FLOW_CONNECTION_TYPES, SITE_FLOW_NODE_COLORS, SITE_FLOW_CONNECTION_COLORS, SITE_FLOW_ICON_PATHS, SITE_FLOW_NODE_HEIGHT, getSiteFlowNodeWidth, getSiteFlowNodeSize, isSiteFlowNodeType, type SiteFlowNodeType, type SiteFlowConnectionType } from '../../utils/siteFlow'
+import { generateSiteFlow } from '../../utils/contentGenerator'
+import ExportModal from '../Export/ExportModal'
+import { isAIAvailable, isAbortError } from '../../utils/aiAgent'
+import type { SiteFlowData as StoredSiteFlowData } from '../../utils/storage'
 
 export interface SiteFlowNode {
   id: string
   name: string
-  type: 'trigger' | 'action' | 'condition' | 'webhook' | 'api' | 'database' | 'page' | 'form' | 'auth' | 'payment' | 'notification' | 'integration' | 'analytics'
+  type: SiteFlowNodeType
   description?: string
   x: number
   y: number
@@ -15,7 +22,7 @@ export interface SiteFlowNode {
 export interface SiteFlowConnection {
   from: string
   to: string
-  type: 'success' | 'failure' | 'conditional'
+  type: SiteFlowConnectionType
 }
 
 export interface SiteFlowData {
@@ -27,149 +34,60 @@ export interface SiteFlowVisualizerProps {
   appDescription?: string
   prdContent?: string
   projectName?: string
-  onSiteFlowChange?: (flow: SiteFlowData) => void
+  siteFlow?: StoredSiteFlowData // A saved flow to edit instead of generating one from the content
+  historyKey?: string // Keeps undo history across remounts, e.g. the project id; otherwise it lasts as long as the component
+  onSiteFlowChange?: (flow: SiteFlowData) => void // Called after every edit, so the owner can persist it
 }
 
-// Calculate dynamic node width based on text length
-const getNodeWidth = (name?: string, description?: string) => {
-  const baseWidth = 180
-  const nameLength = name?.length || 0
-  const descLength = description?.length || 0
-  
-  // Calculate width needed for text (rough estimation)
-  const nameWidth = nameLength * 6 // ~6px per character for 11px font
-  const descWidth = descLength * 5 // ~5px per character for 8px font
-  const textWidth = Math.max(nameWidth, descWidth)
-  
-  // Add padding and icon space
-  const totalWidth = Math.max(baseWidth, textWidth + 60) // 60px for padding + icon + status
-  
-  // Cap maximum width for layout consistency
-  return Math.min(totalWidth, 280)
-}
+const NODE_TYPES: readonly SiteFlowNode['type'][] = SITE_FLOW_NODE_TYPES
+const NODE_STATUSES: SiteFlowNode['status'][] = ['active', 'inactive', 'error']
+const CONNECTION_TYPES: readonly SiteFlowConnection['type'][] = SITE_FLOW_CONNECTION_TYPES
 
-const NODE_HEIGHT = 140
-
-// Color scheme
-const COLORS = {
-  trigger: '#F59E0B',      // Site Yellow
-  action: '#F59E0B',       // Site Yellow  
-  condition: '#F59E0B',    // Site Yellow
-  webhook: '#F59E0B',      // Site Yellow
-  api: '#F59E0B',          // Site Yellow
-  database: '#F59E0B',     // Site Yellow
-  page: '#10B981',         // Emerald Green
-  form: '#3B82F6',        // Blue
-  auth: '#8B5CF6',         // Purple
-  payment: '#EF4444',      // Red
-  notification: '#F97316', // Orange
-  integration: '#06B6D4',  // Cyan
-  analytics: '#84CC16'     // Lime Green
-}
+type NodeDraft = Pick<SiteFlowNode, 'name' | 'description' | 'status' | 'type'>
 
-// Vector icon components
-const getVectorIcon = (type: string) => {
-  const iconProps = {
-    width: "12",
-    height: "12",
-    fill: "none",
-    stroke: "#F59E0B",
-    strokeWidth: "2",
-    viewBox: "0 0 24 24"
-  }
+const CONNECTION_COLORS = SITE_FLOW_CONNECTION_COLORS
 
-  switch (type) {
-    case 'trigger':
-      return (
-        <svg {...iconProps}>
-          <path strokeLinecap="round" strokeLinejoin="round" d="M13 10V3L4 14h7v7l9-11h-7z" />
-        </svg>
-      )
-    case 'action':
-      return (
-        <svg {...iconProps}>
-          <path strokeLinecap="round" strokeLinejoin="round" d="M13 10V3L4 14h7v7l9-11h-7z" />
-        </svg>
-      )
-    case 'condition':
-      return (
-        <svg {...iconProps}>
-          <path strokeLinecap="round" strokeLinejoin="round" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
-        </svg>
-      )
-    case 'webhook':
-      return (
-        <svg {...iconProps}>
-          <path strokeLinecap="round" strokeLinejoin="round" d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
-        </svg>
-      )
-    case 'api':
-      return (
-        <svg {...iconProps}>
-          <path strokeLinecap="round" strokeLinejoin="round" d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
-        </svg>
-      )
-    case 'database':
-      return (
-        <svg {...iconProps}>
-          <path strokeLinecap="round" strokeLinejoin="round" d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4" />
-        </svg>
-      )
-    case 'page':
-      return (
-        <svg {...iconProps} style={{ stroke: COLORS.page }}>
-          <path strokeLinecap="round" strokeLinejoin="round" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-        </svg>
-      )
-    case 'form':
-      return (
-        <svg {...iconProps} style={{ stroke: COLORS.form }}>
-          <path strokeLinecap="round" strokeLinejoin="round" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-        </svg>
-      )
-    case 'auth':
-      return (
-        <svg {...iconProps} style={{ stroke: COLORS.auth }}>
-          <path strokeLinecap="round" strokeLinejoin="round" d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
-        </svg>
-      )
-    case 'payment':
-      return (
-        <svg {...iconProps} style={{ stroke: COLORS.payment }}>
-          <path strokeLinecap="round" strokeLinejoin="round" d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
-        </svg>
-      )
-    case 'notification':
-      return (
-        <svg {...iconProps} style={{ stroke: COLORS.notification }}>
-          <path strokeLinecap="round" strokeLinejoin="round" d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
-        </svg>
-      )
-    case 'integration':
-      return (
-        <svg {...iconProps} style={{ stroke: COLORS.integration }}>
-          <path strokeLinecap="round" strokeLinejoin="round" d="M13 10V3L4 14h7v7l9-11h-7z" />
-        </svg>
-      )
-    case 'analytics':
-      return (
-        <svg {...iconProps} style={{ stroke: COLORS.analytics }}>
-          <path strokeLinecap="round" strokeLinejoin="round" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
-        </svg>
-      )
-    default:
-      return (
-        <svg {...iconProps}>
-          <path strokeLinecap="round" strokeLinejoin="round" d="M13 10V3L4 14h7v7l9-11h-7z" />
-        </svg>
-      )
-  }
+const COLORS = SITE_FLOW_NODE_COLORS
+
+// Vector icon for a node type
+const getVectorIcon = (type: string) => {
+  const nodeType = isSiteFlowNodeType(type) ? type : 'trigger'
+  return (
+    <svg width="12" height="12" fill="none" stroke={COLORS[nodeType]} strokeWidth="2" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" d={SITE_FLOW_ICON_PATHS[nodeType]} />
+    </svg>
+  )
 }
 
+// Saved flows only promise ids, names and positions; fill in what the editor needs
+const fromStoredFlow = (flow: StoredSiteFlowData): SiteFlowData => ({
+  nodes: flow.nodes.map(node => {
+    const stored = node as typeof node & Partial<SiteFlowNode>
+    const type = stored.type && stored.type in COLORS ? stored.type : 'page'
+    return {
+      id: node.id,
+      name: node.name,
+      description: node.description,
+      x: node.x,
+      y: node.y,
+      type,
+      status: stored.status || 'active',
+      color: stored.color || COLORS[type],
+    }
+  }),
+  connections: flow.connections.map(connection => ({
+    from: connection.from,
+    to: connection.to,
+    type: (connection as typeof connection & Partial<SiteFlowConnection>).type || 'success',
+  })),
+})
+
 const SiteFlowVisualizer: React.FC<SiteFlowVisualizerProps> = ({
   appDescription,
   prdContent,
   projectName,
+  siteFlow,
+  historyKey,
   onSiteFlowChange
 }) => {
   const [nodes, setNodes] = useState<SiteFlowNode[]>([])
@@ -182,19 +100,78 @@ const SiteFlowVisualizer: React.FC<SiteFlowVisualizerProps> = ({
   const [isPanning, setIsPanning] = useState(false)
   const [lastMousePos, setLastMousePos] = useState({ x: 0, y: 0 })
   const [isFullscreen, setIsFullscreen] = useState(false)
+  const [layoutMode, setLayoutMode] = useState<SiteFlowLayout>('layered')
+  const [selectedConnection, setSelectedConnection] = useState<number | null>(null)
+  const [editingNode, setEditingNode] = useState<string | null>(null)
+  const [draft, setDraft] = useState<NodeDraft | null>(null)
+  const [linking, setLinking] = useState<{ from: string; x: number; y: number } | null>(null)
+  const [linkType, setLinkType] = useState<SiteFlowConnection['type']>('success')
+  const [showExport, setShowExport] = useState(false)
   
   const canvasRef = useRef<HTMLDivElement>(null)
   const svgRef = useRef<SVGSVGElement>(null)
+  const dragMovedRef = useRef(false)
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null)
+  const generationRef = useRef<AbortController | null>(null)
+
+  const localHistoryKey = useId()
+  const history = getSiteFlowHistory<SiteFlowNode, SiteFlowConnection>(historyKey || localHistoryKey)
+  const [, refreshHistory] = useReducer((count: number) => count + 1, 0)
+  const lastUndo = history.undo[history.undo.length - 1]
+  const lastRedo = history.redo[history.redo.length - 1]
+
+  // A history without a key belongs to this component alone
+  useEffect(() => {
+    return () => {
+      if (!historyKey) clearSiteFlowHistory(localHistoryKey)
+    }
+  }, [historyKey, localHistoryKey])
 
   useEffect(() => {
-    if (appDescription || prdContent) {
-      generateWorkflow()
+    return () => generationRef.current?.abort()
+  }, [])
+
+  useEffect(() => {
+    // The saved flow is only read when the content changes; later saves echo back what the editor already shows
+    if (siteFlow && siteFlow.nodes.length > 0) {
+      const stored = fromStoredFlow(siteFlow)
+      setNodes(stored.nodes)
+      setConnections(stored.connections)
+    } else if (appDescription || prdContent) {
+      generateAndRecord('generate', { nodes: [], connections: [] })
     }
   }, [appDescription, prdContent])
 
-  const generateWorkflow = useCallback(async () => {
+  // Resolves to null when a newer generation or unmounting cancelled this one
+  const generateWorkflow = useCallback(async (): Promise<SiteFlowData | null> => {
     setIsGenerating(true)
-    await new Promise(resolve => setTimeout(resolve, 800))
+
+    const showFlow = (flow: SiteFlowData) => {
+      setNodes(flow.nodes)
+      setConnections(flow.connections)
+      onSiteFlowChange?.(flow)
+      setIsGenerating(false)
+      return flow
+    }
+
+    // Ask the AI first; matching keywords in the PRD below is the offline fallback
+    if (isAIAvailable()) {
+      generationRef.current?.abort()
+      const controller = new AbortController()
+      generationRef.current = controller
+      try {
+        const generated = await generateSiteFlow(prdContent || '', appDescription || '', { signal: controller.signal })
+        const aiNodes = generated.nodes.map((node): SiteFlowNode => ({ ...node, x: 0, y: 0, status: 'active', color: COLORS[node.type] }))
+        return showFlow({ nodes: layoutSiteFlow(aiNodes, generated.connections, layoutMode, getSiteFlowNodeSize), connections: generated.connections })
+      } catch (error) {
+        if (isAbortError(error)) return null
+        console.warn('⚠️ AI site flow failed, using keyword matching:', error)
+      } finally {
+        if (generationRef.current === controller) generationRef.current = null
+      }
+    } else {
+      await new Promise(resolve => setTimeout(resolve, 800))
+    }
     
     // Analyze PRD content to generate unique workflow
     const prdText = (prdContent || '').toLowerCase()
@@ -648,14 +625,197 @@ const SiteFlowVisualizer: React.FC<SiteFlowVisualizerProps> = ({
       })
     }
 
-    setNodes(workflowNodes)
-    setConnections(workflowConnections)
-    onSiteFlowChange?.({ nodes: workflowNodes, connections: workflowConnections })
-    setIsGenerating(false)
-  }, [appDescription, prdContent, onSiteFlowChange])
+    // The grid above only seeds the positions; lay the nodes out from their connections
+    workflowNodes = layoutSiteFlow(workflowNodes, workflowConnections, layoutMode, getSiteFlowNodeSize)
+
+    return showFlow({ nodes: workflowNodes, connections: workflowConnections })
+  }, [appDescription, prdContent, onSiteFlowChange, layoutMode])
+
+  // Every edit goes through here so it reaches onSiteFlowChange
+  const updateFlow = (nextNodes: SiteFlowNode[], nextConnections: SiteFlowConnection[]) => {
+    setNodes(nextNodes)
+    setConnections(nextConnections)
+    onSiteFlowChange?.({ nodes: nextNodes, connections: nextConnections })
+  }
+
+  // Edits are commands, applied here and kept so they can be undone
+  const execute = (command: SiteFlowCommand<SiteFlowNode, SiteFlowConnection>) => {
+    const next = applyCommand({ nodes, connections }, command)
+    recordCommand(history, command)
+    refreshHistory()
+    updateFlow(next.nodes, next.connections)
+  }
+
+  const undo = () => {
+    const command = history.undo.pop()
+    if (!command) return
+    history.redo.push(command)
+    const previous = revertCommand({ nodes, connections }, command)
+    // The selection may no longer exist
+    cancelEditing()
+    setSelectedNode(null)
+    setSelectedConnection(null)
+    refreshHistory()
+    updateFlow(previous.nodes, previous.connections)
+  }
+
+  const redo = () => {
+    const command = history.redo.pop()
+    if (!command) return
+    history.undo.push(command)
+    const next = applyCommand({ nodes, connections }, command)
+    cancelEditing()
+    setSelectedNode(null)
+    setSelectedConnection(null)
+    refreshHistory()
+    updateFlow(next.nodes, next.connections)
+  }
+
+  const relayout = (mode: SiteFlowLayout = layoutMode) => {
+    setLayoutMode(mode)
+    setPan({ x: 0, y: 0 })
+    execute({ kind: 'replace', label: 're-layout', before: { nodes, connections }, after: { nodes: layoutSiteFlow(nodes, connections, mode, getSiteFlowNodeSize), connections } })
+  }
+
+  // generateWorkflow shows and saves the new flow itself, so it is only recorded here
+  const generateAndRecord = async (label: string, before: SiteFlowData) => {
+    const after = await generateWorkflow()
+    if (!after) return
+    recordCommand(history, { kind: 'replace', label, before, after })
+    refreshHistory()
+  }
+
+  const handleRegenerate = async () => {
+    if (nodes.length > 0 && !confirm('Regenerating replaces the current site flow, including your edits. Continue?')) return
+    await generateAndRecord('regenerate', { nodes, connections })
+  }
+
+  // Converts a mouse position into canvas coordinates, undoing the pan and zoom
+  const toCanvasPoint = (clientX: number, clientY: number) => {
+    const canvas = canvasRef.current
+    if (!canvas) return { x: 0, y: 0 }
+    const rect = canvas.getBoundingClientRect()
+    const scale = zoom / 100
+    return {
+      x: (clientX - rect.left + canvas.scrollLeft - pan.x) / scale,
+      y: (clientY - rect.top + canvas.scrollTop - pan.y) / scale,
+    }
+  }
+
+  const startEditing = (node: SiteFlowNode) => {
+    setEditingNode(node.id)
+    setDraft({ name: node.name, description: node.description || '', status: node.status, type: node.type })
+  }
+
+  const cancelEditing = () => {
+    setEditingNode(null)
+    setDraft(null)
+  }
+
+  const commitEditing = () => {
+    if (!editingNode || !draft) return
+    const name = draft.name.trim()
+    cancelEditing()
+    const before = nodes.find(node => node.id === editingNode)
+    // An emptied name keeps the old one
+    if (!name || !before) return
+    const after = { ...before, ...draft, name, description: draft.description?.trim() || '', color: draft.type === before.type ? before.color : COLORS[draft.type] }
+    if (JSON.stringify(after) === JSON.stringify(before)) return
+    execute({ kind: 'editNode', before, after })
+  }
+
+  const addNode = (type: SiteFlowNode['type']) => {
+    const id = String(Math.max(0, ...nodes.map(node => Number(node.id)).filter(Number.isFinite)) + 1)
+    const name = `New ${type}`
+    const canvas = canvasRef.current
+    const rect = canvas?.getBoundingClientRect()
+    // Dropped in the middle of what is on screen
+    const center = rect ? toCanvasPoint(rect.left + rect.width / 2, rect.top + rect.height / 2) : { x: 400, y: 300 }
+    const node: SiteFlowNode = {
+      id,
+      name,
+      type,
+      description: '',
+      x: Math.round(center.x - getSiteFlowNodeWidth(name) / 2),
+      y: Math.round(center.y - SITE_FLOW_NODE_HEIGHT / 2),
+      status: 'active',
+      color: COLORS[type],
+    }
+    execute({ kind: 'addNode', node })
+    setSelectedNode(id)
+    setSelectedConnection(null)
+    startEditing(node)
+  }
+
+  const deleteNode = (nodeId: string) => {
+    const index = nodes.findIndex(node => node.id === nodeId)
+    if (index === -1) return
+    if (editingNode === nodeId) cancelEditing()
+    setSelectedNode(null)
+    execute({
+      kind: 'deleteNode',
+      node: nodes[index],
+      index,
+      connections: connections
+        .map((connection, connectionIndex) => ({ connection, index: connectionIndex }))
+        .filter(({ connection }) => connection.from === nodeId || connection.to === nodeId),
+    })
+  }
+
+  const deleteConnection = (index: number) => {
+    setSelectedConnection(null)
+    execute({ kind: 'deleteConnection', connection: connections[index], index })
+  }
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) undo and redo; Delete or Backspace removes the selected node or
+  // connection. Keys meant for a field are left to it
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement
+      if (showExport || target.closest('input, textarea, select, [contenteditable="true"]')) return
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault()
+        if (e.shiftKey) redo()
+        else undo()
+        return
+      }
+      if (e.key !== 'Delete' && e.key !== 'Backspace') return
+      if (selectedNode) {
+        e.preventDefault()
+        deleteNode(selectedNode)
+      } else if (selectedConnection !== null) {
+        e.preventDefault()
+        deleteConnection(selectedConnection)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [selectedNode, selectedConnection, nodes, connections, editingNode, history, showExport])
+
+  // preventDefault keeps focus where it was, so an open editor is blurred by hand to save it
+  const blurEditor = () => {
+    if (editingNode) (document.activeElement as HTMLElement | null)?.blur()
+  }
+
+  const handlePortMouseDown = (nodeId: string, e: React.MouseEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    blurEditor()
+    setLinking({ from: nodeId, ...toCanvasPoint(e.clientX, e.clientY) })
+  }
+
+  // Dropping a link on a node connects it, once per pair
+  const handleNodeMouseUp = (nodeId: string) => {
+    if (!linking || linking.from === nodeId) return
+    if (connections.some(connection => connection.from === linking.from && connection.to === nodeId)) return
+    execute({ kind: 'addConnection', connection: { from: linking.from, to: nodeId, type: linkType } })
+  }
 
   const handleMouseMove = useCallback((e: MouseEvent) => {
-    if (draggedNode) {
+    if (linking) {
+      setLinking({ ...linking, ...toCanvasPoint(e.clientX, e.clientY) })
+    } else if (draggedNode) {
+      dragMovedRef.current = true
       const deltaX = e.clientX - lastMousePos.x
       const deltaY = e.clientY - lastMousePos.y
       
@@ -674,12 +834,22 @@ const SiteFlowVisualizer: React.FC<SiteFlowVisualizerProps> = ({
       setPan(prev => ({ x: prev.x + deltaX, y: prev.y + deltaY }))
       setLastMousePos({ x: e.clientX, y: e.clientY })
     }
-  }, [draggedNode, isPanning, lastMousePos])
+  }, [draggedNode, isPanning, lastMousePos, linking, zoom, pan])
 
   const handleMouseUp = useCallback(() => {
+    // A drag is recorded and saved once, when it ends
+    const moved = nodes.find(node => node.id === draggedNode)
+    if (moved && dragMovedRef.current && dragStartRef.current) {
+      recordCommand(history, { kind: 'move', nodeId: moved.id, from: dragStartRef.current, to: { x: moved.x, y: moved.y } })
+      refreshHistory()
+      onSiteFlowChange?.({ nodes, connections })
+    }
+    dragMovedRef.current = false
+    dragStartRef.current = null
     setDraggedNode(null)
     setIsPanning(false)
-  }, [])
+    setLinking(null)
+  }, [draggedNode, nodes, connections, onSiteFlowChange, history])
 
   useEffect(() => {
     window.addEventListener('mousemove', handleMouseMove)
@@ -693,17 +863,21 @@ const SiteFlowVisualizer: React.FC<SiteFlowVisualizerProps> = ({
   const handleNodeMouseDown = (nodeId: string, e: React.MouseEvent) => {
     e.preventDefault()
     e.stopPropagation()
+    blurEditor()
+    const node = nodes.find(candidate => candidate.id === nodeId)
+    dragStartRef.current = node ? { x: node.x, y: node.y } : null
     setDraggedNode(nodeId)
     setSelectedNode(nodeId)
+    setSelectedConnection(null)
     setLastMousePos({ x: e.clientX, y: e.clientY })
   }
 
+  // Nodes and connections stop their own mouse downs, so this only sees the empty canvas
   const handleCanvasMouseDown = (e: React.MouseEvent) => {
-    if (e.target === canvasRef.current) {
-      setIsPanning(true)
-      setLastMousePos({ x: e.clientX, y: e.clientY })
-      setSelectedNode(null)
-    }
+    setIsPanning(true)
+    setLastMousePos({ x: e.clientX, y: e.clientY })
+    setSelectedNode(null)
+    setSelectedConnection(null)
   }
 
   const handleWheel = (e: React.WheelEvent) => {
@@ -769,7 +943,21 @@ const SiteFlowVisualizer: React.FC<SiteFlowVisualizerProps> = ({
             </svg>
           </div>
           <h3 className="text-lg font-bold text-white mb-2">No Workflow</h3>
-          <p className="text-sm text-gray-400 mb-4">Add content to generate your workflow</p>
+          <p className="text-sm text-gray-400 mb-4">Add content to generate your workflow, or start one by hand</p>
+          <button
+            onClick={() => addNode('page')}
+            className="px-3 py-1.5 bg-dark-surface/10 hover:bg-dark-surface/20 text-mid-grey hover:text-charcoal border border-divider/30 hover:border-divider/50 rounded-lg text-xs font-medium transition-all duration-200"
+          >
+            Add a page
+          </button>
+          {lastUndo && (
+            <button
+              onClick={undo}
+              className="ml-2 px-3 py-1.5 text-xs text-gray-300 hover:text-white hover:bg-gray-800 rounded-lg transition-colors font-medium"
+            >
+              Undo {describeCommand(lastUndo)}
+            </button>
+          )}
         </div>
       </div>
     )
@@ -871,8 +1059,85 @@ const SiteFlowVisualizer: React.FC<SiteFlowVisualizerProps> = ({
               </svg>
             </button>
           </div>
+          <div className="flex items-center gap-1 bg-gray-800 rounded-lg p-1">
+            {SITE_FLOW_LAYOUTS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => relayout(value)}
+                className={`px-2 py-1 text-xs rounded-md transition-colors font-medium ${
+                  layoutMode === value ? 'bg-gray-700 text-white' : 'text-gray-300 hover:text-white hover:bg-gray-700'
+                }`}
+                title={`${label} layout`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <select
+            value=""
+            onChange={(e) => e.target.value && addNode(e.target.value as SiteFlowNode['type'])}
+            className="px-2 py-1.5 text-xs bg-gray-800 text-gray-300 rounded-lg border-none focus:outline-none focus:ring-1 focus:ring-gray-600"
+            title="Add a node"
+          >
+            <option value="">Add node…</option>
+            {NODE_TYPES.map(type => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+
+          <select
+            value={linkType}
+            onChange={(e) => setLinkType(e.target.value as SiteFlowConnection['type'])}
+            className="px-2 py-1.5 text-xs bg-gray-800 text-gray-300 rounded-lg border-none focus:outline-none focus:ring-1 focus:ring-gray-600"
+            title="Type of connection drawn from a node's port"
+          >
+            {CONNECTION_TYPES.map(type => (
+              <option key={type} value={type}>{type} link</option>
+            ))}
+          </select>
+
+          <div className="flex items-center gap-1 bg-gray-800 rounded-lg p-1">
+            <button
+              onClick={undo}
+              disabled={!lastUndo}
+              className="p-1.5 text-gray-300 hover:text-white hover:bg-gray-700 rounded-md transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+              title={lastUndo ? `Undo ${describeCommand(lastUndo)} (Ctrl+Z)` : 'Nothing to undo'}
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a5 5 0 015 5v2M3 10l5-5M3 10l5 5" />
+              </svg>
+            </button>
+            <button
+              onClick={redo}
+              disabled={!lastRedo}
+              className="p-1.5 text-gray-300 hover:text-white hover:bg-gray-700 rounded-md transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+              title={lastRedo ? `Redo ${describeCommand(lastRedo)} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a5 5 0 00-5 5v2M21 10l-5-5M21 10l-5 5" />
+              </svg>
+            </button>
+          </div>
+
+          <button
+            onClick={() => relayout()}
+            className="px-3 py-1.5 text-xs text-gray-300 hover:text-white hover:bg-gray-800 rounded-lg transition-colors font-medium"
+            title="Lay the nodes out again from their connections"
+          >
+            Re-layout
+          </button>
+
+          <button
+            onClick={() => setShowExport(true)}
+            className="px-3 py-1.5 text-xs text-gray-300 hover:text-white hover:bg-gray-800 rounded-lg transition-colors font-medium"
+            title="Download the diagram as SVG, PNG or a Mermaid flowchart"
+          >
+            Export
+          </button>
+
           <button
-            onClick={generateWorkflow}
+            onClick={handleRegenerate}
             className="px-3 py-1.5 bg-dark-surface/10 hover:bg-dark-surface/20 text-mid-grey hover:text-charcoal border border-divider/30 hover:border-divider/50 rounded-lg text-xs font-medium transition-all duration-200 shadow-sm hover:shadow-md"
           >
             Regenerate
@@ -920,18 +1185,14 @@ const SiteFlowVisualizer: React.FC<SiteFlowVisualizerProps> = ({
               return null
             }
             
-            const fromX = fromNode.x + getNodeWidth(fromNode.name, fromNode.description) / 2
-            const fromY = fromNode.y + NODE_HEIGHT / 2
-            const toX = toNode.x + getNodeWidth(toNode.name, toNode.description) / 2
-            const toY = toNode.y + NODE_HEIGHT / 2
+            const fromX = fromNode.x + getSiteFlowNodeWidth(fromNode.name, fromNode.description) / 2
+            const fromY = fromNode.y + SITE_FLOW_NODE_HEIGHT / 2
+            const toX = toNode.x + getSiteFlowNodeWidth(toNode.name, toNode.description) / 2
+            const toY = toNode.y + SITE_FLOW_NODE_HEIGHT / 2
             
-            // Get the correct color based on connection type
-            let connectionColor = fromNode.color || COLORS.action
-            if (connection.type === 'failure') {
-              connectionColor = '#EF4444' // Red for failure
-            } else if (connection.type === 'conditional') {
-              connectionColor = '#F59E0B' // Amber for conditional
-            }
+            // Success links take the colour of the node they leave
+            const connectionColor = connection.type === 'success' ? fromNode.color || COLORS.action : CONNECTION_COLORS[connection.type]
+            const isSelected = selectedConnection === index
             
             // Create smooth connection path
             let path = ''
@@ -973,12 +1234,28 @@ const SiteFlowVisualizer: React.FC<SiteFlowVisualizerProps> = ({
                   d={path}
                   fill="none"
                   stroke={connectionColor}
-                  strokeWidth="2.5"
+                  strokeWidth={isSelected ? 4 : 2.5}
                   strokeLinecap="round"
                   markerEnd={`url(#arrowhead-${index})`}
                   className="transition-all duration-200"
-                  opacity="0.8"
+                  opacity={isSelected ? 1 : 0.8}
                 />
+
+                {/* Wider invisible stroke that makes the line easy to click */}
+                <path
+                  d={path}
+                  fill="none"
+                  stroke="transparent"
+                  strokeWidth="14"
+                  style={{ pointerEvents: 'stroke', cursor: 'pointer' }}
+                  onMouseDown={(e) => {
+                    e.stopPropagation()
+                    setSelectedConnection(index)
+                    setSelectedNode(null)
+                  }}
+                >
+                  <title>{`${fromNode.name} → ${toNode.name} (${connection.type})`}</title>
+                </path>
                 
                 {/* Animated flow dots */}
                 <circle r="4" fill={connectionColor} opacity="0.9">
@@ -998,26 +1275,54 @@ const SiteFlowVisualizer: React.FC<SiteFlowVisualizerProps> = ({
               </g>
             )
           })}
+
+          {/* Link being dragged out of a port */}
+          {linking && (() => {
+            const fromNode = nodes.find(node => node.id === linking.from)
+            if (!fromNode) return null
+            const fromX = fromNode.x + getSiteFlowNodeWidth(fromNode.name, fromNode.description)
+            const fromY = fromNode.y + SITE_FLOW_NODE_HEIGHT / 2
+            return (
+              <path
+                d={`M ${fromX} ${fromY} L ${linking.x} ${linking.y}`}
+                fill="none"
+                stroke={linkType === 'success' ? fromNode.color || COLORS.action : CONNECTION_COLORS[linkType]}
+                strokeWidth="2"
+                strokeDasharray="6 4"
+              />
+            )
+          })()}
         </svg>
 
         <div
-          className="absolute inset-0"
+          className="absolute inset-0 pointer-events-none"
           style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom / 100})`, transformOrigin: '0 0' }}
         >
           {nodes.map(node => (
             <div
               key={node.id}
-              className={`absolute bg-gray-900 border-2 rounded-xl shadow-md transition-all duration-300 ${
+              className={`absolute pointer-events-auto bg-gray-900 border-2 rounded-xl shadow-md transition-all duration-300 ${
                 selectedNode === node.id ? 'border-blue-500 ring-2 ring-blue-100 shadow-lg' : 'border-gray-700'
               } ${draggedNode === node.id ? 'cursor-grabbing scale-105 shadow-xl' : 'cursor-grab hover:scale-102 hover:shadow-lg'}`}
               style={{
                 left: `${node.x}px`,
                 top: `${node.y}px`,
-                width: `${getNodeWidth(node.name, node.description)}px`,
-                height: `${NODE_HEIGHT}px`
+                width: `${getSiteFlowNodeWidth(node.name, node.description)}px`,
+                height: `${SITE_FLOW_NODE_HEIGHT}px`
               }}
               onMouseDown={(e) => handleNodeMouseDown(node.id, e)}
+              onMouseUp={() => handleNodeMouseUp(node.id)}
+              onDoubleClick={() => startEditing(node)}
+              title="Double-click to edit"
             >
+              {/* Port: drag from here onto another node to connect them */}
+              <div
+                onMouseDown={(e) => handlePortMouseDown(node.id, e)}
+                className="absolute -right-2 top-1/2 -translate-y-1/2 w-4 h-4 rounded-full border-2 border-gray-900 cursor-crosshair hover:scale-125 transition-transform"
+                style={{ backgroundColor: node.color || COLORS.action }}
+                title="Drag to another node to connect"
+              />
+
               {/* Node Header */}
               <div 
                 className="h-2 rounded-t-lg"
@@ -1033,10 +1338,63 @@ const SiteFlowVisualizer: React.FC<SiteFlowVisualizerProps> = ({
                   >
                     {getVectorIcon(node.type)}
                   </div>
-                  <div className="flex-1 min-w-0">
-                    <h3 className="font-semibold text-white text-[11px] leading-tight break-words">{node.name}</h3>
-                    <p className="text-[8px] text-gray-400 mt-1 break-words">{node.description}</p>
-                  </div>
+                  {editingNode === node.id && draft ? (
+                    <div
+                      className="flex-1 min-w-0 space-y-1"
+                      onMouseDown={(e) => e.stopPropagation()}
+                      onDoubleClick={(e) => e.stopPropagation()}
+                      onBlur={(e) => {
+                        // Save once focus leaves the whole editor, not when moving between its fields
+                        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) commitEditing()
+                      }}
+                      onKeyDown={(e) => {
+                        // Kept from the page, where Escape closes the project
+                        e.stopPropagation()
+                        // Leaving the field is what saves, so Enter just leaves it
+                        if (e.key === 'Enter') (e.target as HTMLElement).blur()
+                        if (e.key === 'Escape') cancelEditing()
+                      }}
+                    >
+                      <input
+                        autoFocus
+                        value={draft.name}
+                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                        className="w-full px-1 py-0.5 text-[11px] font-semibold text-white bg-gray-800 border border-gray-600 rounded focus:outline-none focus:border-blue-500"
+                        placeholder="Name"
+                      />
+                      <input
+                        value={draft.description}
+                        onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                        className="w-full px-1 py-0.5 text-[9px] text-gray-300 bg-gray-800 border border-gray-600 rounded focus:outline-none focus:border-blue-500"
+                        placeholder="Description"
+                      />
+                      <div className="flex gap-1">
+                        <select
+                          value={draft.type}
+                          onChange={(e) => setDraft({ ...draft, type: e.target.value as SiteFlowNode['type'] })}
+                          className="flex-1 min-w-0 px-1 py-0.5 text-[9px] text-gray-300 bg-gray-800 border border-gray-600 rounded focus:outline-none"
+                        >
+                          {NODE_TYPES.map(type => (
+                            <option key={type} value={type}>{type}</option>
+                          ))}
+                        </select>
+                        <select
+                          value={draft.status}
+                          onChange={(e) => setDraft({ ...draft, status: e.target.value as SiteFlowNode['status'] })}
+                          className="flex-1 min-w-0 px-1 py-0.5 text-[9px] text-gray-300 bg-gray-800 border border-gray-600 rounded focus:outline-none"
+                        >
+                          {NODE_STATUSES.map(status => (
+                            <option key={status} value={status}>{status}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-semibold text-white text-[11px] leading-tight break-words">{node.name}</h3>
+                      <p className="text-[8px] text-gray-400 mt-1 break-words">{node.description}</p>
+                    </div>
+                  )}
                   <div className={`w-2 h-2 rounded-full ${
                     node.status === 'active' ? 'bg-green-400' : 
                     node.status === 'error' ? 'bg-red-400' : 'bg-gray-500'
@@ -1066,6 +1424,15 @@ const SiteFlowVisualizer: React.FC<SiteFlowVisualizerProps> = ({
           ))}
         </div>
       </div>
+
+      {showExport && (
+        <ExportModal
+          content={JSON.stringify({ nodes, connections })}
+          filename={projectName ? `${projectName} Site Flow` : 'Site Flow'}
+          subtitle="Site Flow"
+          onClose={() => setShowExport(false)}
+        />
+      )}
     </div>
   )
 }
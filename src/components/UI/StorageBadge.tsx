@@ -0,0 +1,41 @@
+import { STORAGE_BACKEND_LABELS } from '../../utils/storage'
+import type { Project } from '../../utils/storage'
+
+interface StorageBadgeProps {
+  backend?: string
+  syncStatus?: Project['syncStatus']
+  className?: string
+}
+
+// Cloud copies are green; anything held only in this browser is amber
+const StorageBadge = ({ backend, syncStatus, className = '' }: StorageBadgeProps) => {
+  if (syncStatus === 'pending' || syncStatus === 'error') {
+    const isError = syncStatus === 'error'
+    return (
+      <span
+        className={`inline-flex items-center gap-1 text-[10px] ${isError ? 'text-red-400' : 'text-amber-gold'} ${className}`}
+        title={isError ? 'The server keeps rejecting changes to this project. They are kept in this browser.' : 'Saved in this browser. Changes upload when you are back online.'}
+      >
+        <span className={`w-1.5 h-1.5 rounded-full ${isError ? 'bg-red-400' : 'bg-amber-gold animate-pulse'}`}></span>
+        {isError ? 'Sync failed' : 'Waiting to sync'}
+      </span>
+    )
+  }
+
+  if (!backend) return null
+
+  const isRemote = backend === 'supabase'
+  const label = STORAGE_BACKEND_LABELS[backend] || backend
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-[10px] ${isRemote ? 'text-emerald-400' : 'text-amber-gold'} ${className}`}
+      title={isRemote ? 'Stored in Supabase' : 'Stored only in this browser'}
+    >
+      <span className={`w-1.5 h-1.5 rounded-full ${isRemote ? 'bg-emerald-400' : 'bg-amber-gold'}`}></span>
+      {label}
+    </span>
+  )
+}
+
+export default StorageBadge
@@ -0,0 +1,101 @@
+import { useState } from 'react'
+import type { ExtractedInfo } from '../../utils/contentGenerator'
+
+type BriefListField = Exclude<keyof ExtractedInfo, 'projectName'>
+
+interface BriefEditorProps {
+  brief: ExtractedInfo
+  onChange: (brief: ExtractedInfo) => void
+}
+
+const BRIEF_FIELDS: { key: BriefListField; label: string; placeholder: string }[] = [
+  { key: 'features', label: 'Features', placeholder: 'Add a feature...' },
+  { key: 'targetUsers', label: 'Target Users', placeholder: 'Add a user group...' },
+  { key: 'problems', label: 'Problems', placeholder: 'Add a problem it solves...' },
+  { key: 'goals', label: 'Goals', placeholder: 'Add a goal...' },
+  { key: 'techStack', label: 'Tech Stack', placeholder: 'Add a technology...' },
+]
+
+interface ChipListProps {
+  label: string
+  items: string[]
+  placeholder: string
+  onChange: (items: string[]) => void
+}
+
+const ChipList = ({ label, items, placeholder, onChange }: ChipListProps) => {
+  const [draft, setDraft] = useState('')
+
+  const addDraft = () => {
+    const value = draft.trim()
+    if (value && !items.includes(value)) {
+      onChange([...items, value])
+    }
+    setDraft('')
+  }
+
+  return (
+    <div>
+      <div className="text-xs uppercase tracking-wide text-mid-grey mb-2">{label}</div>
+      <div className="flex flex-wrap items-center gap-2">
+        {items.map(item => (
+          <span
+            key={item}
+            className="inline-flex items-center gap-1.5 pl-2.5 pr-1.5 py-1 rounded-full bg-dark-surface border border-divider/40 text-xs text-white"
+          >
+            {item}
+            <button
+              onClick={() => onChange(items.filter(existing => existing !== item))}
+              className="text-mid-grey hover:text-red-400 transition-colors"
+              title={`Remove "${item}"`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault()
+              addDraft()
+            } else if (e.key === 'Backspace' && !draft && items.length > 0) {
+              onChange(items.slice(0, -1))
+            }
+          }}
+          onBlur={addDraft}
+          placeholder={placeholder}
+          className="flex-1 min-w-[160px] px-0 py-1 bg-transparent border-0 text-xs text-white placeholder:text-mid-grey/50 focus:outline-none focus:ring-0"
+        />
+      </div>
+    </div>
+  )
+}
+
+const BriefEditor = ({ brief, onChange }: BriefEditorProps) => {
+  return (
+    <div className="bg-dark-card rounded-xl border border-divider/30 p-6 space-y-5">
+      <div>
+        <div className="text-xs uppercase tracking-wide text-mid-grey mb-1">Project Name</div>
+        <input
+          value={brief.projectName}
+          onChange={(e) => onChange({ ...brief, projectName: e.target.value })}
+          className="w-full px-0 py-1 bg-transparent border-0 border-b border-divider/40 text-lg text-white font-medium focus:outline-none focus:ring-0 focus:border-amber-gold"
+        />
+      </div>
+
+      {BRIEF_FIELDS.map(field => (
+        <ChipList
+          key={field.key}
+          label={field.label}
+          items={brief[field.key]}
+          placeholder={field.placeholder}
+          onChange={(items) => onChange({ ...brief, [field.key]: items })}
+        />
+      ))}
+    </div>
+  )
+}
+
+export default BriefEditor
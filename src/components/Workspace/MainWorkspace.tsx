@@ -1,31 +1,73 @@
 import { useState, useRef, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
 import DocumentViewer from '../DocumentGeneration/DocumentViewer'
+import MarkdownRenderer from '../DocumentGeneration/MarkdownRenderer'
 import SiteFlowVisualizer from '../SiteFlow/SiteFlowVisualizer'
 import ExportModal from '../Export/ExportModal'
-import { storage, type SiteFlowData } from '../../utils/storage'
-import { extractInfo, generatePRD, generateDesignPrompt, generateUserStories, generateSpecs } from '../../utils/contentGenerator'
+import OllamaModelPicker from './OllamaModelPicker'
+import BriefEditor from './BriefEditor'
+import { storage, StorageQuotaError, type DocumentSource, type SiteFlowData } from '../../utils/storage'
+import { extractInfo, generatePRD, generateDesignPrompt, generateUserStories, generateSpecs, generateDataModel, generateOpenAPI, type ExtractedInfo, type GenerationOptions } from '../../utils/contentGenerator'
+import { findDocumentProblems } from '../../utils/documentValidation'
+import { isAbortError, getProviderConfig } from '../../utils/aiAgent'
 import type { SiteFlowData as VisualizerSiteFlowData } from '../SiteFlow/SiteFlowVisualizer'
 
-type View = 'input' | 'generating' | 'results'
+type View = 'input' | 'analyzing' | 'review' | 'generating' | 'results'
+
+type DocumentType = 'PRD' | 'Design Prompt' | 'User Stories' | 'Specs' | 'Data Model' | 'OpenAPI'
+
+type GeneratedDoc = { type: DocumentType; content: string; name: string; source?: DocumentSource }
+
+// Steps run in order, so a step can build on the documents generated before it
+const GENERATION_STEPS: {
+  type: DocumentType
+  label: string
+  generate: (info: ExtractedInfo, description: string, options: GenerationOptions, earlier: GeneratedDoc[]) => Promise<string>
+}[] = [
+  { type: 'PRD', label: 'Generating PRD...', generate: generatePRD },
+  { type: 'Design Prompt', label: 'Creating design brief...', generate: generateDesignPrompt },
+  { type: 'User Stories', label: 'Writing user stories...', generate: generateUserStories },
+  { type: 'Specs', label: 'Generating specs...', generate: generateSpecs },
+  {
+    type: 'Data Model',
+    label: 'Designing data model...',
+    generate: (info, description, options, earlier) =>
+      generateDataModel(info, description, earlier.find(doc => doc.type === 'Specs')?.content || '', options),
+  },
+  {
+    type: 'OpenAPI',
+    label: 'Writing OpenAPI spec...',
+    generate: (info, description, options, earlier) =>
+      generateOpenAPI(info, description, earlier.find(doc => doc.type === 'Specs')?.content || '', options),
+  },
+]
 
 const MainWorkspace = () => {
   const navigate = useNavigate()
   const [view, setView] = useState<View>('input')
   const [appDescription, setAppDescription] = useState('')
-  const [generatedDocs, setGeneratedDocs] = useState<{ type: string; content: string; name: string }[]>([])
+  const [generatedDocs, setGeneratedDocs] = useState<GeneratedDoc[]>([])
   const [showExport, setShowExport] = useState(false)
-  const [exportContent, setExportContent] = useState<{ content: string; filename: string } | null>(null)
+  const [exportContent, setExportContent] = useState<{ content: string; filename: string; type: string } | null>(null)
   const [generationProgress, setGenerationProgress] = useState(0)
   const [generatingStep, setGeneratingStep] = useState('')
+  const [streamingType, setStreamingType] = useState<DocumentType | null>(null)
+  const [streamingContent, setStreamingContent] = useState('')
+  const [wasCancelled, setWasCancelled] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
   const [projectName, setProjectName] = useState('')
+  const [extractedInfo, setExtractedInfo] = useState<ExtractedInfo | null>(null)
+  const [extractionSource, setExtractionSource] = useState<DocumentSource | null>(null)
   const [siteFlowData, setSiteFlowData] = useState<SiteFlowData | null>(null)
   const handleSiteFlowChange = (flow: VisualizerSiteFlowData) => {
     setSiteFlowData(flow as SiteFlowData)
   }
   const siteFlowRef = useRef<any>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const previewRef = useRef<HTMLDivElement>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  // Pending switch to the results view once generation completes
+  const resultsTimerRef = useRef<number | undefined>(undefined)
 
   useEffect(() => {
     if (textareaRef.current && view === 'input') {
@@ -33,121 +75,163 @@ const MainWorkspace = () => {
     }
   }, [view])
 
-  const handleGenerate = async () => {
+  // Stop any in-flight generation when leaving the page
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort()
+      window.clearTimeout(resultsTimerRef.current)
+    }
+  }, [])
+
+  // Keep the live preview pinned to the newest tokens
+  useEffect(() => {
+    if (previewRef.current) {
+      previewRef.current.scrollTop = previewRef.current.scrollHeight
+    }
+  }, [streamingContent])
+
+  const handleAnalyze = async () => {
     if (!appDescription.trim()) return
 
+    window.clearTimeout(resultsTimerRef.current)
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
+    setView('analyzing')
+    setExtractedInfo(null)
+    setExtractionSource(null)
+
+    try {
+      const info = await extractInfo(appDescription, {
+        signal: controller.signal,
+        onSource: setExtractionSource,
+      })
+      setExtractedInfo(info)
+      setView('review')
+    } catch (error) {
+      setView('input')
+      if (isAbortError(error)) return
+
+      console.error('Extraction error:', error)
+      alert('Failed to analyze your description. Please try again.')
+    } finally {
+      abortControllerRef.current = null
+    }
+  }
+
+  const handleGenerate = async () => {
+    if (!extractedInfo) return
+
+    const info = { ...extractedInfo, projectName: extractedInfo.projectName.trim() }
+    setExtractedInfo(info)
+
+    window.clearTimeout(resultsTimerRef.current)
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
     setView('generating')
     setGenerationProgress(0)
+    setGeneratingStep(GENERATION_STEPS[0].label)
+    setGeneratedDocs([])
+    setStreamingContent('')
+    setWasCancelled(false)
     
-    const steps = [
-      'Analyzing your description...',
-      'Generating PRD...',
-      'Creating design brief...',
-      'Writing user stories...',
-      'Generating specs...',
-      'Mapping site flow...',
-      'Finalizing documentation...'
-    ]
-    
-    let stepIndex = 0
-    const stepInterval = setInterval(() => {
-      if (stepIndex < steps.length) {
-        setGeneratingStep(steps[stepIndex])
-        stepIndex++
-      }
-    }, 800)
-    
-    const progressInterval = setInterval(() => {
-      setGenerationProgress(prev => {
-        if (prev >= 90) {
-          return 90
-        }
-        return prev + Math.random() * 5 + 2
-      })
-    }, 200)
+    const docs: GeneratedDoc[] = []
+    let currentType: DocumentType | null = null
+    let partialContent = ''
+    const name = info.projectName
     
     try {
-      const info = await extractInfo(appDescription)
       setProjectName(info.projectName)
       
-      // Generate documents sequentially with progress updates
-      setGeneratingStep('Generating PRD...')
-      setGenerationProgress(20)
-      const prdContent = await generatePRD(info, appDescription)
+      // Generate documents sequentially, streaming each one into the preview
+      const docShare = 100 / GENERATION_STEPS.length
       
-      setGeneratingStep('Creating design brief...')
-      setGenerationProgress(50)
-      const designContent = await generateDesignPrompt(info, appDescription)
-      
-      setGeneratingStep('Writing user stories...')
-      setGenerationProgress(70)
-      const storiesContent = await generateUserStories(info, appDescription)
-      
-      setGeneratingStep('Generating specs...')
-      setGenerationProgress(85)
-      const specsContent = await generateSpecs(info, appDescription)
-      
-      clearInterval(progressInterval)
-      clearInterval(stepInterval)
-      
-      const docs = [
-        {
-          type: 'PRD',
-          name: info.projectName,
-          content: prdContent
-        },
-        {
-          type: 'Design Prompt',
-          name: info.projectName,
-          content: designContent
-        },
-        {
-          type: 'User Stories',
-          name: info.projectName,
-          content: storiesContent
-        },
-        {
-          type: 'Specs',
-          name: info.projectName,
-          content: specsContent
-        }
-      ]
+      for (const [index, step] of GENERATION_STEPS.entries()) {
+        currentType = step.type
+        partialContent = ''
+        let source: DocumentSource | undefined
+        setGeneratingStep(step.label)
+        setStreamingType(step.type)
+        setStreamingContent('')
+        
+        const content = await step.generate(info, appDescription, {
+          signal: controller.signal,
+          onSource: (answeredBy) => { source = answeredBy },
+          onToken: (chunk) => {
+            partialContent = chunk.content
+            setStreamingContent(chunk.content)
+            setGenerationProgress((index + chunk.progress) * docShare)
+          },
+        }, docs)
+        
+        docs.push({ type: step.type, name: info.projectName, content, source })
+        setGeneratedDocs([...docs])
+        setGenerationProgress((index + 1) * docShare)
+      }
       
       setGenerationProgress(100)
       setGeneratingStep('Complete!')
       
-      setTimeout(() => {
-        setGeneratedDocs(docs)
+      resultsTimerRef.current = window.setTimeout(() => {
         setView('results')
         setGenerationProgress(0)
         setGeneratingStep('')
+        setStreamingContent('')
       }, 500)
     } catch (error) {
-      clearInterval(progressInterval)
-      clearInterval(stepInterval)
-      console.error('Generation error:', error)
-      alert('Failed to generate content. Please check your API key configuration or try again.')
-      setView('input')
       setGenerationProgress(0)
       setGeneratingStep('')
+      setStreamingContent('')
+
+      if (isAbortError(error)) {
+        // Keep whatever was written before the user cancelled, including the partial document
+        const kept = currentType && partialContent
+          ? [...docs, { type: currentType, name, content: partialContent }]
+          : docs
+        if (kept.length > 0) {
+          setGeneratedDocs(kept)
+          setWasCancelled(true)
+          setView('results')
+        } else {
+          setView('review')
+        }
+        return
+      }
+
+      console.error('Generation error:', error)
+      alert('Failed to generate content. Please check your API key configuration or try again.')
+      setView('review')
+    } finally {
+      abortControllerRef.current = null
     }
   }
 
-  const handleExport = (content: string, filename: string) => {
-    setExportContent({ content, filename })
+  const handleCancelGeneration = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  const handleExport = (content: string, filename: string, type: string) => {
+    setExportContent({ content, filename, type })
     setShowExport(true)
   }
 
   const handleSaveAllProjects = async () => {
     if (generatedDocs.length === 0) return
+
+    // A cancelled OpenAPI or Data Model document is cut off mid-way; offer to save the project without it
+    const invalid = generatedDocs.filter(doc => findDocumentProblems(doc).length > 0)
+    if (invalid.length > 0 && !confirm(`${invalid.map(doc => doc.type).join(', ')} failed validation and will be left out:\n\n${invalid.flatMap(findDocumentProblems).slice(0, 5).join('\n')}\n\nSave the project without it?`)) return
+    const validDocs = generatedDocs.filter(doc => !invalid.includes(doc))
     
     setIsSaving(true)
     try {
       // Save all documents as a single project
-      const prdDoc = generatedDocs.find(doc => doc.type === 'PRD')
-      const documents = generatedDocs.map(doc => ({
-          type: doc.type as 'PRD' | 'Design Prompt' | 'User Stories' | 'Specs',
+      const prdDoc = validDocs.find(doc => doc.type === 'PRD')
+      const documents = validDocs.map(doc => ({
+          type: doc.type,
           content: doc.content,
+          source: doc.source,
       }))
       
       const latestSiteFlow = siteFlowRef.current?.getCurrentSiteFlow()
@@ -156,9 +240,10 @@ const MainWorkspace = () => {
         title: projectName || 'Untitled Project',
         type: 'PRD', // Default type for backward compatibility
         description: appDescription.substring(0, 200) || `Complete project documentation`,
-        content: prdDoc?.content || generatedDocs[0]?.content || '', // Primary content for backward compatibility
+        content: prdDoc?.content || validDocs[0]?.content || '', // Primary content for backward compatibility
         documents: documents, // All documents stored together
         siteFlow: siteFlowData || latestSiteFlow || undefined, // Site flow data
+        brief: extractedInfo || undefined, // Confirmed brief, reused by later regenerations
       })
       
       setIsSaving(false)
@@ -174,36 +259,130 @@ const MainWorkspace = () => {
       }
     } catch (error) {
       console.error('Error saving project:', error)
+      alert(error instanceof StorageQuotaError ? error.message : 'Failed to save the project. Please check your connection and try again.')
       setIsSaving(false)
     }
   }
 
-  if (view === 'generating') {
+  if (view === 'analyzing') {
     return (
-      <div className="min-h-screen flex items-center justify-center px-8 py-32">
-        <div className="max-w-md w-full text-center">
-          <div className="mb-8">
-            <div className="w-16 h-16 mx-auto mb-4">
-              <div className="w-full h-full border-2 border-amber-gold/20 rounded-full animate-spin border-t-amber-gold"></div>
-            </div>
-            <h2 className="text-xl font-light text-white mb-2">
-              Creating documentation
-            </h2>
-            <p className="text-sm text-mid-grey">
-              {generatingStep || 'Starting...'}
-            </p>
+      <div className="min-h-screen flex justify-center px-8 py-16">
+        <div className="max-w-md w-full mx-auto text-center">
+          <div className="w-16 h-16 mx-auto mb-4">
+            <div className="w-full h-full border-2 border-amber-gold/20 rounded-full animate-spin border-t-amber-gold"></div>
           </div>
-          <div className="w-full">
-            <div className="h-1 bg-divider rounded-full overflow-hidden">
-              <div 
-                className="h-full bg-amber-gold transition-all duration-300 ease-out"
-                style={{ width: `${generationProgress}%` }}
-              ></div>
+          <h2 className="text-xl font-light text-white mb-2">
+            Analyzing your description
+          </h2>
+          <p className="text-sm text-mid-grey">
+            Pulling out features, users, goals and tech stack...
+          </p>
+          <button
+            onClick={handleCancelGeneration}
+            className="mt-6 px-4 py-2 bg-dark-card border border-divider rounded-lg text-sm text-white font-medium hover:border-amber-gold transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  if (view === 'review' && extractedInfo) {
+    return (
+      <div className="w-full max-w-4xl mx-auto py-8 px-6">
+        <div className="mb-6">
+          <h2 className="text-xl font-light text-white mb-1">Review project brief</h2>
+          <p className="text-sm text-mid-grey">
+            {extractionSource?.provider === 'template'
+              ? 'Extracted offline with keyword matching. Edit anything that looks off before generating.'
+              : `Extracted by ${extractionSource?.provider}${extractionSource?.model ? ` · ${extractionSource.model}` : ''}. Edit anything that looks off before generating.`}
+          </p>
+        </div>
+
+        <BriefEditor brief={extractedInfo} onChange={setExtractedInfo} />
+
+        <div className="mt-6 flex gap-3">
+          <button
+            onClick={() => setView('input')}
+            className="px-4 py-3 bg-dark-card border border-divider rounded-lg text-sm text-white font-medium hover:border-amber-gold transition-colors"
+          >
+            Back to Description
+          </button>
+          <button
+            onClick={handleGenerate}
+            disabled={!extractedInfo.projectName.trim() || extractedInfo.features.length === 0}
+            className="flex-1 px-4 py-3 bg-amber-gold hover:bg-amber-gold/90 text-black rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Generate Documentation
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  if (view === 'generating') {
+    return (
+      <div className="min-h-screen flex justify-center px-8 py-16">
+        <div className="max-w-3xl w-full">
+          <div className="max-w-md mx-auto text-center mb-8">
+            <div className="mb-8">
+              <div className="w-16 h-16 mx-auto mb-4">
+                <div className="w-full h-full border-2 border-amber-gold/20 rounded-full animate-spin border-t-amber-gold"></div>
+              </div>
+              <h2 className="text-xl font-light text-white mb-2">
+                Creating documentation
+              </h2>
+              <p className="text-sm text-mid-grey">
+                {generatingStep || 'Starting...'}
+              </p>
             </div>
-            <div className="mt-2 text-xs text-mid-grey">
-              {Math.round(generationProgress)}%
+            <div className="w-full">
+              <div className="h-1 bg-divider rounded-full overflow-hidden">
+                <div 
+                  className="h-full bg-amber-gold transition-all duration-300 ease-out"
+                  style={{ width: `${generationProgress}%` }}
+                ></div>
+              </div>
+              <div className="mt-2 text-xs text-mid-grey">
+                {Math.round(generationProgress)}%
+              </div>
             </div>
+            <button
+              onClick={handleCancelGeneration}
+              className="mt-6 px-4 py-2 bg-dark-card border border-divider rounded-lg text-sm text-white font-medium hover:border-amber-gold transition-colors"
+            >
+              Cancel
+            </button>
           </div>
+
+          {(generatedDocs.length > 0 || streamingContent) && (
+            <div className="bg-dark-card/40 rounded-lg border border-divider/20 overflow-hidden">
+              <div className="px-4 py-3 border-b border-divider/20 flex items-center gap-2 flex-wrap">
+                {GENERATION_STEPS.map(step => {
+                  const isDone = generatedDocs.some(doc => doc.type === step.type)
+                  const isActive = !isDone && streamingType === step.type
+                  return (
+                    <span
+                      key={step.type}
+                      className={`px-2 py-0.5 text-[10px] font-semibold rounded-md border ${
+                        isDone
+                          ? 'border-amber-gold/40 text-amber-gold bg-amber-gold/10'
+                          : isActive
+                            ? 'border-divider/50 text-white animate-pulse'
+                            : 'border-divider/30 text-mid-grey'
+                      }`}
+                    >
+                      {step.type}
+                    </span>
+                  )
+                })}
+              </div>
+              <div ref={previewRef} className="p-4 max-h-[400px] overflow-y-auto">
+                <MarkdownRenderer content={streamingType === 'OpenAPI' ? `\`\`\`yaml\n${streamingContent}\n\`\`\`` : streamingType === 'Data Model' ? `\`\`\`json\n${streamingContent}\n\`\`\`` : streamingContent} />
+              </div>
+            </div>
+          )}
         </div>
       </div>
     )
@@ -216,19 +395,23 @@ const MainWorkspace = () => {
           <div className="flex items-start justify-between mb-6">
             <div>
               <h1 className="text-2xl font-light text-white mb-2">
-                Documentation Ready
+                {wasCancelled ? 'Generation Cancelled' : 'Documentation Ready'}
               </h1>
               <p className="text-sm text-mid-grey">
-                Your project documentation has been created
+                {wasCancelled
+                  ? `Kept ${generatedDocs.length} of ${GENERATION_STEPS.length} documents written before you cancelled`
+                  : 'Your project documentation has been created'}
               </p>
-              <div className="mt-4">
-                <div className="inline-flex items-center gap-2 text-amber-gold/60">
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
-                  </svg>
-                  <span className="text-sm">Documentation generated successfully</span>
+              {!wasCancelled && (
+                <div className="mt-4">
+                  <div className="inline-flex items-center gap-2 text-amber-gold/60">
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                    <span className="text-sm">Documentation generated successfully</span>
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
             <div className="flex items-center gap-2">
               <button
@@ -270,7 +453,10 @@ const MainWorkspace = () => {
                 type={doc.type}
                 name={doc.name}
                 content={doc.content}
-                onExport={() => handleExport(doc.content, `${doc.name}_${doc.type}`)}
+                source={doc.source}
+                brief={extractedInfo || undefined}
+                onExport={() => handleExport(doc.content, `${doc.name}_${doc.type}`, doc.type)}
+                onContentChange={(content) => setGeneratedDocs(docs => docs.map(existing => (existing.type === doc.type ? { ...existing, content } : existing)))}
               />
             </div>
           ))}
@@ -304,6 +490,7 @@ const MainWorkspace = () => {
           <ExportModal
             content={exportContent.content}
             filename={exportContent.filename}
+            subtitle={exportContent.type}
             onClose={() => setShowExport(false)}
           />
         )}
@@ -311,9 +498,12 @@ const MainWorkspace = () => {
     )
   }
 
+  const ollamaConfig = getProviderConfig('ollama')
+
   return (
     <div className="w-full max-w-4xl mx-auto py-8 px-6">
       <div className="mb-4">
+        {ollamaConfig && <OllamaModelPicker baseURL={ollamaConfig.baseURL} />}
       </div>
 
       <div className="bg-dark-card rounded-xl border border-divider/30 overflow-hidden">
@@ -325,7 +515,7 @@ const MainWorkspace = () => {
             onKeyDown={(e) => {
               if (e.key === 'Enter' && !e.shiftKey && appDescription.trim()) {
                 e.preventDefault()
-                handleGenerate()
+                handleAnalyze()
               }
             }}
             className="w-full min-h-[200px] px-0 py-0 border-0 focus:outline-none resize-none text-sm text-white placeholder:text-mid-grey/50 leading-relaxed bg-transparent focus:ring-0"
@@ -336,11 +526,11 @@ const MainWorkspace = () => {
         
         <div className="px-6 pb-6">
           <button
-            onClick={handleGenerate}
+            onClick={handleAnalyze}
             disabled={!appDescription.trim()}
             className="w-full px-4 py-3 bg-amber-gold hover:bg-amber-gold/90 text-black rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            Generate Documentation
+            Analyze Description
           </button>
         </div>
       </div>
@@ -0,0 +1,79 @@
+import { useState, useEffect } from 'react'
+import { listOllamaModels, getConfiguredModel, setConfiguredModel, type OllamaModel } from '../../utils/aiAgent'
+
+interface OllamaModelPickerProps {
+  baseURL?: string
+}
+
+const formatSize = (bytes: number): string => {
+  if (bytes >= 1e9) return `${(bytes / 1e9).toFixed(1)} GB`
+  return `${Math.round(bytes / 1e6)} MB`
+}
+
+const OllamaModelPicker = ({ baseURL }: OllamaModelPickerProps) => {
+  const [models, setModels] = useState<OllamaModel[]>([])
+  const [selectedModel, setSelectedModel] = useState(getConfiguredModel('ollama') || '')
+  const [status, setStatus] = useState<'loading' | 'ready' | 'unreachable'>('loading')
+
+  const loadModels = async (signal?: AbortSignal) => {
+    setStatus('loading')
+    try {
+      const installed = await listOllamaModels(baseURL, signal)
+      setModels(installed)
+      setSelectedModel(getConfiguredModel('ollama') || '')
+      setStatus('ready')
+    } catch (error) {
+      if (signal?.aborted) return
+      console.warn('⚠️ Could not list Ollama models:', error)
+      setStatus('unreachable')
+    }
+  }
+
+  useEffect(() => {
+    const controller = new AbortController()
+    loadModels(controller.signal)
+    return () => controller.abort()
+  }, [baseURL])
+
+  const handleChange = (model: string) => {
+    setSelectedModel(model)
+    setConfiguredModel('ollama', model)
+  }
+
+  return (
+    <div className="flex items-center gap-3 text-xs text-mid-grey">
+      <span className="font-medium text-white">Local model</span>
+      {status === 'loading' && <span>Looking for installed models...</span>}
+      {status === 'unreachable' && (
+        <>
+          <span className="text-red-400">Ollama not reachable. Is `ollama serve` running?</span>
+          <button onClick={() => loadModels()} className="text-amber-gold hover:underline">
+            Retry
+          </button>
+        </>
+      )}
+      {status === 'ready' && models.length === 0 && (
+        <span>No models installed. Run `ollama pull llama3.1`.</span>
+      )}
+      {status === 'ready' && models.length > 0 && (
+        <select
+          value={selectedModel}
+          onChange={(e) => handleChange(e.target.value)}
+          className="bg-dark-surface border border-divider/30 rounded-md px-2 py-1 text-white focus:outline-none focus:border-amber-gold"
+        >
+          {!models.some(model => model.name === selectedModel) && (
+            <option value={selectedModel}>{selectedModel} (not installed)</option>
+          )}
+          {models.map(model => (
+            <option key={model.name} value={model.name}>
+              {model.name} · {model.parameterSize || formatSize(model.size)}
+              {model.quantization ? ` · ${model.quantization}` : ''}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  )
+}
+
+export default OllamaModelPicker
@@ -1,9 +1,10 @@
 import { Link } from 'react-router-dom'
-import { useState, useEffect } from 'react'
-import { storage } from '../utils/storage'
-import { supabaseStorage } from '../utils/supabaseStorage'
+import { useState, useEffect, useRef } from 'react'
+import { storage, StorageQuotaError } from '../utils/storage'
+import { parseProjectBundle, BundleImportError, BUNDLE_EXTENSION } from '../utils/projectBundle'
 import type { Project } from '../utils/storage'
 import SkeletonLoader from '../components/UI/SkeletonLoader'
+import StorageBadge from '../components/UI/StorageBadge'
 
 const HomePage = () => {
   const [projects, setProjects] = useState<Project[]>([])
@@ -11,13 +12,15 @@ const HomePage = () => {
   const [sortBy] = useState<'date' | 'name' | 'type'>('date')
   const [filterType] = useState<string>('all')
   const [isLoading, setIsLoading] = useState(true)
+  const [isImporting, setIsImporting] = useState(false)
+  const importInputRef = useRef<HTMLInputElement>(null)
 
   useEffect(() => {
     loadProjects()
     
     const migrateData = async () => {
       try {
-        const migrated = await supabaseStorage.migrateFromLocalStorage()
+        const migrated = await storage.migrateFromLocalStorage()
         if (migrated > 0) {
           await loadProjects()
         }
@@ -51,6 +54,27 @@ const HomePage = () => {
     }
   }
 
+  const handleImport = async (file: File) => {
+    setIsImporting(true)
+    try {
+      const { project, rejected } = parseProjectBundle(await file.text())
+      const saved = await storage.save(project)
+      console.log(`✅ Imported project ${saved.id} from ${file.name}`)
+      await loadProjects()
+      if (rejected.length > 0) {
+        alert(`Imported "${saved.title}", but these parts were left out: ${rejected.join(', ')}.`)
+      }
+    } catch (error) {
+      console.error('Error importing project:', error)
+      alert(error instanceof BundleImportError || error instanceof StorageQuotaError
+        ? error.message
+        : 'Failed to import the project. Please try again.')
+    } finally {
+      setIsImporting(false)
+      if (importInputRef.current) importInputRef.current.value = ''
+    }
+  }
+
   const filteredProjects = projects
     .filter((project) => {
       const matchesSearch = project.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -80,15 +104,38 @@ const HomePage = () => {
               <h1 className="text-lg sm:text-xl font-light text-white mb-1">Your Projects</h1>
               <p className="text-mid-grey text-xs">{projects.length} {projects.length === 1 ? 'project' : 'projects'}</p>
             </div>
-            <Link
-              to="/new"
-              className="inline-flex items-center gap-1 px-3 py-1.5 bg-amber-gold text-black font-medium rounded-lg hover:bg-amber-gold/90 transition-colors"
-            >
-              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-              </svg>
-              New Project
-            </Link>
+            <div className="flex items-center gap-2">
+              <input
+                ref={importInputRef}
+                type="file"
+                accept={`${BUNDLE_EXTENSION},application/json`}
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleImport(file)
+                }}
+              />
+              <button
+                onClick={() => importInputRef.current?.click()}
+                disabled={isImporting}
+                className="inline-flex items-center gap-1 px-3 py-1.5 border border-divider text-white rounded-lg hover:border-amber-gold transition-colors disabled:opacity-50"
+                title={`Import a project from a ${BUNDLE_EXTENSION} bundle`}
+              >
+                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                </svg>
+                {isImporting ? 'Importing…' : 'Import'}
+              </button>
+              <Link
+                to="/new"
+                className="inline-flex items-center gap-1 px-3 py-1.5 bg-amber-gold text-black font-medium rounded-lg hover:bg-amber-gold/90 transition-colors"
+              >
+                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                New Project
+              </Link>
+            </div>
           </div>
 
           {/* Minimal Search */}
@@ -162,8 +209,9 @@ const HomePage = () => {
                     {project.description}
                   </p>
                 )}
-                <div className="text-xs text-mid-grey">
-                  Updated {new Date(project.updatedAt).toLocaleDateString()}
+                <div className="flex items-center justify-between text-xs text-mid-grey">
+                  <span>Updated {new Date(project.updatedAt).toLocaleDateString()}</span>
+                  <StorageBadge backend={project.storageBackend} syncStatus={project.syncStatus} />
                 </div>
               </Link>
             ))}
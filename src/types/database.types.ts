@@ -19,6 +19,7 @@ export interface Database {
           content: string
           documents: Json | null
           site_flow: Json | null
+          brief: Json | null
           created_at: string
           updated_at: string
         }
@@ -31,6 +32,7 @@ export interface Database {
           content: string
           documents?: Json | null
           site_flow?: Json | null
+          brief?: Json | null
           created_at?: string
           updated_at?: string
         }
@@ -43,6 +45,7 @@ export interface Database {
           content?: string
           documents?: Json | null
           site_flow?: Json | null
+          brief?: Json | null
           created_at?: string
           updated_at?: string
         }
@@ -55,6 +58,46 @@ export interface Database {
           }
         ]
       }
+      project_versions: {
+        Row: {
+          id: string
+          project_id: string
+          user_id: string
+          author: string | null
+          title: string
+          documents: Json | null
+          site_flow: Json | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          user_id: string
+          author?: string | null
+          title: string
+          documents?: Json | null
+          site_flow?: Json | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          user_id?: string
+          author?: string | null
+          title?: string
+          documents?: Json | null
+          site_flow?: Json | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'project_versions_project_id_fkey'
+            columns: ['project_id']
+            referencedRelation: 'projects'
+            referencedColumns: ['id']
+          }
+        ]
+      }
     }
     Views: Record<string, never>
     Functions: Record<string, never>
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import aiAgent from './aiAgent'
+
+const PROMPT = { systemPrompt: 'You write PRDs', userPrompt: 'A task manager' }
+
+const jsonResponse = (body: unknown) => ({
+  ok: true,
+  status: 200,
+  statusText: 'OK',
+  headers: new Headers(),
+  json: async () => body,
+})
+
+const openAIBody = (content: string) => ({ choices: [{ message: { content } }] })
+const anthropicBody = (text: string) => ({ content: [{ text }] })
+
+describe('aiAgent.generateContent', () => {
+  const fetchMock = vi.fn()
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock)
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    aiAgent.initialize({ provider: 'openai', apiKey: 'sk-openai' }, [{ provider: 'anthropic', apiKey: 'sk-anthropic' }])
+  })
+
+  afterEach(() => {
+    fetchMock.mockReset()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('moves to the next provider when a completion comes back empty', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(openAIBody('')))
+      .mockResolvedValueOnce(jsonResponse(anthropicBody('# PRD')))
+
+    const result = await aiAgent.generateContent(PROMPT)
+
+    expect(result).toMatchObject({ content: '# PRD', provider: 'anthropic' })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('retries a request that never reached the provider', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(jsonResponse(openAIBody('# PRD')))
+
+    const result = await aiAgent.generateContent(PROMPT)
+
+    expect(result).toMatchObject({ content: '# PRD', provider: 'openai' })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not retry a TypeError raised while reading the response', async () => {
+    fetchMock
+      .mockResolvedValueOnce({ ...jsonResponse(null), json: async () => { throw new TypeError('Cannot read properties of undefined') } })
+      .mockResolvedValueOnce(jsonResponse(anthropicBody('# PRD')))
+
+    const result = await aiAgent.generateContent(PROMPT)
+
+    expect(result).toMatchObject({ provider: 'anthropic' })
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://api.openai.com/v1/chat/completions',
+      'https://api.anthropic.com/v1/messages',
+    ])
+  })
+})
@@ -3,13 +3,15 @@
  * Handles communication with AI providers for content generation
  */
 
-export type AIProvider = 'openai' | 'anthropic' | 'groq' | 'together' | 'huggingface' | 'deepseek' | 'custom'
+export type AIProvider = 'openai' | 'anthropic' | 'groq' | 'together' | 'huggingface' | 'deepseek' | 'ollama' | 'custom'
+
+const AI_PROVIDERS: AIProvider[] = ['openai', 'anthropic', 'groq', 'together', 'huggingface', 'deepseek', 'ollama', 'custom']
 
 export interface AIConfig {
   provider: AIProvider
-  apiKey: string
+  apiKey: string // Not needed for local providers such as Ollama
   model?: string
-  baseURL?: string // For custom providers
+  baseURL?: string // For custom and local providers
 }
 
 export interface AIPrompt {
@@ -17,151 +19,561 @@ export interface AIPrompt {
   userPrompt: string
   temperature?: number
   maxTokens?: number
+  signal?: AbortSignal // Aborts the in-flight request when triggered
+}
+
+export interface AIStreamChunk {
+  delta: string // Text received in this chunk
+  content: string // Full text received so far
+  progress: number // Estimated completion between 0 and 1, based on maxTokens
+}
+
+export type AIStreamCallback = (chunk: AIStreamChunk) => void
+
+export interface OllamaModel {
+  name: string
+  size: number // Bytes on disk
+  modifiedAt: string
+  parameterSize?: string
+  quantization?: string
+}
+
+export interface AIGenerationResult {
+  content: string
+  provider: AIProvider // Provider in the fallback chain that produced the content
+  model: string
+}
+
+export type AIErrorKind = 'rate_limit' | 'server' | 'network' | 'auth' | 'quota' | 'bad_request' | 'unknown'
+
+/**
+ * Error raised for a failed provider response, carrying what the retry policy needs
+ */
+export class AIProviderError extends Error {
+  provider: AIProvider
+  status?: number
+  retryAfterMs?: number
+
+  constructor(message: string, provider: AIProvider, status?: number, retryAfterMs?: number) {
+    super(message)
+    this.name = 'AIProviderError'
+    this.provider = provider
+    this.status = status
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+const DEFAULT_MODELS: Record<AIProvider, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-sonnet-20241022',
+  groq: 'llama-3.3-70b-versatile',
+  together: 'meta-llama/Llama-3-70b-chat-hf',
+  huggingface: 'mistralai/Mistral-7B-Instruct-v0.2',
+  deepseek: 'deepseek-chat',
+  ollama: 'llama3.1',
+  custom: 'gpt-3.5-turbo',
+}
+
+export const DEFAULT_OLLAMA_URL = 'http://localhost:11434'
+
+// Chat completion endpoints for providers that speak the OpenAI streaming format
+const OPENAI_COMPATIBLE_ENDPOINTS: Partial<Record<AIProvider, { url: string; label: string }>> = {
+  openai: { url: 'https://api.openai.com/v1/chat/completions', label: 'OpenAI' },
+  groq: { url: 'https://api.groq.com/openai/v1/chat/completions', label: 'Groq' },
+  together: { url: 'https://api.together.xyz/v1/chat/completions', label: 'Together AI' },
+  deepseek: { url: 'https://api.deepseek.com/v1/chat/completions', label: 'DeepSeek' },
+}
+
+// Rough character-per-token ratio used to estimate streaming progress
+const CHARS_PER_TOKEN = 4
+
+// How often each error class is retried on the same provider before moving down the chain.
+// Auth, quota and bad requests will not succeed on a retry, so they fall through immediately.
+const RETRY_POLICIES: Record<AIErrorKind, { maxRetries: number; baseDelayMs: number }> = {
+  rate_limit: { maxRetries: 3, baseDelayMs: 2000 },
+  server: { maxRetries: 2, baseDelayMs: 1000 },
+  network: { maxRetries: 1, baseDelayMs: 500 },
+  auth: { maxRetries: 0, baseDelayMs: 0 },
+  quota: { maxRetries: 0, baseDelayMs: 0 },
+  bad_request: { maxRetries: 0, baseDelayMs: 0 },
+  unknown: { maxRetries: 0, baseDelayMs: 0 },
+}
+
+const MAX_BACKOFF_MS = 30000
+// A Retry-After longer than this is treated as "try the next provider" rather than waiting
+const MAX_RETRY_AFTER_MS = 60000
+
+/**
+ * Check whether an error was caused by an aborted request
+ */
+export function isAbortError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { name?: string }).name === 'AbortError'
+}
+
+const resolveModel = (config: AIConfig): string => config.model || DEFAULT_MODELS[config.provider]
+
+// Local providers run without credentials
+const requiresApiKey = (provider: AIProvider): boolean => provider !== 'ollama'
+
+const resolveOllamaURL = (baseURL?: string): string => (baseURL || DEFAULT_OLLAMA_URL).replace(/\/+$/, '')
+
+// Shape of Ollama's /api/tags response; only the fields listed here are read
+type OllamaTagsResponse = {
+  models?: Array<{
+    name: string
+    size?: number
+    modified_at?: string
+    details?: { parameter_size?: string; quantization_level?: string }
+  }>
+}
+
+/**
+ * List the models installed on an Ollama server via /api/tags
+ */
+export async function listOllamaModels(baseURL?: string, signal?: AbortSignal): Promise<OllamaModel[]> {
+  const response = await fetch(`${resolveOllamaURL(baseURL)}/api/tags`, { signal })
+  if (!response.ok) {
+    throw createHttpError('ollama', response, `Ollama API error: ${response.statusText}`)
+  }
+
+  const data: OllamaTagsResponse = await response.json()
+  const models = Array.isArray(data.models) ? data.models.filter(model => typeof model?.name === 'string') : []
+  return models.map(model => ({
+    name: model.name,
+    size: model.size ?? 0,
+    modifiedAt: model.modified_at ?? '',
+    parameterSize: model.details?.parameter_size,
+    quantization: model.details?.quantization_level,
+  }))
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined
+  const seconds = Number(header)
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+const createHttpError = (provider: AIProvider, response: Response, message: string): AIProviderError =>
+  new AIProviderError(message, provider, response.status, parseRetryAfter(response.headers.get('retry-after')))
+
+/**
+ * Raised when a provider request never got a response, e.g. the network is down or CORS failed
+ */
+class AINetworkError extends AIProviderError {
+  constructor(message: string, provider: AIProvider) {
+    super(message, provider)
+    this.name = 'AINetworkError'
+  }
+}
+
+// fetch rejects with a TypeError when the request can't be made. Only that TypeError counts as a
+// network error; one thrown while reading the response is a bug and is not retried
+const fetchProvider = async (provider: AIProvider, url: string, init: RequestInit): Promise<Response> => {
+  try {
+    return await fetch(url, init)
+  } catch (error) {
+    if (error instanceof TypeError) throw new AINetworkError(error.message, provider)
+    throw error
+  }
+}
+
+// An empty completion counts as a failure, so the next provider in the chain is tried
+const requireContent = (provider: AIProvider, label: string, content: string): string => {
+  if (!content) {
+    throw new AIProviderError(`${label} API returned empty content. Please try again.`, provider)
+  }
+  return content
+}
+
+const classifyError = (error: unknown): AIErrorKind => {
+  if (error instanceof AIProviderError && error.status !== undefined) {
+    if (error.status === 429) return 'rate_limit'
+    if (error.status === 401 || error.status === 403) return 'auth'
+    if (error.status === 402) return 'quota'
+    if (error.status >= 500) return 'server'
+    if (error.status >= 400) return 'bad_request'
+  }
+  if (error instanceof AINetworkError) return 'network'
+  return 'unknown'
+}
+
+const getBackoffDelay = (kind: AIErrorKind, attempt: number, retryAfterMs?: number): number => {
+  if (retryAfterMs !== undefined) return retryAfterMs
+  const exponential = RETRY_POLICIES[kind].baseDelayMs * 2 ** attempt
+  return Math.min(exponential + Math.random() * 250, MAX_BACKOFF_MS)
 }
 
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+
 class AIAgent {
-  private config: AIConfig | null = null
+  private chain: AIConfig[] = []
 
   /**
-   * Initialize the AI agent with configuration
+   * Initialize the AI agent with a primary provider and optional fallbacks, tried in order
    */
-  initialize(config: AIConfig) {
-    this.config = config
+  initialize(config: AIConfig, fallbacks: AIConfig[] = []) {
+    this.chain = [config, ...fallbacks].filter(entry => !!entry.apiKey || !requiresApiKey(entry.provider))
   }
 
   /**
    * Check if the agent is initialized
    */
   isInitialized(): boolean {
-    return this.config !== null && !!this.config.apiKey
+    return this.chain.length > 0
+  }
+
+  /**
+   * Providers in the order they are tried
+   */
+  getProviderChain(): AIConfig[] {
+    return [...this.chain]
+  }
+
+  /**
+   * Switch the model used by a provider already in the chain
+   */
+  setModel(provider: AIProvider, model: string) {
+    this.chain = this.chain.map(config => (config.provider === provider ? { ...config, model } : config))
   }
 
   /**
    * Generate content using AI
    */
-  async generateContent(prompt: AIPrompt): Promise<string> {
+  async generateContent(prompt: AIPrompt): Promise<AIGenerationResult> {
+    return await this.runWithFallback(prompt)
+  }
+
+  /**
+   * Stream content using AI, invoking onChunk as tokens arrive
+   */
+  async streamContent(prompt: AIPrompt, onChunk: AIStreamCallback): Promise<AIGenerationResult> {
+    return await this.runWithFallback(prompt, onChunk)
+  }
+
+  /**
+   * Walk the provider chain, retrying each provider according to its error class
+   */
+  private async runWithFallback(prompt: AIPrompt, onChunk?: AIStreamCallback): Promise<AIGenerationResult> {
     console.log('🔍 AI Agent Debug - Starting generation...', {
-      hasConfig: !!this.config,
       isInitialized: this.isInitialized(),
-      provider: this.config?.provider,
-      apiKeyLength: this.config?.apiKey?.length || 0,
-      apiKeyPrefix: this.config?.apiKey ? `${this.config.apiKey.substring(0, 10)}...` : 'none'
+      providers: this.chain.map(config => config.provider),
+      streaming: !!onChunk,
     })
 
-    if (!this.config || !this.isInitialized()) {
+    if (!this.isInitialized()) {
       const error = 'AI Agent not initialized. Please configure your API key in environment variables.'
-      console.error('❌ AI Agent Debug - Not initialized:', { config: this.config })
+      console.error('❌ AI Agent Debug - Not initialized')
       throw new Error(error)
     }
 
-    try {
-      console.log('🚀 AI Agent Debug - Calling provider:', this.config.provider)
-      switch (this.config.provider) {
-        case 'openai':
-          return await this.generateWithOpenAI(prompt)
-        case 'anthropic':
-          return await this.generateWithAnthropic(prompt)
-        case 'groq':
-          return await this.generateWithGroq(prompt)
-        case 'together':
-          return await this.generateWithTogether(prompt)
-        case 'huggingface':
-          return await this.generateWithHuggingFace(prompt)
-        case 'deepseek':
-          return await this.generateWithDeepSeek(prompt)
-        case 'custom':
-          return await this.generateWithCustom(prompt)
-        default:
-          throw new Error(`Unsupported provider: ${this.config.provider}`)
-      }
-    } catch (error) {
-      console.error('❌ AI generation error:', error)
-      console.error('❌ Full error details:', {
-        message: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : 'No stack trace',
-        config: {
-          provider: this.config?.provider,
-          hasApiKey: !!this.config?.apiKey,
-          apiKeyLength: this.config?.apiKey?.length || 0
+    const failures: string[] = []
+
+    for (const config of this.chain) {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          console.log('🚀 AI Agent Debug - Calling provider:', config.provider, { attempt })
+          const content = onChunk
+            ? await this.streamWithProvider(config, prompt, onChunk)
+            : await this.generateWithProvider(config, prompt)
+          const model = resolveModel(config)
+          console.log(`✅ ${config.provider} answered:`, { model, contentLength: content.length })
+          return { content, provider: config.provider, model }
+        } catch (error) {
+          if (isAbortError(error)) throw error
+
+          const kind = classifyError(error)
+          const retryAfterMs = error instanceof AIProviderError ? error.retryAfterMs : undefined
+          const canRetry = attempt < RETRY_POLICIES[kind].maxRetries
+            && (retryAfterMs === undefined || retryAfterMs <= MAX_RETRY_AFTER_MS)
+
+          if (canRetry) {
+            const delay = getBackoffDelay(kind, attempt, retryAfterMs)
+            console.warn(`⏳ ${config.provider} failed (${kind}), retrying in ${Math.round(delay)}ms...`, error)
+            await sleep(delay, prompt.signal)
+            continue
+          }
+
+          console.error(`❌ ${config.provider} failed (${kind}), moving to the next provider:`, error)
+          failures.push(`${config.provider}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+          break
         }
-      })
-      throw new Error(
-        error instanceof Error 
-          ? `AI generation failed: ${error.message}` 
-          : 'AI generation failed. Please check your API key and try again.'
-      )
+      }
     }
+
+    throw new Error(
+      failures.length > 0
+        ? `AI generation failed: ${failures.join('; ')}`
+        : 'AI generation failed. Please check your API key and try again.'
+    )
   }
 
   /**
-   * Generate content using OpenAI API
+   * Generate content with a single provider
    */
-  private async generateWithOpenAI(prompt: AIPrompt): Promise<string> {
-    if (!this.config) throw new Error('Config not set')
-
-    const model = this.config.model || 'gpt-4o-mini'
-    
-    console.log('🚀 Calling OpenAI API...', { model, maxTokens: prompt.maxTokens })
-    
-    try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.config.apiKey}`,
-        },
-        body: JSON.stringify({
-          model,
-          messages: [
-            { role: 'system', content: prompt.systemPrompt },
-            { role: 'user', content: prompt.userPrompt },
-          ],
-          temperature: prompt.temperature ?? 0.7,
-          max_tokens: prompt.maxTokens ?? 2000,
-        }),
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: { message: 'Unknown error' } }))
-        const errorMessage = errorData.error?.message || `OpenAI API error: ${response.statusText}`
-        console.error('❌ OpenAI API Error:', {
-          status: response.status,
-          statusText: response.statusText,
-          error: errorData,
-        })
-        throw new Error(errorMessage)
+  private async generateWithProvider(config: AIConfig, prompt: AIPrompt): Promise<string> {
+    switch (config.provider) {
+      case 'openai':
+        return await this.generateWithOpenAI(config, prompt)
+      case 'anthropic':
+        return await this.generateWithAnthropic(config, prompt)
+      case 'groq':
+        return await this.generateWithGroq(config, prompt)
+      case 'together':
+        return await this.generateWithTogether(config, prompt)
+      case 'huggingface':
+        return await this.generateWithHuggingFace(config, prompt)
+      case 'deepseek':
+        return await this.generateWithDeepSeek(config, prompt)
+      case 'ollama':
+        return await this.generateWithOllama(config, prompt)
+      case 'custom':
+        return await this.generateWithCustom(config, prompt)
+      default:
+        throw new Error(`Unsupported provider: ${config.provider}`)
+    }
+  }
+
+  /**
+   * Stream content with a single provider
+   */
+  private async streamWithProvider(config: AIConfig, prompt: AIPrompt, onChunk: AIStreamCallback): Promise<string> {
+    switch (config.provider) {
+      case 'anthropic':
+        return await this.streamWithAnthropic(config, prompt, onChunk)
+      case 'ollama':
+        return await this.streamWithOllama(config, prompt, onChunk)
+      case 'huggingface': {
+        // The Inference API has no chat streaming format, so deliver the completion as one chunk
+        const content = await this.generateWithHuggingFace(config, prompt)
+        onChunk({ delta: content, content, progress: 1 })
+        return content
       }
+      default:
+        return await this.streamWithOpenAICompatible(config, prompt, onChunk)
+    }
+  }
 
-      const data = await response.json()
-      const content = data.choices[0]?.message?.content || ''
-      console.log('✅ OpenAI API Success:', { 
-        model: data.model,
-        tokensUsed: data.usage?.total_tokens,
-        contentLength: content.length 
-      })
-      return content
-    } catch (error) {
-      console.error('❌ OpenAI API Request Failed:', error)
-      throw error
+  /**
+   * Resolve the chat completions endpoint for OpenAI-compatible providers
+   */
+  private getChatEndpoint(config: AIConfig): { url: string; model: string; label: string } {
+    if (config.provider === 'custom') {
+      if (!config.baseURL) {
+        throw new Error('Custom provider requires baseURL')
+      }
+      return {
+        url: `${config.baseURL}/v1/chat/completions`,
+        model: resolveModel(config),
+        label: 'Custom',
+      }
     }
+
+    const endpoint = OPENAI_COMPATIBLE_ENDPOINTS[config.provider]
+    if (!endpoint) {
+      throw new Error(`Streaming is not supported for provider: ${config.provider}`)
+    }
+    return { url: endpoint.url, model: resolveModel(config), label: endpoint.label }
   }
 
   /**
-   * Generate content using Anthropic Claude API
+   * Read a streamed response body line by line
+   */
+  private async readLines(response: Response, onLine: (line: string) => void): Promise<void> {
+    if (!response.body) {
+      throw new Error('Streaming responses are not supported in this browser')
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split(/\r?\n/)
+      buffer = lines.pop() ?? ''
+      lines.forEach(onLine)
+    }
+
+    if (buffer) {
+      onLine(buffer)
+    }
+  }
+
+  /**
+   * Read a server-sent event stream, invoking onData with each data payload
+   */
+  private async readEventStream(response: Response, onData: (data: string) => void): Promise<void> {
+    await this.readLines(response, (line) => {
+      if (line.startsWith('data:')) {
+        onData(line.slice(5).trim())
+      }
+    })
+  }
+
+  /**
+   * Stream content from an OpenAI-compatible chat completions endpoint
+   */
+  private async streamWithOpenAICompatible(config: AIConfig, prompt: AIPrompt, onChunk: AIStreamCallback): Promise<string> {
+    const { url, model, label } = this.getChatEndpoint(config)
+    const maxTokens = prompt.maxTokens ?? 2000
+
+    const response = await fetchProvider(config.provider, url, {
+      method: 'POST',
+      signal: prompt.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: prompt.systemPrompt },
+          { role: 'user', content: prompt.userPrompt },
+        ],
+        temperature: prompt.temperature ?? 0.7,
+        max_tokens: maxTokens,
+        stream: true,
+      }),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: { message: 'Unknown error' } }))
+      throw createHttpError(config.provider, response, errorData.error?.message || `${label} API error: ${response.statusText}`)
+    }
+
+    let content = ''
+    await this.readEventStream(response, (data) => {
+      if (!data || data === '[DONE]') return
+
+      const event = JSON.parse(data)
+      const delta: string = event.choices?.[0]?.delta?.content || ''
+      if (!delta) return
+
+      content += delta
+      onChunk({ delta, content, progress: Math.min(content.length / (maxTokens * CHARS_PER_TOKEN), 0.99) })
+    })
+
+    return requireContent(config.provider, label, content)
+  }
+
+  /**
+   * Stream content from the Anthropic Messages API
    */
-  private async generateWithAnthropic(prompt: AIPrompt): Promise<string> {
-    if (!this.config) throw new Error('Config not set')
+  private async streamWithAnthropic(config: AIConfig, prompt: AIPrompt, onChunk: AIStreamCallback): Promise<string> {
+    const model = resolveModel(config)
+    const maxTokens = prompt.maxTokens ?? 2000
 
-    const model = this.config.model || 'claude-3-5-sonnet-20241022'
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
+    const response = await fetchProvider(config.provider, 'https://api.anthropic.com/v1/messages', {
       method: 'POST',
+      signal: prompt.signal,
       headers: {
         'Content-Type': 'application/json',
-        'x-api-key': this.config.apiKey,
+        'x-api-key': config.apiKey,
         'anthropic-version': '2023-06-01',
       },
       body: JSON.stringify({
         model,
+        max_tokens: maxTokens,
+        temperature: prompt.temperature ?? 0.7,
+        system: prompt.systemPrompt,
+        messages: [
+          { role: 'user', content: prompt.userPrompt },
+        ],
+        stream: true,
+      }),
+    })
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: { message: 'Unknown error' } }))
+      throw createHttpError(config.provider, response, error.error?.message || `Anthropic API error: ${response.statusText}`)
+    }
+
+    let content = ''
+    await this.readEventStream(response, (data) => {
+      if (!data) return
+
+      const event = JSON.parse(data)
+      if (event.type === 'error') {
+        // Overloaded errors arrive mid-stream, treat them like a 529 so the retry policy applies
+        const status = event.error?.type === 'overloaded_error' ? 529 : undefined
+        throw new AIProviderError(event.error?.message || 'Anthropic stream error', config.provider, status)
+      }
+      if (event.type !== 'content_block_delta' || event.delta?.type !== 'text_delta') return
+
+      const delta: string = event.delta.text || ''
+      content += delta
+      onChunk({ delta, content, progress: Math.min(content.length / (maxTokens * CHARS_PER_TOKEN), 0.99) })
+    })
+
+    return requireContent(config.provider, 'Anthropic', content)
+  }
+
+  /**
+   * Generate content using OpenAI API
+   */
+  private async generateWithOpenAI(config: AIConfig, prompt: AIPrompt): Promise<string> {
+    const response = await fetchProvider(config.provider, 'https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      signal: prompt.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: resolveModel(config),
+        messages: [
+          { role: 'system', content: prompt.systemPrompt },
+          { role: 'user', content: prompt.userPrompt },
+        ],
+        temperature: prompt.temperature ?? 0.7,
+        max_tokens: prompt.maxTokens ?? 2000,
+      }),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: { message: 'Unknown error' } }))
+      throw createHttpError(config.provider, response, errorData.error?.message || `OpenAI API error: ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    return requireContent(config.provider, 'OpenAI', data.choices?.[0]?.message?.content || '')
+  }
+
+  /**
+   * Generate content using Anthropic Claude API
+   */
+  private async generateWithAnthropic(config: AIConfig, prompt: AIPrompt): Promise<string> {
+    const response = await fetchProvider(config.provider, 'https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      signal: prompt.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: resolveModel(config),
         max_tokens: prompt.maxTokens ?? 2000,
         temperature: prompt.temperature ?? 0.7,
         system: prompt.systemPrompt,
@@ -173,30 +585,26 @@ class AIAgent {
 
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: { message: 'Unknown error' } }))
-      throw new Error(error.error?.message || `Anthropic API error: ${response.statusText}`)
+      throw createHttpError(config.provider, response, error.error?.message || `Anthropic API error: ${response.statusText}`)
     }
 
     const data = await response.json()
-    return data.content[0]?.text || ''
+    return requireContent(config.provider, 'Anthropic', data.content?.[0]?.text || '')
   }
 
   /**
    * Generate content using Groq API (Free tier available, very fast!)
    */
-  private async generateWithGroq(prompt: AIPrompt): Promise<string> {
-    if (!this.config) throw new Error('Config not set')
-
-    const model = this.config.model || 'llama-3.3-70b-versatile'
-    
-    console.log('🚀 Calling Groq API...', { 
-      model, 
-      maxTokens: prompt.maxTokens,
-      apiKeyLength: this.config.apiKey.length,
-      apiKeyPrefix: this.config.apiKey.substring(0, 10) + '...'
-    })
-    
-    try {
-      const requestBody = {
+  private async generateWithGroq(config: AIConfig, prompt: AIPrompt): Promise<string> {
+    const model = resolveModel(config)
+    const response = await fetchProvider(config.provider, 'https://api.groq.com/openai/v1/chat/completions', {
+      method: 'POST',
+      signal: prompt.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.apiKey}`,
+      },
+      body: JSON.stringify({
         model,
         messages: [
           { role: 'system', content: prompt.systemPrompt },
@@ -204,263 +612,228 @@ class AIAgent {
         ],
         temperature: prompt.temperature ?? 0.7,
         max_tokens: prompt.maxTokens ?? 2000,
-      }
-
-      console.log('📤 Groq Request Body:', {
-        ...requestBody,
-        messages: requestBody.messages.map(m => ({ role: m.role, contentLength: m.content.length }))
-      })
-
-      const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.config.apiKey}`,
-        },
-        body: JSON.stringify(requestBody),
-      })
-
-      console.log('📥 Groq Response Status:', {
-        status: response.status,
-        statusText: response.statusText,
-        headers: Object.fromEntries(response.headers.entries())
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: { message: 'Unknown error' } }))
-        let errorMessage = errorData.error?.message || `Groq API error: ${response.statusText}`
-        
-        // User-friendly error messages
-        if (errorMessage.includes('decommissioned') || errorMessage.includes('no longer supported')) {
-          errorMessage = `Model "${model}" is no longer available. Try setting VITE_AI_MODEL=llama-3.3-70b-versatile or llama-3.1-8b-instant in your .env file.`
-        } else if (response.status === 401) {
-          errorMessage = 'Invalid Groq API key. Please check your API key in the .env file. Get a new key at https://console.groq.com/'
-        } else if (response.status === 429) {
-          errorMessage = 'Groq API rate limit exceeded. Please wait a moment and try again.'
-        }
-        
-        console.error('❌ Groq API Error:', {
-          status: response.status,
-          statusText: response.statusText,
-          error: errorData,
-          errorMessage
-        })
-        throw new Error(errorMessage)
-      }
+      }),
+    })
 
-      const data = await response.json()
-      const content = data.choices[0]?.message?.content || ''
-      
-      console.log('✅ Groq API Success:', { 
-        model: data.model,
-        tokensUsed: data.usage?.total_tokens,
-        contentLength: content.length,
-        hasContent: !!content
-      })
-
-      if (!content) {
-        console.error('❌ Groq returned empty content:', data)
-        throw new Error('Groq API returned empty content. Please try again.')
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: { message: 'Unknown error' } }))
+      let errorMessage = errorData.error?.message || `Groq API error: ${response.statusText}`
+
+      // User-friendly error messages
+      if (errorMessage.includes('decommissioned') || errorMessage.includes('no longer supported')) {
+        errorMessage = `Model "${model}" is no longer available. Try setting VITE_AI_MODEL=llama-3.3-70b-versatile or llama-3.1-8b-instant in your .env file.`
+      } else if (response.status === 401) {
+        errorMessage = 'Invalid Groq API key. Please check your API key in the .env file. Get a new key at https://console.groq.com/'
+      } else if (response.status === 429) {
+        errorMessage = 'Groq API rate limit exceeded. Please wait a moment and try again.'
       }
-
-      return content
-    } catch (error) {
-      console.error('❌ Groq API Request Failed:', {
-        error: error instanceof Error ? error.message : error,
-        stack: error instanceof Error ? error.stack : undefined,
-        config: {
-          hasApiKey: !!this.config?.apiKey,
-          apiKeyLength: this.config?.apiKey?.length,
-          model
-        }
-      })
-      throw error
+      throw createHttpError(config.provider, response, errorMessage)
     }
+
+    const data = await response.json()
+    return requireContent(config.provider, 'Groq', data.choices?.[0]?.message?.content || '')
   }
 
   /**
    * Generate content using Together AI API (Free credits available)
    */
-  private async generateWithTogether(prompt: AIPrompt): Promise<string> {
-    if (!this.config) throw new Error('Config not set')
-
-    const model = this.config.model || 'meta-llama/Llama-3-70b-chat-hf'
-    
-    console.log('🚀 Calling Together AI API...', { model, maxTokens: prompt.maxTokens })
-    
-    try {
-      const response = await fetch('https://api.together.xyz/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.config.apiKey}`,
-        },
-        body: JSON.stringify({
-          model,
-          messages: [
-            { role: 'system', content: prompt.systemPrompt },
-            { role: 'user', content: prompt.userPrompt },
-          ],
-          temperature: prompt.temperature ?? 0.7,
-          max_tokens: prompt.maxTokens ?? 2000,
-        }),
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: { message: 'Unknown error' } }))
-        const errorMessage = errorData.error?.message || `Together AI API error: ${response.statusText}`
-        console.error('❌ Together AI API Error:', {
-          status: response.status,
-          statusText: response.statusText,
-          error: errorData,
-        })
-        throw new Error(errorMessage)
-      }
+  private async generateWithTogether(config: AIConfig, prompt: AIPrompt): Promise<string> {
+    const response = await fetchProvider(config.provider, 'https://api.together.xyz/v1/chat/completions', {
+      method: 'POST',
+      signal: prompt.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: resolveModel(config),
+        messages: [
+          { role: 'system', content: prompt.systemPrompt },
+          { role: 'user', content: prompt.userPrompt },
+        ],
+        temperature: prompt.temperature ?? 0.7,
+        max_tokens: prompt.maxTokens ?? 2000,
+      }),
+    })
 
-      const data = await response.json()
-      const content = data.choices[0]?.message?.content || ''
-      console.log('✅ Together AI API Success:', { 
-        model: data.model,
-        tokensUsed: data.usage?.total_tokens,
-        contentLength: content.length 
-      })
-      return content
-    } catch (error) {
-      console.error('❌ Together AI API Request Failed:', error)
-      throw error
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: { message: 'Unknown error' } }))
+      throw createHttpError(config.provider, response, errorData.error?.message || `Together AI API error: ${response.statusText}`)
     }
+
+    const data = await response.json()
+    return requireContent(config.provider, 'Together AI', data.choices?.[0]?.message?.content || '')
   }
 
   /**
    * Generate content using Hugging Face Inference API (Free tier: 50 requests/hour)
    */
-  private async generateWithHuggingFace(prompt: AIPrompt): Promise<string> {
-    if (!this.config) throw new Error('Config not set')
-
-    const model = this.config.model || 'mistralai/Mistral-7B-Instruct-v0.2'
-    
-    console.log('🚀 Calling Hugging Face API...', { model, maxTokens: prompt.maxTokens })
-    
-    try {
-      // Hugging Face uses a different format - combine system and user prompts
-      const fullPrompt = `${prompt.systemPrompt}\n\n${prompt.userPrompt}`
-      
-      const response = await fetch(`https://api-inference.huggingface.co/models/${model}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.config.apiKey}`,
+  private async generateWithHuggingFace(config: AIConfig, prompt: AIPrompt): Promise<string> {
+    // Hugging Face uses a different format - combine system and user prompts
+    const fullPrompt = `${prompt.systemPrompt}\n\n${prompt.userPrompt}`
+
+    const response = await fetchProvider(config.provider, `https://api-inference.huggingface.co/models/${resolveModel(config)}`, {
+      method: 'POST',
+      signal: prompt.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.apiKey}`,
+      },
+      body: JSON.stringify({
+        inputs: fullPrompt,
+        parameters: {
+          max_new_tokens: prompt.maxTokens ?? 2000,
+          temperature: prompt.temperature ?? 0.7,
+          return_full_text: false,
         },
-        body: JSON.stringify({
-          inputs: fullPrompt,
-          parameters: {
-            max_new_tokens: prompt.maxTokens ?? 2000,
-            temperature: prompt.temperature ?? 0.7,
-            return_full_text: false,
-          },
-        }),
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
-        const errorMessage = typeof errorData === 'string' ? errorData : errorData.error || `Hugging Face API error: ${response.statusText}`
-        console.error('❌ Hugging Face API Error:', {
-          status: response.status,
-          statusText: response.statusText,
-          error: errorData,
-        })
-        throw new Error(errorMessage)
-      }
+      }),
+    })
 
-      const data = await response.json()
-      // Hugging Face returns array format
-      const content = Array.isArray(data) ? data[0]?.generated_text || '' : data.generated_text || ''
-      console.log('✅ Hugging Face API Success:', { 
-        model,
-        contentLength: content.length 
-      })
-      return content
-    } catch (error) {
-      console.error('❌ Hugging Face API Request Failed:', error)
-      throw error
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+      const errorMessage = typeof errorData === 'string' ? errorData : errorData.error || `Hugging Face API error: ${response.statusText}`
+      throw createHttpError(config.provider, response, errorMessage)
     }
+
+    const data = await response.json()
+    // Hugging Face returns array format
+    const content = Array.isArray(data) ? data[0]?.generated_text || '' : data.generated_text || ''
+    return requireContent(config.provider, 'Hugging Face', content)
   }
 
   /**
    * Generate content using DeepSeek API (Free tier available!)
    */
-  private async generateWithDeepSeek(prompt: AIPrompt): Promise<string> {
-    if (!this.config) throw new Error('Config not set')
-
-    const model = this.config.model || 'deepseek-chat'
-    
-    console.log('🚀 Calling DeepSeek API...', { model, maxTokens: prompt.maxTokens })
-    
-    try {
-      const response = await fetch('https://api.deepseek.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.config.apiKey}`,
-        },
-        body: JSON.stringify({
-          model,
-          messages: [
-            { role: 'system', content: prompt.systemPrompt },
-            { role: 'user', content: prompt.userPrompt },
-          ],
-          temperature: prompt.temperature ?? 0.7,
-          max_tokens: prompt.maxTokens ?? 2000,
-        }),
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: { message: 'Unknown error' } }))
-        let errorMessage = errorData.error?.message || `DeepSeek API error: ${response.statusText}`
-        
-        // User-friendly error messages
-        if (response.status === 402) {
-          errorMessage = 'DeepSeek account has insufficient balance. Please add credits or switch to a free provider like Groq.'
-        } else if (response.status === 401) {
-          errorMessage = 'Invalid DeepSeek API key. Please check your API key in the .env file.'
-        }
-        
-        console.error('❌ DeepSeek API Error:', {
-          status: response.status,
-          statusText: response.statusText,
-          error: errorData,
-        })
-        throw new Error(errorMessage)
+  private async generateWithDeepSeek(config: AIConfig, prompt: AIPrompt): Promise<string> {
+    const response = await fetchProvider(config.provider, 'https://api.deepseek.com/v1/chat/completions', {
+      method: 'POST',
+      signal: prompt.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: resolveModel(config),
+        messages: [
+          { role: 'system', content: prompt.systemPrompt },
+          { role: 'user', content: prompt.userPrompt },
+        ],
+        temperature: prompt.temperature ?? 0.7,
+        max_tokens: prompt.maxTokens ?? 2000,
+      }),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: { message: 'Unknown error' } }))
+      let errorMessage = errorData.error?.message || `DeepSeek API error: ${response.statusText}`
+
+      // User-friendly error messages
+      if (response.status === 402) {
+        errorMessage = 'DeepSeek account has insufficient balance. Please add credits or switch to a free provider like Groq.'
+      } else if (response.status === 401) {
+        errorMessage = 'Invalid DeepSeek API key. Please check your API key in the .env file.'
       }
+      throw createHttpError(config.provider, response, errorMessage)
+    }
+
+    const data = await response.json()
+    return requireContent(config.provider, 'DeepSeek', data.choices?.[0]?.message?.content || '')
+  }
+
+  /**
+   * Build the native Ollama /api/chat request body
+   */
+  private buildOllamaBody(config: AIConfig, prompt: AIPrompt, stream: boolean) {
+    return JSON.stringify({
+      model: resolveModel(config),
+      messages: [
+        { role: 'system', content: prompt.systemPrompt },
+        { role: 'user', content: prompt.userPrompt },
+      ],
+      stream,
+      options: {
+        temperature: prompt.temperature ?? 0.7,
+        num_predict: prompt.maxTokens ?? 2000,
+      },
+    })
+  }
+
+  /**
+   * Generate content using a local Ollama server (runs offline, no API key)
+   */
+  private async generateWithOllama(config: AIConfig, prompt: AIPrompt): Promise<string> {
+    const response = await fetchProvider(config.provider, `${resolveOllamaURL(config.baseURL)}/api/chat`, {
+      method: 'POST',
+      signal: prompt.signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: this.buildOllamaBody(config, prompt, false),
+    })
 
-      const data = await response.json()
-      const content = data.choices[0]?.message?.content || ''
-      console.log('✅ DeepSeek API Success:', { 
-        model: data.model,
-        tokensUsed: data.usage?.total_tokens,
-        contentLength: content.length 
-      })
-      return content
-    } catch (error) {
-      console.error('❌ DeepSeek API Request Failed:', error)
-      throw error
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+      throw createHttpError(config.provider, response, errorData.error || `Ollama API error: ${response.statusText}`)
     }
+
+    const data = await response.json()
+    return requireContent(config.provider, 'Ollama', data.message?.content || '')
+  }
+
+  /**
+   * Stream content from a local Ollama server, which sends newline-delimited JSON
+   */
+  private async streamWithOllama(config: AIConfig, prompt: AIPrompt, onChunk: AIStreamCallback): Promise<string> {
+    const maxTokens = prompt.maxTokens ?? 2000
+
+    const response = await fetchProvider(config.provider, `${resolveOllamaURL(config.baseURL)}/api/chat`, {
+      method: 'POST',
+      signal: prompt.signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: this.buildOllamaBody(config, prompt, true),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+      throw createHttpError(config.provider, response, errorData.error || `Ollama API error: ${response.statusText}`)
+    }
+
+    let content = ''
+    await this.readLines(response, (line) => {
+      if (!line.trim()) return
+
+      const event = JSON.parse(line)
+      if (event.error) {
+        throw new AIProviderError(event.error, config.provider)
+      }
+
+      const delta: string = event.message?.content || ''
+      if (!delta) return
+
+      content += delta
+      onChunk({ delta, content, progress: Math.min(content.length / (maxTokens * CHARS_PER_TOKEN), 0.99) })
+    })
+
+    return requireContent(config.provider, 'Ollama', content)
   }
 
   /**
    * Generate content using a custom API endpoint (OpenAI-compatible)
    */
-  private async generateWithCustom(prompt: AIPrompt): Promise<string> {
-    if (!this.config || !this.config.baseURL) {
+  private async generateWithCustom(config: AIConfig, prompt: AIPrompt): Promise<string> {
+    if (!config.baseURL) {
       throw new Error('Custom provider requires baseURL')
     }
 
-    const model = this.config.model || 'gpt-3.5-turbo'
-    const response = await fetch(`${this.config.baseURL}/v1/chat/completions`, {
+    const model = resolveModel(config)
+    const response = await fetchProvider(config.provider, `${config.baseURL}/v1/chat/completions`, {
       method: 'POST',
+      signal: prompt.signal,
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.config.apiKey}`,
+        'Authorization': `Bearer ${config.apiKey}`,
       },
       body: JSON.stringify({
         model,
@@ -475,17 +848,52 @@ class AIAgent {
 
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: { message: 'Unknown error' } }))
-      throw new Error(error.error?.message || `Custom API error: ${response.statusText}`)
+      throw createHttpError(config.provider, response, error.error?.message || `Custom API error: ${response.statusText}`)
     }
 
     const data = await response.json()
-    return data.choices[0]?.message?.content || ''
+    return requireContent(config.provider, 'Custom', data.choices?.[0]?.message?.content || '')
   }
 }
 
 // Singleton instance
 const aiAgent = new AIAgent()
 
+/**
+ * Parse VITE_AI_FALLBACKS ("provider[:model],...") into provider configs.
+ * Each fallback reads its key from VITE_<PROVIDER>_API_KEY, reusing the primary key for the same provider.
+ */
+function parseFallbackProviders(value: string | undefined, primary: AIConfig): AIConfig[] {
+  if (!value) return []
+
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .flatMap((entry): AIConfig[] => {
+      // Split on the first colon only, model names may contain colons themselves
+      const separator = entry.indexOf(':')
+      const provider = (separator === -1 ? entry : entry.slice(0, separator)).toLowerCase() as AIProvider
+      const model = separator === -1 ? undefined : entry.slice(separator + 1) || undefined
+
+      if (!AI_PROVIDERS.includes(provider)) {
+        console.warn(`⚠️ Unknown fallback provider "${provider}" in VITE_AI_FALLBACKS, skipping`)
+        return []
+      }
+
+      const prefix = `VITE_${provider.toUpperCase()}`
+      const apiKey = import.meta.env[`${prefix}_API_KEY`] || (provider === primary.provider ? primary.apiKey : '')
+      const baseURL = import.meta.env[`${prefix}_BASE_URL`] || (provider === primary.provider ? primary.baseURL : undefined)
+
+      if (!apiKey && requiresApiKey(provider)) {
+        console.warn(`⚠️ No API key for fallback provider "${provider}". Set ${prefix}_API_KEY to enable it.`)
+        return []
+      }
+
+      return [{ provider, apiKey, model, baseURL }]
+    })
+}
+
 /**
  * Initialize AI agent from environment variables
  */
@@ -494,15 +902,18 @@ export function initializeAIAgent(): void {
   const apiKey = import.meta.env.VITE_AI_API_KEY || ''
   const model = import.meta.env.VITE_AI_MODEL
   const baseURL = import.meta.env.VITE_AI_BASE_URL
+  const primary: AIConfig = { provider, apiKey, model, baseURL }
+  const fallbacks = parseFallbackProviders(import.meta.env.VITE_AI_FALLBACKS, primary)
 
   console.log('🔧 Initializing AI Agent...', {
     provider,
     hasApiKey: !!apiKey,
     apiKeyPrefix: apiKey ? `${apiKey.substring(0, 10)}...` : 'none',
     model: model || 'default',
+    fallbacks: fallbacks.map(config => `${config.provider}:${resolveModel(config)}`),
   })
 
-  if (!apiKey) {
+  if (!apiKey && requiresApiKey(provider) && fallbacks.length === 0) {
     console.warn('⚠️ AI API key not found. Content generation will use fallback templates.')
     console.warn('💡 Create a .env file with VITE_AI_API_KEY=your_key_here')
     console.warn('💡 Free options:')
@@ -513,14 +924,61 @@ export function initializeAIAgent(): void {
     return
   }
 
-  aiAgent.initialize({
-    provider,
-    apiKey,
-    model,
-    baseURL,
-  })
+  aiAgent.initialize(primary, fallbacks)
 
   console.log('✅ AI Agent initialized successfully')
+
+  const ollama = getProviderConfig('ollama')
+  if (ollama) {
+    discoverOllamaModel(ollama)
+  }
+}
+
+/**
+ * Check the configured Ollama model is installed, switching to an installed one if it is not
+ */
+async function discoverOllamaModel(config: AIConfig): Promise<void> {
+  try {
+    const models = await listOllamaModels(config.baseURL)
+    console.log('🦙 Ollama models installed:', models.map(model => model.name))
+
+    if (models.length === 0) {
+      console.warn('⚠️ Ollama is running but has no models. Pull one with `ollama pull llama3.1`.')
+      return
+    }
+
+    const configured = resolveModel(config)
+    // Ollama treats "llama3.1" and "llama3.1:latest" as the same model
+    const isInstalled = models.some(model => model.name === configured || model.name === `${configured}:latest`)
+    if (!isInstalled) {
+      console.warn(`⚠️ Ollama model "${configured}" is not installed, using "${models[0].name}" instead`)
+      aiAgent.setModel('ollama', models[0].name)
+    }
+  } catch (error) {
+    console.warn(`⚠️ Could not reach Ollama at ${resolveOllamaURL(config.baseURL)}. Is \`ollama serve\` running?`, error)
+  }
+}
+
+/**
+ * Config for a provider in the chain, if it is configured
+ */
+export function getProviderConfig(provider: AIProvider): AIConfig | undefined {
+  return aiAgent.getProviderChain().find(config => config.provider === provider)
+}
+
+/**
+ * Current model for a provider in the chain, if it is configured
+ */
+export function getConfiguredModel(provider: AIProvider): string | null {
+  const config = getProviderConfig(provider)
+  return config ? resolveModel(config) : null
+}
+
+/**
+ * Choose which installed model a provider in the chain should use
+ */
+export function setConfiguredModel(provider: AIProvider, model: string): void {
+  aiAgent.setModel(provider, model)
 }
 
 /**
@@ -532,13 +990,24 @@ export function isAIAvailable(): boolean {
 
 /**
  * Generate content with AI (with fallback to templates)
+ * Pass onChunk to stream tokens as they arrive
+ */
+export async function generateWithAI(prompt: AIPrompt, onChunk?: AIStreamCallback): Promise<string> {
+  const result = await generateWithAIResult(prompt, onChunk)
+  return result.content
+}
+
+/**
+ * Generate content with AI, also reporting which provider and model answered
  */
-export async function generateWithAI(prompt: AIPrompt): Promise<string> {
+export async function generateWithAIResult(prompt: AIPrompt, onChunk?: AIStreamCallback): Promise<AIGenerationResult> {
   if (!isAIAvailable()) {
     throw new Error('AI not available. Please configure your API key.')
   }
+  if (onChunk) {
+    return await aiAgent.streamContent(prompt, onChunk)
+  }
   return await aiAgent.generateContent(prompt)
 }
 
 export default aiAgent
-
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { generateWithAIResult } from './aiAgent'
+import { extractInfo } from './contentGenerator'
+
+vi.mock('./aiAgent', async importOriginal => ({
+  ...await importOriginal<typeof import('./aiAgent')>(),
+  isAIAvailable: () => true,
+  generateWithAIResult: vi.fn(),
+}))
+
+const generate = vi.mocked(generateWithAIResult)
+
+const answer = (content: string) => ({ content, provider: 'groq' as const, model: 'test-model' })
+
+const BRIEF = {
+  projectName: 'TaskPilot',
+  features: ['Task boards', 'Reminders'],
+  targetUsers: ['Freelancers'],
+  problems: ['Missed deadlines'],
+  goals: ['Ship on time'],
+  techStack: ['React'],
+}
+
+describe('extractInfo', () => {
+  beforeEach(() => {
+    generate.mockReset()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('accepts a valid brief and reports its source', async () => {
+    generate.mockResolvedValueOnce(answer(JSON.stringify(BRIEF)))
+    const onSource = vi.fn()
+
+    await expect(extractInfo('A task manager for freelancers', { onSource })).resolves.toEqual(BRIEF)
+    expect(onSource).toHaveBeenCalledWith({ provider: 'groq', model: 'test-model' })
+  })
+
+  it('repairs fenced JSON with trailing commas and coerces single strings to lists', async () => {
+    generate.mockResolvedValueOnce(answer('Here you go:\n```json\n{"projectName": " TaskPilot ", "features": "Task boards", "targetUsers": [], "problems": [], "goals": [], "techStack": ["React", "React",],}\n```'))
+
+    const info = await extractInfo('A task manager')
+    expect(info).toEqual({ projectName: 'TaskPilot', features: ['Task boards'], targetUsers: [], problems: [], goals: [], techStack: ['React'] })
+  })
+
+  it('re-asks with the rejected answer and its problems', async () => {
+    generate
+      .mockResolvedValueOnce(answer('{"projectName": "TaskPilot", "features": []}'))
+      .mockResolvedValueOnce(answer(JSON.stringify(BRIEF)))
+
+    await expect(extractInfo('A task manager')).resolves.toEqual(BRIEF)
+    expect(generate).toHaveBeenCalledTimes(2)
+    const retry = generate.mock.calls[1][0].userPrompt
+    expect(retry).toContain('Your previous answer was rejected')
+    expect(retry).toContain('"targetUsers" must be an array of strings')
+  })
+
+  it('falls back to keyword matching when every answer is invalid', async () => {
+    generate.mockResolvedValue(answer('not json at all'))
+    const onSource = vi.fn()
+
+    const info = await extractInfo('Build a task manager with reminders', { onSource })
+    expect(generate).toHaveBeenCalledTimes(2)
+    expect(onSource).toHaveBeenCalledTimes(1)
+    expect(onSource).toHaveBeenCalledWith({ provider: 'template' })
+    expect(info.projectName).toBeTruthy()
+  })
+})
@@ -3,7 +3,13 @@
  * and generates structured documentation using AI agents
  */
 
-import { generateWithAI, isAIAvailable } from './aiAgent'
+import { generateWithAI, generateWithAIResult, isAIAvailable, isAbortError, type AIPrompt, type AIStreamCallback } from './aiAgent'
+import type { DocumentSource, Project } from './storage'
+import { replaceSection, type MarkdownSection } from './markdownSections'
+import { stringifyYAML } from './yaml'
+import { validateOpenAPI, type HTTPMethod } from './openapi'
+import { SITE_FLOW_NODE_TYPES, SITE_FLOW_CONNECTION_TYPES, MAX_SITE_FLOW_NODES, validateSiteFlow, type GeneratedSiteFlow } from './siteFlow'
+import { FIELD_TYPES, validateDataModel, stringifyDataModel, toTableName, type DataModel, type DataModelEntity } from './dataModel'
 
 export interface ExtractedInfo {
   projectName: string
@@ -14,6 +20,27 @@ export interface ExtractedInfo {
   techStack: string[]
 }
 
+export interface GenerationOptions {
+  onToken?: AIStreamCallback // Receives streamed text as the document is written
+  signal?: AbortSignal // Cancels generation, including the template fallback
+  onSource?: (source: DocumentSource) => void // Reports which provider wrote the document
+}
+
+// Runs a document prompt through the provider chain and reports which provider answered
+const generateDocumentWithAI = async (prompt: AIPrompt, options: GenerationOptions): Promise<string> => {
+  const result = await generateWithAIResult({ ...prompt, signal: options.signal }, options.onToken)
+  options.onSource?.({ provider: result.provider, model: result.model })
+  return result.content
+}
+
+// Template fallbacks arrive all at once, so report them as a single completed chunk
+const emitTemplate = (content: string, options: GenerationOptions): string => {
+  options.signal?.throwIfAborted()
+  options.onToken?.({ delta: content, content, progress: 1 })
+  options.onSource?.({ provider: 'template' })
+  return content
+}
+
 const COMMAND_PREFIXES = [
   /^(please\s+)?(help\s+)?(me\s+)?(to\s+)?(build|create|make|develop|design|plan|craft|write|generate)\s+/i,
   /^(i\s+)?(want|would like|need|am building|am creating)\s+(to\s+)?/i,
@@ -27,7 +54,7 @@ const STOP_WORDS = new Set([
 
 const SUFFIXES = ['Hub', 'Flow', 'Deck', 'Nest', 'Suite', 'Portal', 'Loop', 'Forge', 'Atlas', 'Pulse', 'Space', 'Wave', 'Pilot', 'Core', 'Studio', 'Works']
 
-const generateDynamicName = async (description: string, keywords: string[]): Promise<string> => {
+const generateDynamicName = async (description: string, keywords: string[], signal?: AbortSignal): Promise<string> => {
   // Use AI to generate unique names based on content
   if (isAIAvailable()) {
     try {
@@ -62,6 +89,7 @@ Generate 5 meaningful names, each on a new line, without numbering or formatting
         userPrompt,
         temperature: 0.9, // Higher creativity
         maxTokens: 200,
+        signal,
       })
 
       // Parse the AI response and pick the first valid name
@@ -76,6 +104,7 @@ Generate 5 meaningful names, each on a new line, without numbering or formatting
         ).join(' ')
       }
     } catch (error) {
+      if (isAbortError(error)) throw error
       console.warn('AI name generation failed, using fallback:', error)
     }
   }
@@ -272,7 +301,7 @@ const buildNameFromKeywords = (keywords: string[], rawWords: Set<string>): strin
   return fallback || 'Untitled Project'
 }
 
-const suggestProjectName = async (description: string): Promise<string> => {
+const suggestProjectName = async (description: string, signal?: AbortSignal): Promise<string> => {
   if (!description || !description.trim()) {
     return 'Untitled Project'
   }
@@ -329,11 +358,12 @@ const suggestProjectName = async (description: string): Promise<string> => {
 
   // Use the new dynamic naming system
   try {
-    const dynamicName = await generateDynamicName(description, safeKeywords)
+    const dynamicName = await generateDynamicName(description, safeKeywords, signal)
     if (dynamicName && dynamicName !== 'Untitled Project') {
       return dynamicName.substring(0, 60)
     }
   } catch (error) {
+    if (isAbortError(error)) throw error
     console.warn('Dynamic naming failed, using fallback:', error)
   }
 
@@ -342,14 +372,207 @@ const suggestProjectName = async (description: string): Promise<string> => {
   return name.substring(0, 60)
 }
 
-export const extractInfo = async (description: string): Promise<ExtractedInfo> => {
+// Field types the model's JSON must match, used to validate and coerce its answer
+const EXTRACTED_INFO_SCHEMA: Record<keyof ExtractedInfo, 'string' | 'string[]'> = {
+  projectName: 'string',
+  features: 'string[]',
+  targetUsers: 'string[]',
+  problems: 'string[]',
+  goals: 'string[]',
+  techStack: 'string[]',
+}
+
+// Fix the usual ways models break JSON: code fences, prose around the object, smart quotes, trailing commas
+const repairJSON = (raw: string): string => {
+  let text = raw.replace(/```(?:json)?/gi, '').trim()
+  const start = text.indexOf('{')
+  const end = text.lastIndexOf('}')
+  if (start !== -1 && end > start) {
+    text = text.slice(start, end + 1)
+  }
+  return text
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'")
+    .replace(/,\s*([}\]])/g, '$1')
+}
+
+const parseJSON = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return JSON.parse(repairJSON(raw))
+  }
+}
+
+// The first answer plus one re-ask with the validation problems
+const MAX_VALIDATION_ATTEMPTS = 2
+
+interface ValidatedPrompt extends AIPrompt {
+  label: string // Names the answer in logs and errors, e.g. "data model"
+  format: string // What the corrected answer must be, e.g. "JSON object"
+}
+
+type Validation<T> = { value: T | null; errors: string[] }
+
+/**
+ * Ask the AI until `validate` accepts the answer, re-asking with the rejected answer and its problems.
+ * A validator that throws (e.g. on unparseable JSON) rejects the answer too. Only an accepted
+ * answer is reported through onSource; after the last attempt its problems are thrown
+ */
+const generateValidated = async <T>(
+  { label, format, ...prompt }: ValidatedPrompt,
+  validate: (content: string) => Validation<T>,
+  options: GenerationOptions,
+  maxAttempts = MAX_VALIDATION_ATTEMPTS
+): Promise<T> => {
+  let userPrompt = prompt.userPrompt
+  let errors: string[] = []
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const result = await generateWithAIResult({ ...prompt, userPrompt, signal: options.signal }, options.onToken)
+
+    try {
+      const validation = validate(result.content)
+      if (validation.value !== null) {
+        options.onSource?.({ provider: result.provider, model: result.model })
+        return validation.value
+      }
+      errors = validation.errors
+    } catch (error) {
+      errors = [`Response is not a valid ${format} (${error instanceof Error ? error.message : 'parse error'})`]
+    }
+
+    console.warn(`⚠️ AI ${label} attempt ${attempt} failed validation:`, errors)
+
+    // Re-ask with the broken answer and what was wrong with it
+    userPrompt = `${prompt.userPrompt}
+
+Your previous answer was rejected:
+${result.content}
+
+Problems:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Respond again with only the corrected ${format}.`
+  }
+
+  throw new Error(`AI ${label} failed validation: ${errors.join('; ')}`)
+}
+
+/**
+ * Check a parsed value against the ExtractedInfo schema, coercing near misses
+ * (a single string where a list was expected, blank or duplicate entries)
+ */
+const validateExtractedInfo = (value: unknown): { info: ExtractedInfo | null; errors: string[] } => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { info: null, errors: ['Response must be a single JSON object'] }
+  }
+
+  const record = value as Record<string, unknown>
+  const errors: string[] = []
+  const info: Record<string, string | string[]> = {}
+
+  for (const [field, type] of Object.entries(EXTRACTED_INFO_SCHEMA)) {
+    const fieldValue = record[field]
+    if (type === 'string') {
+      if (typeof fieldValue !== 'string' || !fieldValue.trim()) {
+        errors.push(`"${field}" must be a non-empty string`)
+      } else {
+        info[field] = fieldValue.trim()
+      }
+      continue
+    }
+
+    const list = typeof fieldValue === 'string' ? [fieldValue] : fieldValue
+    if (!Array.isArray(list) || list.some(item => typeof item !== 'string')) {
+      errors.push(`"${field}" must be an array of strings`)
+      continue
+    }
+    info[field] = list
+      .map(item => item.trim())
+      .filter((item, index, items) => item && items.indexOf(item) === index)
+  }
+
+  if (errors.length === 0 && info.features.length === 0) {
+    errors.push('"features" must list at least one feature')
+  }
+
+  return errors.length > 0 ? { info: null, errors } : { info: info as unknown as ExtractedInfo, errors }
+}
+
+const extractInfoWithAI = async (description: string, options: GenerationOptions): Promise<ExtractedInfo> => {
+  const systemPrompt = `You extract structured project briefs from free-text product descriptions. Respond with a single JSON object and nothing else: no markdown, no code fences, no commentary.
+
+The object must have exactly these fields:
+{
+  "projectName": string,    // The name given in the description, or a short brandable name that reflects what the project does
+  "features": string[],     // Concrete capabilities the product must have
+  "targetUsers": string[],  // Who will use it
+  "problems": string[],     // Problems or pain points it solves
+  "goals": string[],        // Outcomes the project is aiming for
+  "techStack": string[]     // Technologies explicitly mentioned
+}
+
+Only include what the description states or clearly implies. Use an empty array rather than inventing generic filler.`
+
+  const userPrompt = `Extract the project brief from this description:
+
+${description}`
+
+  // The brief isn't a document, so its tokens are not streamed
+  return generateValidated(
+    { systemPrompt, userPrompt, temperature: 0.2, maxTokens: 1000, label: 'extraction', format: 'JSON object' },
+    content => {
+      const { info, errors } = validateExtractedInfo(parseJSON(content))
+      return { value: info, errors }
+    },
+    { signal: options.signal, onSource: options.onSource }
+  )
+}
+
+/**
+ * Pull the project brief out of a free-text description, asking the AI for
+ * structured JSON when it is available and falling back to keyword matching offline
+ */
+export const extractInfo = async (description: string, options: GenerationOptions = {}): Promise<ExtractedInfo> => {
   // Ensure description is valid
   if (!description || typeof description !== 'string') {
     description = ''
   }
-  
+
+  if (isAIAvailable() && description.trim()) {
+    try {
+      console.log('🤖 Using AI to extract project info...')
+      const info = await extractInfoWithAI(description, options)
+      console.log('✅ AI extraction succeeded:', info)
+      return info
+    } catch (error) {
+      if (isAbortError(error)) throw error
+      console.warn('AI extraction failed, using keyword fallback:', error)
+    }
+  }
+
+  const info = await extractInfoWithRegex(description, options.signal)
+  options.onSource?.({ provider: 'template' })
+  return info
+}
+
+/**
+ * The brief a project's documents were generated from, so regenerations stay consistent.
+ * Projects saved before briefs existed are re-analyzed from their description.
+ */
+export const getProjectBrief = async (project: Pick<Project, 'title' | 'description' | 'brief'>, options: GenerationOptions = {}): Promise<ExtractedInfo> => {
+  if (project.brief) {
+    return project.brief
+  }
+
+  const info = await extractInfo(project.description, options)
+  return { ...info, projectName: project.title || info.projectName }
+}
+
+const extractInfoWithRegex = async (description: string, signal?: AbortSignal): Promise<ExtractedInfo> => {
   const lines = description.split('\n').filter(l => l && l.trim())
-  const projectName = await suggestProjectName(description)
+  const projectName = await suggestProjectName(description, signal)
   
   const descriptionLower = description.toLowerCase()
   
@@ -486,7 +709,7 @@ export const extractInfo = async (description: string): Promise<ExtractedInfo> =
   }
 }
 
-export const generatePRD = async (info: ExtractedInfo, description: string): Promise<string> => {
+export const generatePRD = async (info: ExtractedInfo, description: string, options: GenerationOptions = {}): Promise<string> => {
   // Use AI if available
   console.log('📝 Generating PRD...', { aiAvailable: isAIAvailable() })
   if (isAIAvailable()) {
@@ -545,15 +768,16 @@ Use proper markdown formatting with:
 - Code blocks for technical details
 - Tables where appropriate`
 
-      const result = await generateWithAI({
+      const result = await generateDocumentWithAI({
         systemPrompt,
         userPrompt,
         temperature: 0.7,
         maxTokens: 2500,
-      })
+      }, options)
       console.log('✅ AI PRD generated successfully', { length: result.length })
       return result
     } catch (error) {
+      if (isAbortError(error)) throw error
       console.error('❌ AI generation failed, using template fallback:', error)
       console.error('Error details:', error instanceof Error ? error.message : String(error))
       // Fall through to template
@@ -564,7 +788,7 @@ Use proper markdown formatting with:
 
   // Template fallback
   console.log('📄 Using template fallback for PRD')
-  return `# Product Requirements Document: ${info.projectName}
+  return emitTemplate(`# Product Requirements Document: ${info.projectName}
 
 ## 1. Overview
 ${description}
@@ -613,10 +837,10 @@ ${Array.isArray(info.features) ? info.features.map(f => `- ${f}`).join('\n') : '
 - Technical dependencies: Third-party APIs, libraries
 - Resource dependencies: Development team, infrastructure
 - Risks: Timeline delays, scope creep, technical challenges
-- Mitigation: Regular reviews, agile methodology, clear communication`
+- Mitigation: Regular reviews, agile methodology, clear communication`, options)
 }
 
-export const generateDesignPrompt = async (info: ExtractedInfo, description: string): Promise<string> => {
+export const generateDesignPrompt = async (info: ExtractedInfo, description: string, options: GenerationOptions = {}): Promise<string> => {
   // Use AI if available
   if (isAIAvailable()) {
     try {
@@ -666,20 +890,21 @@ Generate a detailed design prompt with the following structure:
 
 Use proper markdown formatting with clear headings, bullet points, and organized sections.`
 
-      return await generateWithAI({
+      return await generateDocumentWithAI({
         systemPrompt,
         userPrompt,
         temperature: 0.8,
         maxTokens: 2000,
-      })
+      }, options)
     } catch (error) {
+      if (isAbortError(error)) throw error
       console.warn('AI generation failed, using template fallback:', error)
       // Fall through to template
     }
   }
 
   // Template fallback
-  return `# Design Prompt: ${info.projectName}
+  return emitTemplate(`# Design Prompt: ${info.projectName}
 
 ## Project Description
 ${description}
@@ -752,10 +977,10 @@ The design should:
 - Maintain consistency across all screens
 - Meet accessibility standards (WCAG 2.1 AA)
 - Be implementable within technical constraints
-- Provide an excellent user experience across devices`
+- Provide an excellent user experience across devices`, options)
 }
 
-export const generateUserStories = async (info: ExtractedInfo, description: string): Promise<string> => {
+export const generateUserStories = async (info: ExtractedInfo, description: string, options: GenerationOptions = {}): Promise<string> => {
   // Use AI if available
   if (isAIAvailable()) {
     try {
@@ -788,8 +1013,9 @@ Generate comprehensive user stories with the following structure:
 - [Another criterion]
 
 **Priority:** [High/Medium/Low]
+**Story Points:** [1/2/3/5/8/13]
 
-[Repeat for each major feature]
+[Repeat for each major feature, keeping one story per ### heading so stories can be exported to issue trackers]
 
 ## Priority Breakdown
 - **High Priority:** [List high priority stories]
@@ -801,13 +1027,14 @@ Generate comprehensive user stories with the following structure:
 
 Use proper markdown formatting with clear headings, bold text for emphasis, and organized bullet points.`
 
-      return await generateWithAI({
+      return await generateDocumentWithAI({
         systemPrompt,
         userPrompt,
         temperature: 0.7,
         maxTokens: 2000,
-      })
+      }, options)
     } catch (error) {
+      if (isAbortError(error)) throw error
       console.warn('AI generation failed, using template fallback:', error)
       // Fall through to template
     }
@@ -823,11 +1050,14 @@ Use proper markdown formatting with clear headings, bold text for emphasis, and
 - Acceptance criteria: Feature is accessible and easy to use
 - Acceptance criteria: Feature works reliably without errors
 - Acceptance criteria: Feature provides clear feedback on actions
-- Acceptance criteria: Feature is responsive and performs well`)
+- Acceptance criteria: Feature is responsive and performs well
+
+**Priority:** ${index < 3 ? 'High' : 'Medium'}
+**Story Points:** ${index < 3 ? 5 : 3}`)
     }
   })
   
-  return `# User Stories: ${info.projectName}
+  return emitTemplate(`# User Stories: ${info.projectName}
 
 ## Project Overview
 ${description}
@@ -851,10 +1081,10 @@ ${Array.isArray(stories) ? stories.join('\n\n') : '- User story placeholder'}
 - Code is reviewed and approved
 - Documentation is updated
 - Feature is deployed to production
-- User acceptance testing is complete`
+- User acceptance testing is complete`, options)
 }
 
-export const generateSpecs = async (info: ExtractedInfo, description: string): Promise<string> => {
+export const generateSpecs = async (info: ExtractedInfo, description: string, options: GenerationOptions = {}): Promise<string> => {
   // Use AI if available
   if (isAIAvailable()) {
     try {
@@ -915,20 +1145,21 @@ Use proper markdown formatting with:
 - Bullet points for lists
 - Bold text for important terms`
 
-      return await generateWithAI({
+      return await generateDocumentWithAI({
         systemPrompt,
         userPrompt,
         temperature: 0.6,
         maxTokens: 2500,
-      })
+      }, options)
     } catch (error) {
+      if (isAbortError(error)) throw error
       console.warn('AI generation failed, using template fallback:', error)
       // Fall through to template
     }
   }
 
   // Template fallback
-  return `# Technical Specifications: ${info.projectName}
+  return emitTemplate(`# Technical Specifications: ${info.projectName}
 
 ## Overview
 ${description}
@@ -966,19 +1197,10 @@ ${description}
 
 ## Database Schema
 
-### Users Table
-- id (UUID, Primary Key)
-- email (String, Unique, Indexed)
-- password_hash (String)
-- created_at (Timestamp)
-- updated_at (Timestamp)
+${buildDataModelTemplate(info).entities.map(entity => `### ${toTableName(entity.name)} Table
+${entity.fields.map(field => `- ${field.name} (${[field.type, field.primaryKey ? 'Primary Key' : '', field.unique ? 'Unique' : '', field.nullable ? 'Nullable' : ''].filter(Boolean).join(', ')})`).join('\n')}`).join('\n\n')}
 
-### Core Data Table
-- id (UUID, Primary Key)
-- user_id (UUID, Foreign Key)
-- data (JSON)
-- created_at (Timestamp)
-- updated_at (Timestamp)
+See the Data Model document for relations, indexes and the PostgreSQL and Prisma schemas.
 
 ## Performance Requirements
 - **Response Time**: API endpoints should respond within 200ms (p95)
@@ -997,6 +1219,437 @@ ${description}
 - **Environment**: Production, Staging, Development
 - **CI/CD**: Automated testing and deployment pipeline
 - **Monitoring**: Application performance monitoring and error tracking
-- **Backup**: Regular automated backups with point-in-time recovery`
+- **Backup**: Regular automated backups with point-in-time recovery`, options)
+}
+
+// Keeps prompts within small context windows; the endpoints and tables come early in the Specs
+const MAX_SPECS_CONTEXT = 8000
+
+const FIELD_TYPE_LIST = FIELD_TYPES.map(type => `"${type}"`).join(' | ')
+
+// Entity names are singular PascalCase, e.g. "Expense tracking" becomes ExpenseTracking
+const toEntityName = (feature: string): string => {
+  const words = feature.split(/[^A-Za-z0-9]+/).filter(Boolean).slice(0, 3)
+  const name = words.map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()).join('')
+  return /^[A-Za-z]/.test(name) ? name.replace(/([^siu])s$/, '$1') : ''
+}
+
+const timestampFields = [
+  { name: 'createdAt', type: 'timestamp' as const, default: 'now()' },
+  { name: 'updatedAt', type: 'timestamp' as const, default: 'now()' },
+]
+
+/**
+ * A users table plus one owned table per key feature, used when no AI provider answers
+ */
+const buildDataModelTemplate = (info: ExtractedInfo): DataModel => {
+  const entities: DataModelEntity[] = [{
+    name: 'User',
+    description: `People who use ${info.projectName || 'the product'}`,
+    fields: [
+      { name: 'id', type: 'uuid', primaryKey: true, default: 'gen_random_uuid()' },
+      { name: 'email', type: 'string', unique: true },
+      { name: 'name', type: 'string', nullable: true },
+      ...timestampFields,
+    ],
+  }]
+
+  info.features.slice(0, 5).forEach(feature => {
+    const name = toEntityName(feature)
+    if (!name || entities.some(entity => entity.name === name)) return
+    entities.push({
+      name,
+      description: feature,
+      fields: [
+        { name: 'id', type: 'uuid', primaryKey: true, default: 'gen_random_uuid()' },
+        { name: 'userId', type: 'uuid' },
+        { name: 'title', type: 'string' },
+        { name: 'details', type: 'text', nullable: true },
+        { name: 'status', type: 'string', default: "'active'" },
+        ...timestampFields,
+      ],
+      indexes: [{ fields: ['status'] }],
+    })
+  })
+
+  return {
+    entities,
+    relations: entities.slice(1).map(entity => ({ from: 'User', to: entity.name, type: 'one-to-many' as const, foreignKey: 'userId' })),
+  }
+}
+
+/**
+ * Generate the project's data model as structured JSON (entities, fields, relations and indexes).
+ * AI answers are validated and re-asked once with their errors, as with the brief extraction
+ */
+export const generateDataModel = async (info: ExtractedInfo, description: string, specs: string, options: GenerationOptions = {}): Promise<string> => {
+  if (isAIAvailable()) {
+    try {
+      const systemPrompt = `You are an expert database designer. Respond with a single JSON object and nothing else: no markdown, no code fences, no commentary.
+
+The object must have this shape:
+{
+  "entities": [{
+    "name": string,           // Singular PascalCase, e.g. "OrderItem"
+    "description": string,
+    "fields": [{ "name": string, "type": ${FIELD_TYPE_LIST}, "primaryKey"?: boolean, "nullable"?: boolean, "unique"?: boolean, "default"?: string }],
+    "indexes"?: [{ "fields": string[], "unique"?: boolean }]
+  }],
+  "relations": [{
+    "from": string,           // Entity on the "one" side
+    "to": string,             // Entity on the "one" or "many" side
+    "type": "one-to-one" | "one-to-many" | "many-to-many",
+    "foreignKey"?: string     // Field on "to" that references from's primary key; required unless many-to-many
+  }]
+}
+
+Field names are camelCase. Every entity has exactly one primary key field. Defaults are SQL expressions such as now() or 'draft'.`
+      const userPrompt = `Design the data model for the following project:
+
+**Project Name:** ${info.projectName || 'Untitled Project'}
+**Description:** ${description || 'No description provided'}
+
+**Key Features:** ${Array.isArray(info.features) ? info.features.join(', ') : 'Core functionality'}
+**Target Users:** ${Array.isArray(info.targetUsers) ? info.targetUsers.join(', ') : 'End users'}
+
+${specs.trim() ? `Keep it consistent with these technical specifications:
+
+${specs.slice(0, MAX_SPECS_CONTEXT)}` : 'Cover the data each key feature needs.'}`
+
+      const model = await generateValidated(
+        { systemPrompt, userPrompt, temperature: 0.3, maxTokens: 3000, label: 'data model', format: 'JSON object' },
+        content => {
+          const { model, errors } = validateDataModel(parseJSON(content))
+          return { value: model, errors }
+        },
+        options
+      )
+      return stringifyDataModel(model)
+    } catch (error) {
+      if (isAbortError(error)) throw error
+      console.warn('AI generation failed, using template fallback:', error)
+      // Fall through to template
+    }
+  }
+
+  return emitTemplate(stringifyDataModel(buildDataModelTemplate(info)), options)
+}
+
+const toPascalCase = (text: string): string =>
+  text.split(/[^A-Za-z0-9]+/).filter(Boolean).map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()).join('')
+
+/**
+ * Endpoints listed in the Specs as "GET /api/items/:id - Description", falling back to
+ * CRUD routes for the first few features when the Specs don't name any
+ */
+const findSpecEndpoints = (info: ExtractedInfo, specs: string): Array<{ method: HTTPMethod; path: string; summary?: string }> => {
+  const endpoints = Array.from(
+    specs.matchAll(/\b(GET|POST|PUT|PATCH|DELETE)\s+`?(\/[\w\-/{}:.]*)`?(?:\s*[-–—:]\s*([^\n]+))?/g),
+    match => ({
+      method: match[1].toLowerCase() as HTTPMethod,
+      path: match[2].replace(/\/$/, '').replace(/:(\w+)/g, '{$1}') || '/',
+      summary: match[3]?.replace(/[*`]/g, '').trim(),
+    })
+  ).filter((endpoint, index, all) => all.findIndex(other => other.method === endpoint.method && other.path === endpoint.path) === index)
+
+  if (endpoints.length > 0) return endpoints
+
+  return info.features.slice(0, 5).flatMap(feature => {
+    const slug = feature.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 30) || 'items'
+    return [
+      { method: 'get' as const, path: `/api/${slug}`, summary: `List ${feature.toLowerCase()}` },
+      { method: 'post' as const, path: `/api/${slug}`, summary: `Create ${feature.toLowerCase()}` },
+      { method: 'get' as const, path: `/api/${slug}/{id}`, summary: `Get one ${feature.toLowerCase()}` },
+      { method: 'put' as const, path: `/api/${slug}/{id}`, summary: `Update ${feature.toLowerCase()}` },
+      { method: 'delete' as const, path: `/api/${slug}/{id}`, summary: `Delete ${feature.toLowerCase()}` },
+    ]
+  })
+}
+
+/**
+ * Build a valid OpenAPI 3.1 document from the endpoints in the Specs, with a schema per resource
+ */
+const buildOpenAPITemplate = (info: ExtractedInfo, description: string, specs: string): string => {
+  const endpoints = findSpecEndpoints(info, specs)
+  const paths: Record<string, Record<string, unknown>> = {}
+  const schemas: Record<string, unknown> = {
+    Error: {
+      type: 'object',
+      required: ['message'],
+      properties: { message: { type: 'string' } },
+    },
+  }
+  const operationIds = new Set<string>()
+
+  endpoints.forEach(({ method, path, summary }) => {
+    // The first segment after an /api or /v1 prefix names the resource
+    const segments = path.split('/').filter(segment => segment && !/^\{/.test(segment))
+    const resource = segments.find(segment => !/^(api|v\d+)$/i.test(segment)) || 'root'
+    const schemaName = toPascalCase(resource) || 'Item'
+    schemas[schemaName] ??= {
+      type: 'object',
+      properties: {
+        id: { type: 'string', format: 'uuid', readOnly: true },
+        createdAt: { type: 'string', format: 'date-time', readOnly: true },
+        updatedAt: { type: 'string', format: 'date-time', readOnly: true },
+      },
+    }
+
+    const baseId = `${method}${segments.map(toPascalCase).join('')}${path.endsWith('}') ? 'ById' : ''}`
+    let operationId = baseId
+    for (let suffix = 2; operationIds.has(operationId); suffix++) operationId = `${baseId}${suffix}`
+    operationIds.add(operationId)
+
+    const schemaRef = { $ref: `#/components/schemas/${schemaName}` }
+    const isItem = /\{[^}]+\}/.test(path)
+    // Only GET on the resource itself lists it; /auth/me and the like return one object
+    const isList = method === 'get' && !isItem && segments[segments.length - 1] === resource
+    const json = (schema: unknown) => ({ 'application/json': { schema } })
+    const responses: Record<string, unknown> = method === 'post'
+      ? { '201': { description: 'Created', content: json(schemaRef) }, '400': { $ref: '#/components/responses/BadRequest' } }
+      : method === 'delete'
+        ? { '204': { description: 'Deleted' } }
+        : { '200': { description: 'OK', content: json(isList ? { type: 'array', items: schemaRef } : schemaRef) } }
+    if (isItem) responses['404'] = { $ref: '#/components/responses/NotFound' }
+    if ((method === 'put' || method === 'patch') && !responses['400']) responses['400'] = { $ref: '#/components/responses/BadRequest' }
+
+    paths[path] ??= {}
+    paths[path][method] = {
+      summary: summary || `${method.toUpperCase()} ${path}`,
+      operationId,
+      tags: [resource],
+      ...(isItem
+        ? {
+            parameters: Array.from(path.matchAll(/\{([^}]+)\}/g), match => ({
+              name: match[1],
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+            })),
+          }
+        : {}),
+      ...(['post', 'put', 'patch'].includes(method) ? { requestBody: { required: true, content: json(schemaRef) } } : {}),
+      responses,
+    }
+  })
+
+  const errorResponse = (text: string) => ({ description: text, content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } } })
+
+  return stringifyYAML({
+    openapi: '3.1.0',
+    info: {
+      title: `${info.projectName || 'Untitled Project'} API`,
+      version: '1.0.0',
+      ...(description ? { description: description.slice(0, 500) } : {}),
+    },
+    servers: [{ url: 'http://localhost:3000', description: 'Local development' }],
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      schemas,
+      responses: {
+        BadRequest: errorResponse('The request body is invalid'),
+        NotFound: errorResponse('The resource does not exist'),
+      },
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+    },
+  })
+}
+
+// Models often fence YAML even when asked not to
+const stripYAMLFence = (text: string): string => text.trim().replace(/^```(?:ya?ml)?\s*\n([\s\S]*?)\n```$/i, '$1').trim()
+
+/**
+ * Generate an OpenAPI 3.1 document in YAML from the brief and the Specs document. AI answers
+ * are validated and re-asked once with their problems; the template fallback is built from
+ * the endpoints the Specs list
+ */
+export const generateOpenAPI = async (info: ExtractedInfo, description: string, specs: string, options: GenerationOptions = {}): Promise<string> => {
+  if (isAIAvailable()) {
+    try {
+      const systemPrompt = `You are an expert API designer. Respond with a single OpenAPI 3.1 document in YAML and nothing else: no markdown, no code fences, no commentary.
+
+The document must:
+- Start with "openapi: 3.1.0" and have info.title and a quoted info.version
+- Give every operation a summary, a unique operationId, tags and at least one response with a description
+- Declare every {parameter} in a path as an "in: path" parameter with "required: true"
+- Define request and response bodies as schemas under components.schemas and reference them with $ref
+- Use only block-style YAML without anchors or aliases`
+      const userPrompt = `Write the OpenAPI specification for the following project:
+
+**Project Name:** ${info.projectName || 'Untitled Project'}
+**Description:** ${description || 'No description provided'}
+
+**Key Features:** ${Array.isArray(info.features) ? info.features.join(', ') : 'Core functionality'}
+**Tech Stack:** ${Array.isArray(info.techStack) ? info.techStack.join(', ') : 'Modern technologies'}
+
+${specs.trim() ? `Cover the API described in these technical specifications:
+
+${specs.slice(0, MAX_SPECS_CONTEXT)}` : 'Design a REST API covering the key features.'}`
+
+      const content = await generateValidated(
+        { systemPrompt, userPrompt, temperature: 0.3, maxTokens: 4000, label: 'OpenAPI document', format: 'OpenAPI YAML' },
+        answer => {
+          const yaml = stripYAMLFence(answer)
+          const { problems } = validateOpenAPI(yaml)
+          return { value: problems.length === 0 ? yaml : null, errors: problems }
+        },
+        options
+      )
+      return `${content}\n`
+    } catch (error) {
+      if (isAbortError(error)) throw error
+      console.warn('AI generation failed, using template fallback:', error)
+      // Fall through to template
+    }
+  }
+
+  return emitTemplate(buildOpenAPITemplate(info, description, specs), options)
+}
+
+/**
+ * Ask the AI for the site flow of a PRD: pages, backend services and the transitions between them.
+ * Throws when AI is unavailable or never returns a valid flow, so the caller can fall back to its own
+ */
+export const generateSiteFlow = async (prd: string, description: string, options: GenerationOptions = {}): Promise<GeneratedSiteFlow> => {
+  if (!isAIAvailable()) throw new Error('AI is not configured')
+
+  const systemPrompt = `You are an expert UX architect. Respond with a single JSON object and nothing else: no markdown, no code fences, no commentary.
+
+The object must have this shape:
+{
+  "nodes": [{
+    "id": string,             // Short and unique, e.g. "home" or "checkout"
+    "name": string,           // Title Case, e.g. "Order History"
+    "type": ${SITE_FLOW_NODE_TYPES.map(type => `"${type}"`).join(' | ')},
+    "description": string     // One short sentence
+  }],
+  "connections": [{
+    "from": string,           // Node id
+    "to": string,             // Node id
+    "type": ${SITE_FLOW_CONNECTION_TYPES.map(type => `"${type}"`).join(' | ')}
+  }]
+}
+
+Start with a single "trigger" node for the site entry. Use "page", "form" and "auth" for what users see, and "api", "database", "payment", "notification", "integration", "analytics" or "webhook" for the backend services those screens call. Connections are the transitions a user or request takes; use "failure" for error paths and "conditional" for branches. Keep it to ${MAX_SITE_FLOW_NODES} nodes or fewer and make every node reachable from the entry.`
+  const userPrompt = `Map the site flow of the following project.
+
+**Description:** ${description || 'No description provided'}
+
+${prd.trim() ? `**Product Requirements Document:**
+
+${prd.slice(0, MAX_SPECS_CONTEXT)}` : 'Cover the pages and services the description needs.'}`
+
+  return generateValidated(
+    { systemPrompt, userPrompt, temperature: 0.3, maxTokens: 2500, label: 'site flow', format: 'JSON object' },
+    content => {
+      const { flow, errors } = validateSiteFlow(parseJSON(content))
+      return { value: flow, errors }
+    },
+    options
+  )
+}
+
+// Models sometimes wrap a rewritten section in a markdown code fence
+const stripCodeFence = (text: string): string => text.trim().replace(/^```(?:markdown|md)?\s*\n([\s\S]*?)\n```$/i, '$1').trim()
+
+const stripJSONFence = (text: string): string => text.trim().replace(/^```(?:json)?\s*\n([\s\S]*?)\n```$/i, '$1').trim()
+
+/**
+ * Rewrite one section of a generated document, using the rest of the document
+ * as context, and return the document with the new section spliced in
+ */
+export const regenerateSection = async (
+  document: { type: string; content: string },
+  section: MarkdownSection,
+  info: ExtractedInfo | undefined,
+  options: GenerationOptions = {}
+): Promise<string> => {
+  if (!isAIAvailable()) {
+    throw new Error('Section regeneration requires an AI provider. Please configure VITE_AI_API_KEY.')
+  }
+
+  const headingLine = section.content.split('\n')[0]
+  const briefSummary = info
+    ? `**Project:** ${info.projectName}
+**Features:** ${info.features.join(', ') || 'Not specified'}
+**Target Users:** ${info.targetUsers.join(', ') || 'Not specified'}
+**Goals:** ${info.goals.join(', ') || 'Not specified'}
+**Tech Stack:** ${info.techStack.join(', ') || 'Not specified'}
+
+`
+    : ''
+
+  const systemPrompt = `You are an expert technical writer revising a ${document.type} document. Rewrite only the section you are asked for, keeping it consistent with the rest of the document. Use proper markdown formatting and respond with the rewritten section only.`
+
+  const userPrompt = `${briefSummary}**Full document for context:**
+
+${document.content}
+
+---
+
+Rewrite the "${section.heading}" section, which currently reads:
+
+${section.content}
+
+Make it more specific, complete and actionable. Start your answer with the exact heading line "${headingLine}" and keep any subsections at the same heading levels.`
+
+  const rewritten = stripCodeFence(await generateDocumentWithAI({
+    systemPrompt,
+    userPrompt,
+    temperature: 0.7,
+    maxTokens: 1500,
+  }, options))
+
+  if (!rewritten) {
+    throw new Error(`The AI returned an empty "${section.heading}" section`)
+  }
+
+  // Keep the original heading so the document outline stays intact
+  const body = rewritten.startsWith('#') ? rewritten.split('\n').slice(1).join('\n') : rewritten
+  return replaceSection(document.content, section, `${headingLine}\n${body.replace(/^\n+/, '')}`)
 }
 
+/**
+ * Revise a whole document following a free-text instruction
+ * (e.g. "make acceptance criteria Gherkin") and return the revised document
+ */
+export const refineDocument = async (
+  document: { type: string; content: string },
+  instruction: string,
+  info: ExtractedInfo | undefined,
+  options: GenerationOptions = {}
+): Promise<string> => {
+  if (!isAIAvailable()) {
+    throw new Error('Refining documents requires an AI provider. Please configure VITE_AI_API_KEY.')
+  }
+
+  // OpenAPI documents are YAML and Data Model documents JSON, rather than markdown
+  const isOpenAPI = document.type === 'OpenAPI'
+  const isDataModel = document.type === 'Data Model'
+  const preserved = isOpenAPI ? 'paths, operation IDs and schemas' : isDataModel ? 'entities, fields and relations' : 'headings and structure'
+  const format = isOpenAPI ? 'as OpenAPI 3.1 YAML' : isDataModel ? 'as a JSON object of the same shape' : 'in markdown'
+  const systemPrompt = `You are an expert technical writer revising a ${document.type} document. Apply the requested change throughout the document while preserving everything the instruction does not ask you to change, including ${preserved}. Respond with the complete revised document ${format} and nothing else.`
+
+  const userPrompt = `${info ? `**Project:** ${info.projectName}\n\n` : ''}**Instruction:** ${instruction.trim()}
+
+**Current document:**
+
+${document.content}`
+
+  const refined = (isOpenAPI ? stripYAMLFence : isDataModel ? stripJSONFence : stripCodeFence)(await generateDocumentWithAI({
+    systemPrompt,
+    userPrompt,
+    temperature: 0.5,
+    // Leave room for the whole document to be rewritten
+    maxTokens: Math.max(2500, Math.ceil(document.content.length / 3)),
+  }, options))
+
+  if (!refined) {
+    throw new Error('The AI returned an empty document')
+  }
+
+  return refined
+}
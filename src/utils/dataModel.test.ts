@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest'
+import { validateDataModel, parseDataModel, stringifyDataModel, toTableName, toPostgresDDL, toPrismaSchema, type DataModel } from './dataModel'
+
+const MODEL: DataModel = {
+  entities: [
+    {
+      name: 'User',
+      description: 'People who sign in',
+      fields: [
+        { name: 'id', type: 'uuid', primaryKey: true, default: 'gen_random_uuid()' },
+        { name: 'email', type: 'string', unique: true },
+        { name: 'createdAt', type: 'timestamp', default: 'now()' },
+      ],
+    },
+    {
+      name: 'TaskCategory',
+      fields: [
+        { name: 'id', type: 'uuid', primaryKey: true },
+        { name: 'ownerId', type: 'uuid' },
+        { name: 'label', type: 'string', nullable: true, default: "'inbox'" },
+      ],
+      indexes: [{ fields: ['ownerId', 'label'], unique: true }],
+    },
+  ],
+  relations: [{ from: 'User', to: 'TaskCategory', type: 'one-to-many', foreignKey: 'ownerId' }],
+}
+
+describe('validateDataModel', () => {
+  it('accepts a valid model and round-trips it through its document text', () => {
+    expect(validateDataModel(MODEL)).toEqual({ model: MODEL, errors: [] })
+    expect(parseDataModel(stringifyDataModel(MODEL)).model).toEqual(MODEL)
+  })
+
+  it('coerces type aliases, non-string defaults and a missing relations list', () => {
+    const { model } = validateDataModel({
+      entities: [{ name: 'Post', fields: [{ name: 'id', type: 'SERIAL', primaryKey: true }, { name: 'title', type: 'varchar(120)' }, { name: 'draft', type: 'bool', default: true }] }],
+    })
+    expect(model).toEqual({
+      entities: [{ name: 'Post', fields: [{ name: 'id', type: 'integer', primaryKey: true }, { name: 'title', type: 'string' }, { name: 'draft', type: 'boolean', default: 'true' }] }],
+      relations: [],
+    })
+  })
+
+  it('lists every problem it finds', () => {
+    const { model, errors } = validateDataModel({
+      entities: [
+        { name: 'Bad Name', fields: [] },
+        { name: 'Post', fields: [{ name: 'title', type: 'varchar' }, { name: 'body', type: 'blob' }], indexes: [{ fields: ['missing'] }] },
+        { name: 'Post', fields: [{ name: 'id', type: 'uuid', primaryKey: true }] },
+      ],
+      relations: [
+        { from: 'Post', to: 'Comment', type: 'one-to-many' },
+        { from: 'Post', to: 'Post', type: 'one-to-many', foreignKey: 'authorId' },
+        { from: 'Post', to: 'Post', type: 'some' },
+      ],
+    })
+    expect(model).toBeNull()
+    expect(errors).toEqual([
+      'entities[0] needs a "name" made of letters, digits and underscores',
+      'Post.body has an unknown type "blob" (use one of uuid, string, text, integer, bigint, decimal, float, boolean, date, timestamp, json)',
+      'Entity "Post" needs a primary key field',
+      'Post.indexes[0] must list existing fields (unknown: missing)',
+      'Entity "Post" is defined more than once',
+      'relations[0] refers to an unknown entity "Comment"',
+      'relations[1] needs a "foreignKey" that is a field of Post',
+      'relations[2] must have a type of one-to-one, one-to-many, many-to-many',
+    ])
+  })
+
+  it('reports text that is not JSON', () => {
+    expect(parseDataModel('entities:').errors[0]).toMatch(/^The data model is not valid JSON/)
+  })
+})
+
+// Descriptions and defaults as they might come back from an AI or a hand edit
+const UNSAFE_MODEL: DataModel = {
+  entities: [{
+    name: 'Note',
+    description: 'Notes\nDROP TABLE users;',
+    fields: [
+      { name: 'id', type: 'integer', primaryKey: true, default: '0; DROP TABLE users' },
+      { name: 'body', type: 'text', default: "it's" },
+      { name: 'pinned', type: 'boolean', default: 'TRUE' },
+      { name: 'title', type: 'string', default: "'draft'" },
+    ],
+  }],
+  relations: [],
+}
+
+describe('toTableName', () => {
+  it('names tables in snake_case plural', () => {
+    expect(['User', 'TaskCategory', 'Address', 'Box', 'Key'].map(toTableName)).toEqual(['users', 'task_categories', 'addresses', 'boxes', 'keys'])
+  })
+})
+
+describe('toPostgresDDL', () => {
+  it('creates tables first, then foreign keys and indexes', () => {
+    expect(toPostgresDDL(MODEL)).toBe(`-- People who sign in
+CREATE TABLE "users" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "email" VARCHAR(255) NOT NULL UNIQUE,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE "task_categories" (
+  "id" UUID PRIMARY KEY,
+  "owner_id" UUID NOT NULL,
+  "label" VARCHAR(255) DEFAULT 'inbox'
+);
+
+ALTER TABLE "task_categories" ADD FOREIGN KEY ("owner_id") REFERENCES "users" ("id");
+CREATE INDEX ON "task_categories" ("owner_id");
+
+CREATE UNIQUE INDEX ON "task_categories" ("owner_id", "label");
+`)
+  })
+
+  it('adds a join table for many-to-many relations', () => {
+    const ddl = toPostgresDDL({ ...MODEL, relations: [{ from: 'User', to: 'TaskCategory', type: 'many-to-many' }] })
+    expect(ddl).toContain('CREATE TABLE "user_task_categories" (\n  "user_id" UUID NOT NULL REFERENCES "users" ("id") ON DELETE CASCADE,')
+    expect(ddl).toContain('  PRIMARY KEY ("user_id", "task_category_id")')
+  })
+
+  it('keeps descriptions on one comment line and quotes defaults that are not valid for the field type', () => {
+    const ddl = toPostgresDDL(UNSAFE_MODEL)
+    expect(ddl).toContain('-- Notes DROP TABLE users;\nCREATE TABLE "notes" (')
+    expect(ddl).toContain(`"id" INTEGER PRIMARY KEY DEFAULT '0; DROP TABLE users',`)
+    expect(ddl).toContain(`"body" TEXT NOT NULL DEFAULT 'it''s',`)
+    expect(ddl).toContain('"pinned" BOOLEAN NOT NULL DEFAULT true,')
+    expect(ddl).toContain(`"title" VARCHAR(255) NOT NULL DEFAULT 'draft'`)
+  })
+})
+
+describe('toPrismaSchema', () => {
+  it('maps fields, defaults and column names, with relation fields on both sides', () => {
+    const schema = toPrismaSchema(MODEL)
+    expect(schema).toContain('  id String @id @default(uuid()) @db.Uuid')
+    expect(schema).toContain('  createdAt DateTime @default(now()) @map("created_at")')
+    expect(schema).toContain('  label String? @default("inbox")')
+    expect(schema).toContain('  taskCategories TaskCategory[] @relation("UserTaskCategory")')
+    expect(schema).toMatch(/ User @relation\("UserTaskCategory", fields: \[ownerId\], references: \[id\]\)/)
+    expect(schema).toContain('@@map("task_categories")')
+  })
+
+  it('keeps descriptions on one doc comment line and never turns a default into SQL', () => {
+    const schema = toPrismaSchema(UNSAFE_MODEL)
+    expect(schema).toContain('/// Notes DROP TABLE users;\nmodel Note {')
+    expect(schema).toContain('  id Int @id @default("0; DROP TABLE users")')
+    expect(schema).toContain(`  body String @default("it's") @db.Text`)
+    expect(schema).toContain('  pinned Boolean @default(true)')
+    expect(schema).not.toContain('dbgenerated')
+  })
+})
@@ -0,0 +1,409 @@
+export const FIELD_TYPES = ['uuid', 'string', 'text', 'integer', 'bigint', 'decimal', 'float', 'boolean', 'date', 'timestamp', 'json'] as const
+
+export type FieldType = typeof FIELD_TYPES[number]
+
+export type DataModelField = {
+  name: string
+  type: FieldType
+  primaryKey?: boolean
+  nullable?: boolean
+  unique?: boolean
+  default?: string // now() or a similar function, or a literal such as 'draft' or 0; exports quote anything else
+}
+
+export type DataModelIndex = {
+  fields: string[]
+  unique?: boolean
+}
+
+export type DataModelEntity = {
+  name: string // PascalCase, singular; tables are named in snake_case plural
+  description?: string
+  fields: DataModelField[]
+  indexes?: DataModelIndex[]
+}
+
+/**
+ * "from has one/many to". The foreign key lives on `to` and points at from's primary key;
+ * many-to-many relations get a join table instead
+ */
+export type DataModelRelation = {
+  from: string
+  to: string
+  type: 'one-to-one' | 'one-to-many' | 'many-to-many'
+  foreignKey?: string
+}
+
+export type DataModel = {
+  entities: DataModelEntity[]
+  relations: DataModelRelation[]
+}
+
+export type DataModelExportFormat = 'PostgreSQL' | 'Prisma'
+
+export const DATA_MODEL_EXPORT_FORMATS: DataModelExportFormat[] = ['PostgreSQL', 'Prisma']
+
+// Appended to the document's file name
+export const DATA_MODEL_EXPORT_FILES: Record<DataModelExportFormat, string> = {
+  PostgreSQL: '.sql',
+  Prisma: '.prisma',
+}
+
+export const isDataModelExportFormat = (format: string): format is DataModelExportFormat => format in DATA_MODEL_EXPORT_FILES
+
+const RELATION_TYPES: DataModelRelation['type'][] = ['one-to-one', 'one-to-many', 'many-to-many']
+
+// Types models and people commonly write instead of the ones above
+const TYPE_ALIASES: Record<string, FieldType> = {
+  varchar: 'string',
+  char: 'string',
+  int: 'integer',
+  smallint: 'integer',
+  serial: 'integer',
+  number: 'integer',
+  bigserial: 'bigint',
+  long: 'bigint',
+  numeric: 'decimal',
+  money: 'decimal',
+  double: 'float',
+  real: 'float',
+  bool: 'boolean',
+  datetime: 'timestamp',
+  timestamptz: 'timestamp',
+  jsonb: 'json',
+  object: 'json',
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const toFieldType = (value: unknown): FieldType | null => {
+  if (typeof value !== 'string') return null
+  const type = value.trim().toLowerCase().replace(/\(.*\)$/, '')
+  return (FIELD_TYPES as readonly string[]).includes(type) ? type as FieldType : TYPE_ALIASES[type] || null
+}
+
+/**
+ * Check a parsed value against the DataModel shape, coercing near misses
+ * (type aliases like varchar or datetime, a missing relations list)
+ */
+export const validateDataModel = (value: unknown): { model: DataModel | null; errors: string[] } => {
+  if (!isObject(value) || !Array.isArray(value.entities)) {
+    return { model: null, errors: ['The data model must be an object with an "entities" array'] }
+  }
+
+  const errors: string[] = []
+  const entities: DataModelEntity[] = []
+
+  value.entities.forEach((raw, index) => {
+    if (!isObject(raw) || typeof raw.name !== 'string' || !IDENTIFIER.test(raw.name)) {
+      errors.push(`entities[${index}] needs a "name" made of letters, digits and underscores`)
+      return
+    }
+    const name = raw.name
+    if (entities.some(entity => entity.name === name)) errors.push(`Entity "${name}" is defined more than once`)
+    if (!Array.isArray(raw.fields) || raw.fields.length === 0) {
+      errors.push(`Entity "${name}" needs at least one field`)
+      return
+    }
+
+    const fields: DataModelField[] = []
+    raw.fields.forEach((field, fieldIndex) => {
+      if (!isObject(field) || typeof field.name !== 'string' || !IDENTIFIER.test(field.name)) {
+        errors.push(`${name}.fields[${fieldIndex}] needs a "name" made of letters, digits and underscores`)
+        return
+      }
+      const type = toFieldType(field.type)
+      if (!type) {
+        errors.push(`${name}.${field.name} has an unknown type "${String(field.type)}" (use one of ${FIELD_TYPES.join(', ')})`)
+        return
+      }
+      if (fields.some(existing => existing.name === field.name)) errors.push(`${name}.${field.name} is defined more than once`)
+      fields.push({
+        name: field.name,
+        type,
+        ...(field.primaryKey === true ? { primaryKey: true } : {}),
+        ...(field.nullable === true ? { nullable: true } : {}),
+        ...(field.unique === true ? { unique: true } : {}),
+        ...(typeof field.default === 'string' || typeof field.default === 'number' || typeof field.default === 'boolean' ? { default: String(field.default) } : {}),
+      })
+    })
+    if (fields.length > 0 && !fields.some(field => field.primaryKey)) errors.push(`Entity "${name}" needs a primary key field`)
+
+    const indexes = (Array.isArray(raw.indexes) ? raw.indexes : []).flatMap((index, indexPosition): DataModelIndex[] => {
+      const indexFields = isObject(index) && Array.isArray(index.fields) ? index.fields.filter((field): field is string => typeof field === 'string') : []
+      const missing = indexFields.filter(field => !fields.some(existing => existing.name === field))
+      if (indexFields.length === 0 || missing.length > 0) {
+        errors.push(`${name}.indexes[${indexPosition}] must list existing fields${missing.length > 0 ? ` (unknown: ${missing.join(', ')})` : ''}`)
+        return []
+      }
+      return [{ fields: indexFields, ...(isObject(index) && index.unique === true ? { unique: true } : {}) }]
+    })
+
+    entities.push({
+      name,
+      ...(typeof raw.description === 'string' && raw.description.trim() ? { description: raw.description.trim() } : {}),
+      fields,
+      ...(indexes.length > 0 ? { indexes } : {}),
+    })
+  })
+
+  const relations: DataModelRelation[] = []
+  ;(Array.isArray(value.relations) ? value.relations : []).forEach((relation, index) => {
+    if (!isObject(relation) || typeof relation.from !== 'string' || typeof relation.to !== 'string') {
+      errors.push(`relations[${index}] needs "from" and "to" entity names`)
+      return
+    }
+    const from = entities.find(entity => entity.name === relation.from)
+    const to = entities.find(entity => entity.name === relation.to)
+    if (!from || !to) {
+      errors.push(`relations[${index}] refers to an unknown entity "${!from ? relation.from : relation.to}"`)
+      return
+    }
+    const type = RELATION_TYPES.find(candidate => candidate === relation.type)
+    if (!type) {
+      errors.push(`relations[${index}] must have a type of ${RELATION_TYPES.join(', ')}`)
+      return
+    }
+    if (type !== 'many-to-many') {
+      if (typeof relation.foreignKey !== 'string' || !to.fields.some(field => field.name === relation.foreignKey)) {
+        errors.push(`relations[${index}] needs a "foreignKey" that is a field of ${to.name}`)
+        return
+      }
+    }
+    relations.push({ from: from.name, to: to.name, type, ...(type !== 'many-to-many' ? { foreignKey: relation.foreignKey as string } : {}) })
+  })
+
+  return errors.length > 0 ? { model: null, errors } : { model: { entities, relations }, errors }
+}
+
+/**
+ * Read a Data Model document, which stores the model as JSON
+ */
+export const parseDataModel = (content: string): { model: DataModel | null; errors: string[] } => {
+  try {
+    return validateDataModel(JSON.parse(content))
+  } catch (error) {
+    return { model: null, errors: [`The data model is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`] }
+  }
+}
+
+export const stringifyDataModel = (model: DataModel): string => `${JSON.stringify(model, null, 2)}\n`
+
+const toSnakeCase = (name: string): string => name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase()
+
+const toCamelCase = (name: string): string => name.charAt(0).toLowerCase() + name.slice(1)
+
+const pluralize = (word: string): string =>
+  /(s|x|z|ch|sh)$/.test(word) ? `${word}es` : /[^aeiou]y$/.test(word) ? `${word.slice(0, -1)}ies` : `${word}s`
+
+export const toTableName = (entity: string): string => pluralize(toSnakeCase(entity))
+
+const primaryKeyOf = (entity: DataModelEntity): DataModelField => entity.fields.find(field => field.primaryKey) || entity.fields[0]
+
+const POSTGRES_TYPES: Record<FieldType, string> = {
+  uuid: 'UUID',
+  string: 'VARCHAR(255)',
+  text: 'TEXT',
+  integer: 'INTEGER',
+  bigint: 'BIGINT',
+  decimal: 'NUMERIC(12, 2)',
+  float: 'DOUBLE PRECISION',
+  boolean: 'BOOLEAN',
+  date: 'DATE',
+  timestamp: 'TIMESTAMPTZ',
+  json: 'JSONB',
+}
+
+const quoteIdentifier = (name: string): string => `"${toSnakeCase(name)}"`
+
+// Descriptions go into line comments, so a line break must not end the comment early
+const toComment = (text: string): string => text.replace(/\s+/g, ' ').trim()
+
+// Functions a default may call; any other default is a literal
+const DEFAULT_FUNCTIONS = /^(now\(\)|current_timestamp|current_date|gen_random_uuid\(\)|uuid_generate_v4\(\))$/i
+const NUMERIC_TYPES: FieldType[] = ['integer', 'bigint', 'decimal', 'float']
+
+/**
+ * A field's default as SQL. Known functions and numbers or booleans on fields of that type are
+ * kept; everything else is quoted as a string literal, so it can never run as SQL
+ */
+const toSqlDefault = (field: DataModelField): string => {
+  const value = (field.default as string).trim()
+  if (DEFAULT_FUNCTIONS.test(value)) return value
+  if (NUMERIC_TYPES.includes(field.type) && /^-?\d+(\.\d+)?$/.test(value)) return value
+  if (field.type === 'boolean' && /^(true|false)$/i.test(value)) return value.toLowerCase()
+  const literal = /^'(?:[^']|'')*'$/.test(value) ? value.slice(1, -1).replace(/''/g, "'") : value
+  return `'${literal.replace(/'/g, "''")}'`
+}
+
+/**
+ * PostgreSQL DDL: a table per entity, then foreign keys and indexes, so tables can reference each other in any order
+ */
+export const toPostgresDDL = (model: DataModel): string => {
+  const tables = model.entities.map(entity => {
+    const columns = entity.fields.map(field => [
+      `  ${quoteIdentifier(field.name)} ${POSTGRES_TYPES[field.type]}`,
+      field.primaryKey ? ' PRIMARY KEY' : '',
+      !field.primaryKey && !field.nullable ? ' NOT NULL' : '',
+      field.unique && !field.primaryKey ? ' UNIQUE' : '',
+      field.default !== undefined ? ` DEFAULT ${toSqlDefault(field)}` : '',
+    ].join(''))
+    return [
+      ...(entity.description ? [`-- ${toComment(entity.description)}`] : []),
+      `CREATE TABLE "${toTableName(entity.name)}" (`,
+      columns.join(',\n'),
+      ');',
+    ].join('\n')
+  })
+
+  const entityNamed = (name: string) => model.entities.find(entity => entity.name === name) as DataModelEntity
+
+  const constraints = model.relations.flatMap(relation => {
+    const from = entityNamed(relation.from)
+    const to = entityNamed(relation.to)
+    if (relation.type === 'many-to-many') {
+      const joinTable = `${toSnakeCase(from.name)}_${toTableName(to.name)}`
+      const fromKey = `${toSnakeCase(from.name)}_id`
+      const toKey = `${toSnakeCase(to.name)}_id`
+      return [[
+        `CREATE TABLE "${joinTable}" (`,
+        `  "${fromKey}" ${POSTGRES_TYPES[primaryKeyOf(from).type]} NOT NULL REFERENCES "${toTableName(from.name)}" (${quoteIdentifier(primaryKeyOf(from).name)}) ON DELETE CASCADE,`,
+        `  "${toKey}" ${POSTGRES_TYPES[primaryKeyOf(to).type]} NOT NULL REFERENCES "${toTableName(to.name)}" (${quoteIdentifier(primaryKeyOf(to).name)}) ON DELETE CASCADE,`,
+        `  PRIMARY KEY ("${fromKey}", "${toKey}")`,
+        ');',
+      ].join('\n')]
+    }
+    const foreignKey = relation.foreignKey as string
+    return [
+      `ALTER TABLE "${toTableName(to.name)}" ADD FOREIGN KEY (${quoteIdentifier(foreignKey)}) REFERENCES "${toTableName(from.name)}" (${quoteIdentifier(primaryKeyOf(from).name)});`,
+      // One-to-one keeps the foreign key unique; one-to-many gets it indexed for joins
+      relation.type === 'one-to-one' && !to.fields.find(field => field.name === foreignKey)?.unique
+        ? `CREATE UNIQUE INDEX ON "${toTableName(to.name)}" (${quoteIdentifier(foreignKey)});`
+        : `CREATE INDEX ON "${toTableName(to.name)}" (${quoteIdentifier(foreignKey)});`,
+    ]
+  })
+
+  const indexes = model.entities.flatMap(entity =>
+    (entity.indexes || []).map(index =>
+      `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ON "${toTableName(entity.name)}" (${index.fields.map(quoteIdentifier).join(', ')});`
+    )
+  )
+
+  return `${[tables.join('\n\n'), constraints.join('\n'), indexes.join('\n')].filter(Boolean).join('\n\n')}\n`
+}
+
+const PRISMA_TYPES: Record<FieldType, string> = {
+  uuid: 'String',
+  string: 'String',
+  text: 'String',
+  integer: 'Int',
+  bigint: 'BigInt',
+  decimal: 'Decimal',
+  float: 'Float',
+  boolean: 'Boolean',
+  date: 'DateTime',
+  timestamp: 'DateTime',
+  json: 'Json',
+}
+
+const PRISMA_NATIVE_TYPES: Partial<Record<FieldType, string>> = {
+  uuid: '@db.Uuid',
+  text: '@db.Text',
+  decimal: '@db.Decimal(12, 2)',
+  date: '@db.Date',
+}
+
+// Prisma spells common SQL defaults as functions; other functions become dbgenerated
+const toPrismaDefault = (field: DataModelField): string => {
+  const value = toSqlDefault(field)
+  if (/^now\(\)$|^current_timestamp$/i.test(value)) return '@default(now())'
+  if (/^(gen_random_uuid|uuid_generate_v4)\(\)$/i.test(value)) return '@default(uuid())'
+  if (value.startsWith("'")) return `@default(${JSON.stringify(value.slice(1, -1).replace(/''/g, "'"))})`
+  if (DEFAULT_FUNCTIONS.test(value)) return `@default(dbgenerated(${JSON.stringify(value)}))`
+  return `@default(${value})`
+}
+
+/**
+ * Prisma schema with a model per entity and relation fields on both sides
+ */
+export const toPrismaSchema = (model: DataModel): string => {
+  const models = model.entities.map(entity => {
+    const lines = entity.fields.map(field => {
+      const attributes = [
+        field.primaryKey ? '@id' : '',
+        field.unique && !field.primaryKey ? '@unique' : '',
+        field.default !== undefined ? toPrismaDefault(field) : '',
+        field.name !== toSnakeCase(field.name) ? `@map("${toSnakeCase(field.name)}")` : '',
+        PRISMA_NATIVE_TYPES[field.type] || '',
+      ].filter(Boolean)
+      return `  ${field.name} ${PRISMA_TYPES[field.type]}${field.nullable && !field.primaryKey ? '?' : ''}${attributes.length > 0 ? ` ${attributes.join(' ')}` : ''}`
+    })
+
+    // Relation field names must be unique within the model, even with several relations to one entity
+    const used = new Set(entity.fields.map(field => field.name))
+    const fieldName = (base: string): string => {
+      let name = base
+      for (let suffix = 2; used.has(name); suffix++) name = `${base}${suffix}`
+      used.add(name)
+      return name
+    }
+
+    model.relations.forEach((relation, index) => {
+      const repeated = model.relations.slice(0, index).some(other => other.from === relation.from && other.to === relation.to)
+      const name = `${relation.from}${relation.to}${repeated ? index : ''}`
+      if (relation.type === 'many-to-many') {
+        if (relation.from === entity.name) lines.push(`  ${fieldName(toCamelCase(pluralize(relation.to)))} ${relation.to}[] @relation("${name}")`)
+        if (relation.to === entity.name) lines.push(`  ${fieldName(toCamelCase(pluralize(relation.from)))} ${relation.from}[] @relation("${name}")`)
+        return
+      }
+      if (relation.from === entity.name) {
+        const target = relation.type === 'one-to-many' ? `${relation.to}[]` : `${relation.to}?`
+        lines.push(`  ${fieldName(toCamelCase(relation.type === 'one-to-many' ? pluralize(relation.to) : relation.to))} ${target} @relation("${name}")`)
+      }
+      if (relation.to === entity.name) {
+        const from = model.entities.find(candidate => candidate.name === relation.from) as DataModelEntity
+        const optional = entity.fields.find(field => field.name === relation.foreignKey)?.nullable ? '?' : ''
+        // authorId becomes author, the usual Prisma naming
+        const base = (relation.foreignKey as string).replace(/_?[Ii]d$/, '') || toCamelCase(relation.from)
+        lines.push(`  ${fieldName(base)} ${relation.from}${optional} @relation("${name}", fields: [${relation.foreignKey}], references: [${primaryKeyOf(from).name}])`)
+      }
+    })
+
+    // Prisma requires one-to-one foreign keys to be unique
+    const oneToOneKeys = model.relations
+      .filter(relation => relation.type === 'one-to-one' && relation.to === entity.name)
+      .map(relation => relation.foreignKey as string)
+      .filter(key => !entity.fields.find(field => field.name === key)?.unique)
+    const blockAttributes = [
+      ...oneToOneKeys.map(key => `  @@unique([${key}])`),
+      ...(entity.indexes || []).map(index => `  @@${index.unique ? 'unique' : 'index'}([${index.fields.join(', ')}])`),
+      `  @@map("${toTableName(entity.name)}")`,
+    ]
+
+    return [
+      ...(entity.description ? [`/// ${toComment(entity.description)}`] : []),
+      `model ${entity.name} {`,
+      ...lines,
+      '',
+      ...blockAttributes,
+      '}',
+    ].join('\n')
+  })
+
+  return [
+    'datasource db {',
+    '  provider = "postgresql"',
+    '  url      = env("DATABASE_URL")',
+    '}',
+    '',
+    'generator client {',
+    '  provider = "prisma-client-js"',
+    '}',
+    '',
+    models.join('\n\n'),
+    '',
+  ].join('\n')
+}
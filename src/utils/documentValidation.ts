@@ -0,0 +1,17 @@
+import { validateOpenAPI } from './openapi'
+import { parseDataModel } from './dataModel'
+
+/**
+ * Problems that should stop a document from being saved. Only the structured
+ * document types (OpenAPI YAML and the JSON data model) are checked
+ */
+export const findDocumentProblems = (document: { type: string; content: string }): string[] => {
+  switch (document.type) {
+    case 'OpenAPI':
+      return validateOpenAPI(document.content).problems
+    case 'Data Model':
+      return parseDataModel(document.content).errors
+    default:
+      return []
+  }
+}
@@ -0,0 +1,274 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  PageBreak,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableOfContents,
+  TableRow,
+  TextRun,
+  WidthType,
+  type ParagraphChild,
+} from 'docx'
+import { marked, type MarkedToken, type Token, type Tokens } from 'marked'
+import { PAGE_BREAK } from './pdfRenderer'
+
+const CODE_FONT = 'Consolas'
+const CODE_SHADING = { type: ShadingType.CLEAR, color: 'auto', fill: 'F3F3F3' }
+const HEADER_SHADING = { type: ShadingType.CLEAR, color: 'auto', fill: 'EDEDED' }
+const NUMBERED_LIST = 'numbered-list'
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+]
+const NUMBER_FORMATS = [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN]
+const TABLE_ALIGNMENT = { left: AlignmentType.LEFT, center: AlignmentType.CENTER, right: AlignmentType.RIGHT }
+
+// Word measures indents in twentieths of a point
+const INDENT_STEP = 720
+
+type InlineStyle = { bold?: boolean; italics?: boolean; strike?: boolean }
+
+type BlockContext = {
+  listLevel: number
+  quote?: boolean
+}
+
+export interface DOCXOptions {
+  title: string
+  subtitle?: string
+}
+
+export interface DOCXChapter {
+  title?: string // The chapter's own headings are nested one level below this
+  markdown?: string
+  image?: { data: Uint8Array; width: number; height: number } // PNG, sized in pixels
+}
+
+// Widest an image can be on a portrait page with default margins, in pixels
+const MAX_IMAGE_WIDTH = 600
+
+const ENTITIES: Record<string, string> = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'" }
+
+const decodeEntities = (text: string): string => text.replace(/&(amp|lt|gt|quot|#39);/g, entity => ENTITIES[entity])
+
+const plainText = (tokens: Token[] | undefined): string =>
+  (tokens || []).map(token => {
+    if ('tokens' in token && token.tokens) return plainText(token.tokens)
+    return 'text' in token ? decodeEntities(String(token.text)) : ''
+  }).join('')
+
+/**
+ * Map inline tokens to styled runs and hyperlinks
+ */
+const toInline = (tokens: Token[] | undefined, style: InlineStyle = {}): ParagraphChild[] => {
+  if (!tokens) return []
+
+  return tokens.flatMap((generic): ParagraphChild[] => {
+    const token = generic as MarkedToken
+    switch (token.type) {
+      case 'strong':
+        return toInline(token.tokens, { ...style, bold: true })
+      case 'em':
+        return toInline(token.tokens, { ...style, italics: true })
+      case 'del':
+        return toInline(token.tokens, { ...style, strike: true })
+      case 'link':
+        return [new ExternalHyperlink({
+          link: token.href,
+          children: [new TextRun({ ...style, text: plainText(token.tokens), style: 'Hyperlink' })],
+        })]
+      case 'codespan':
+        return [new TextRun({ ...style, text: decodeEntities(token.text), font: CODE_FONT, shading: CODE_SHADING })]
+      case 'br':
+        return [new TextRun({ text: '', break: 1 })]
+      case 'image':
+        return [new TextRun({ ...style, text: `[${token.text || 'image'}]`, italics: true })]
+      case 'text':
+        return token.tokens ? toInline(token.tokens, style) : [new TextRun({ ...style, text: decodeEntities(token.text) })]
+      case 'escape':
+        return [new TextRun({ ...style, text: decodeEntities(token.text) })]
+      case 'html':
+      case 'checkbox':
+        return []
+      default:
+        return 'text' in token && typeof token.text === 'string' ? [new TextRun({ ...style, text: decodeEntities(token.text) })] : []
+    }
+  })
+}
+
+const quoteProperties = {
+  indent: { left: INDENT_STEP / 2 },
+  border: { left: { style: BorderStyle.SINGLE, size: 12, color: 'D9A441', space: 8 } },
+}
+
+/**
+ * Map chapters of markdown to Word content using built-in heading, list and table styles,
+ * opening with a title and a table of contents that Word fills in on open.
+ * Each chapter after the first starts on a new page
+ */
+export const renderChaptersToDOCX = (chapters: DOCXChapter[], { title, subtitle }: DOCXOptions): Document => {
+  // Each ordered list gets its own numbering instance so it restarts at its first number
+  let numberingInstance = 0
+  let headingOffset = 0
+
+  const toTable = (token: Tokens.Table): Table => {
+    const toRow = (cells: Tokens.TableCell[], isHeader: boolean) =>
+      new TableRow({
+        tableHeader: isHeader,
+        children: cells.map((cell, column) =>
+          new TableCell({
+            ...(isHeader ? { shading: HEADER_SHADING } : {}),
+            children: [new Paragraph({
+              alignment: TABLE_ALIGNMENT[token.align[column] || 'left'],
+              children: toInline(cell.tokens, isHeader ? { bold: true } : {}),
+            })],
+          })
+        ),
+      })
+
+    return new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [toRow(token.header, true), ...token.rows.map(row => toRow(row, false))],
+    })
+  }
+
+  const toList = (token: Tokens.List, context: BlockContext): Array<Paragraph | Table> => {
+    const instance = token.ordered ? ++numberingInstance : 0
+    const level = Math.min(context.listLevel, 5)
+
+    return token.items.flatMap(item => {
+      const [first, ...rest] = item.tokens
+      const checkbox = item.task ? [new TextRun({ text: item.checked ? '☒ ' : '☐ ' })] : []
+      const firstChildren = first && (first.type === 'text' || first.type === 'paragraph')
+        ? toInline((first as Tokens.Text).tokens || [{ type: 'text', raw: first.raw, text: (first as Tokens.Text).text }])
+        : []
+
+      const marker = new Paragraph({
+        children: [...checkbox, ...firstChildren],
+        ...(token.ordered
+          ? { numbering: { reference: NUMBERED_LIST, level, instance } }
+          : { bullet: { level } }),
+      })
+      const remaining = firstChildren.length > 0 || checkbox.length > 0 ? rest : item.tokens
+
+      return [marker, ...toBlocks(remaining, { ...context, listLevel: context.listLevel + 1 }, INDENT_STEP * (level + 1))]
+    })
+  }
+
+  /**
+   * Map block tokens to paragraphs and tables; `indent` lines up follow-on paragraphs inside list items
+   */
+  const toBlocks = (tokens: Token[], context: BlockContext, indent = 0): Array<Paragraph | Table> =>
+    tokens.flatMap((generic): Array<Paragraph | Table> => {
+      const token = generic as MarkedToken
+      const paragraphProperties = {
+        ...(context.quote ? quoteProperties : {}),
+        ...(indent > 0 ? { indent: { left: indent } } : {}),
+      }
+
+      switch (token.type) {
+        case 'heading':
+          return [new Paragraph({
+            heading: HEADING_LEVELS[Math.min(token.depth + headingOffset, HEADING_LEVELS.length) - 1],
+            children: toInline(token.tokens),
+          })]
+        case 'paragraph':
+          return [new Paragraph({ ...paragraphProperties, children: toInline(token.tokens, context.quote ? { italics: true } : {}) })]
+        case 'text':
+          return [new Paragraph({
+            ...paragraphProperties,
+            children: token.tokens ? toInline(token.tokens) : [new TextRun(decodeEntities(token.text))],
+          })]
+        case 'list':
+          return toList(token, context)
+        case 'code':
+          return [new Paragraph({
+            ...paragraphProperties,
+            shading: CODE_SHADING,
+            children: token.text.split('\n').map((line, index) =>
+              new TextRun({ text: line, font: CODE_FONT, size: 18, ...(index > 0 ? { break: 1 } : {}) })
+            ),
+          })]
+        case 'table':
+          return [toTable(token)]
+        case 'blockquote':
+          return toBlocks(token.tokens, { ...context, quote: true }, indent)
+        case 'hr':
+          return [new Paragraph({ border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'BDBDBD', space: 1 } } })]
+        case 'html':
+          if (PAGE_BREAK.test(token.text.trim())) {
+            return [new Paragraph({ children: [new PageBreak()] })]
+          }
+          return []
+        default:
+          return []
+      }
+    })
+
+  const content = chapters.flatMap((chapter, index): Array<Paragraph | Table> => {
+    headingOffset = chapter.title ? 1 : 0
+    const scale = chapter.image ? Math.min(1, MAX_IMAGE_WIDTH / chapter.image.width) : 1
+
+    return [
+      ...(chapter.title
+        ? [new Paragraph({ heading: HeadingLevel.HEADING_1, pageBreakBefore: index > 0, children: [new TextRun(chapter.title)] })]
+        : index > 0 ? [new Paragraph({ children: [new PageBreak()] })] : []),
+      ...(chapter.markdown ? toBlocks(marked.lexer(chapter.markdown), { listLevel: 0 }) : []),
+      ...(chapter.image
+        ? [new Paragraph({
+            children: [new ImageRun({
+              type: 'png',
+              data: chapter.image.data,
+              transformation: { width: chapter.image.width * scale, height: chapter.image.height * scale },
+            })],
+          })]
+        : []),
+    ]
+  })
+
+  return new Document({
+    creator: 'DocFlow',
+    title,
+    // Asks Word to fill in the table of contents when the file is opened
+    features: { updateFields: true },
+    numbering: {
+      config: [{
+        reference: NUMBERED_LIST,
+        levels: HEADING_LEVELS.map((_, level) => ({
+          level,
+          format: NUMBER_FORMATS[level % NUMBER_FORMATS.length],
+          text: `%${level + 1}.`,
+          alignment: AlignmentType.START,
+          style: { paragraph: { indent: { left: INDENT_STEP * (level + 1), hanging: 360 } } },
+        })),
+      }],
+    },
+    sections: [{
+      children: [
+        new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(title)] }),
+        ...(subtitle ? [new Paragraph({ children: [new TextRun({ text: subtitle, color: '6E6E6E', size: 28 })] })] : []),
+        new Paragraph({ children: [new TextRun({ text: `Generated with DocFlow on ${new Date().toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`, color: '6E6E6E' })] }),
+        new TableOfContents('Contents', { hyperlink: true, headingStyleRange: '1-3' }),
+        new Paragraph({ children: [new PageBreak()] }),
+        ...content,
+      ],
+    }],
+  })
+}
+
+/**
+ * Map a single markdown document to a Word document
+ */
+export const renderMarkdownToDOCX = (markdown: string, options: DOCXOptions): Document => renderChaptersToDOCX([{ markdown }], options)
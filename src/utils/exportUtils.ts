@@ -1,52 +1,227 @@
-import jsPDF from 'jspdf'
-import { Document, Packer, Paragraph, TextRun } from 'docx'
-
-export const exportToPDF = async (content: string, filename: string) => {
-  const doc = new jsPDF()
-  const lines = doc.splitTextToSize(content, 180)
-  let y = 20
-  
-  lines.forEach((line: string) => {
-    if (y > 280) {
-      doc.addPage()
-      y = 20
-    }
-    doc.text(line, 15, y)
-    y += 7
-  })
-  
-  doc.save(`${filename}.pdf`)
-}
+import { Packer } from 'docx'
+import { renderMarkdownToPDF, renderChaptersToPDF } from './pdfRenderer'
+import { renderMarkdownToDOCX, renderChaptersToDOCX } from './docxRenderer'
+import { siteFlowToSVG, siteFlowToPNG, siteFlowToMermaid, dataURLToBytes, SITE_FLOW_EXPORT_FILES, type ExportableSiteFlow, type SiteFlowExportFormat } from './siteFlowExport'
+import { createZip, type ZipEntry } from './zip'
+import { parseUserStories, toJiraCSV, toLinearCSV, toGitHubIssuesJSON, STORY_EXPORT_FILES, type StoryExportFormat } from './userStories'
+import { parseDataModel, toPostgresDDL, toPrismaSchema, DATA_MODEL_EXPORT_FILES, type DataModelExportFormat } from './dataModel'
+import type { Project, ProjectDocument, SiteFlowData } from './storage'
 
-export const exportToDOCX = async (content: string, filename: string) => {
-  const paragraphs = content.split('\n').map(line => 
-    new Paragraph({
-      children: [new TextRun(line || ' ')],
-    })
-  )
+export type ExportFormat = 'PDF' | 'DOCX' | 'Markdown'
 
-  const doc = new Document({
-    sections: [{
-      children: paragraphs,
-    }],
-  })
+// Whole-project exports are either one file with a chapter per document, or a zip of separate files
+export type ExportPackaging = 'combined' | 'zip'
 
-  const blob = await Packer.toBlob(doc)
+const FILE_EXTENSIONS: Record<ExportFormat, string> = { PDF: 'pdf', DOCX: 'docx', Markdown: 'md' }
+
+export const downloadBlob = (blob: Blob, filename: string) => {
   const url = URL.createObjectURL(blob)
   const link = document.createElement('a')
   link.href = url
-  link.download = `${filename}.docx`
+  link.download = filename
   link.click()
   URL.revokeObjectURL(url)
 }
 
+// Characters that are not allowed in file names on common systems
+const toFileName = (name: string): string => name.replace(/[\\/:*?"<>|]+/g, '-').trim() || 'project'
+
+/**
+ * Export markdown as a formatted PDF. The title goes on the cover page and defaults to the file name
+ */
+export const exportToPDF = async (content: string, filename: string, options: { title?: string; subtitle?: string } = {}) => {
+  const doc = renderMarkdownToPDF(content, { title: options.title || filename, subtitle: options.subtitle })
+  doc.save(`${filename}.pdf`)
+}
+
+/**
+ * Export markdown as a Word document with real heading, list and table styles and a table of contents
+ */
+export const exportToDOCX = async (content: string, filename: string, options: { title?: string; subtitle?: string } = {}) => {
+  const doc = renderMarkdownToDOCX(content, { title: options.title || filename, subtitle: options.subtitle })
+  downloadBlob(await Packer.toBlob(doc), `${filename}.docx`)
+}
+
 export const exportToMarkdown = (content: string, filename: string) => {
-  const blob = new Blob([content], { type: 'text/markdown' })
-  const url = URL.createObjectURL(blob)
-  const link = document.createElement('a')
-  link.href = url
-  link.download = `${filename}.md`
-  link.click()
-  URL.revokeObjectURL(url)
+  downloadBlob(new Blob([content], { type: 'text/markdown' }), `${filename}.md`)
+}
+
+export const exportToYAML = (content: string, filename: string) => {
+  downloadBlob(new Blob([content], { type: 'application/yaml' }), `${filename}.yaml`)
 }
 
+/**
+ * Export a "Data Model" document as PostgreSQL DDL or a Prisma schema.
+ * Returns false when the document isn't a valid data model
+ */
+export const exportDataModel = (content: string, filename: string, format: DataModelExportFormat): boolean => {
+  const { model } = parseDataModel(content)
+  if (!model) return false
+
+  const schema = format === 'PostgreSQL' ? toPostgresDDL(model) : toPrismaSchema(model)
+  downloadBlob(new Blob([schema], { type: 'text/plain' }), `${filename}${DATA_MODEL_EXPORT_FILES[format]}`)
+  return true
+}
+
+/**
+ * Export a site flow diagram, passed as JSON, as SVG, a high-DPI PNG or a Mermaid flowchart.
+ * Returns false when there is no flow to draw
+ */
+export const exportSiteFlow = async (content: string, filename: string, format: SiteFlowExportFormat): Promise<boolean> => {
+  let siteFlow: ExportableSiteFlow
+  try {
+    siteFlow = JSON.parse(content)
+  } catch {
+    return false
+  }
+  if (!Array.isArray(siteFlow?.nodes) || siteFlow.nodes.length === 0) return false
+
+  const name = `${filename}${SITE_FLOW_EXPORT_FILES[format]}`
+  switch (format) {
+    case 'SVG':
+      downloadBlob(new Blob([siteFlowToSVG(siteFlow)], { type: 'image/svg+xml' }), name)
+      break
+    case 'PNG': {
+      // At least twice the diagram's size so it stays sharp on high-DPI screens and in print
+      const { dataURL } = await siteFlowToPNG(siteFlow, Math.max(2, window.devicePixelRatio || 1))
+      downloadBlob(await (await fetch(dataURL)).blob(), name)
+      break
+    }
+    case 'Mermaid':
+      downloadBlob(new Blob([siteFlowToMermaid(siteFlow)], { type: 'text/plain' }), name)
+      break
+  }
+  return true
+}
+
+/**
+ * Export the stories in a "User Stories" document in an issue tracker's import format.
+ * Returns how many stories were found so the caller can report an empty export
+ */
+export const exportUserStories = (content: string, filename: string, format: StoryExportFormat): number => {
+  const stories = parseUserStories(content)
+  if (stories.length === 0) return 0
+
+  const name = `${filename}${STORY_EXPORT_FILES[format]}`
+  switch (format) {
+    case 'Jira CSV':
+      downloadBlob(new Blob([toJiraCSV(stories)], { type: 'text/csv' }), name)
+      break
+    case 'Linear CSV':
+      downloadBlob(new Blob([toLinearCSV(stories)], { type: 'text/csv' }), name)
+      break
+    case 'GitHub Issues':
+      downloadBlob(new Blob([toGitHubIssuesJSON(stories)], { type: 'application/json' }), name)
+      break
+  }
+  return stories.length
+}
+
+// Legacy single-document projects keep their text in content only
+const getDocuments = (project: Project): ProjectDocument[] =>
+  project.documents && project.documents.length > 0
+    ? project.documents
+    : [{ type: project.type, content: project.content }]
+
+// Markdown can't embed the diagram, so the site flow is listed as pages and links instead
+const siteFlowToMarkdown = (siteFlow: SiteFlowData): string => {
+  const names = new Map(siteFlow.nodes.map(node => [node.id, node.name]))
+  return [
+    '# Site Flow',
+    '',
+    '## Pages',
+    ...siteFlow.nodes.map(node => `- **${node.name}**${node.description ? ` - ${node.description}` : ''}`),
+    '',
+    '## Links',
+    ...siteFlow.connections.map(connection => `- ${names.get(connection.from) || connection.from} -> ${names.get(connection.to) || connection.to}`),
+  ].join('\n')
+}
+
+// OpenAPI (YAML) and Data Model (JSON) documents go into markdown-based formats as code blocks,
+// the data model as its PostgreSQL DDL when it is valid
+const toMarkdown = (doc: ProjectDocument): string => {
+  if (doc.type === 'OpenAPI') return `\`\`\`yaml\n${doc.content.trim()}\n\`\`\``
+  if (doc.type === 'Data Model') {
+    const { model } = parseDataModel(doc.content)
+    return model ? `\`\`\`sql\n${toPostgresDDL(model).trim()}\n\`\`\`` : `\`\`\`json\n${doc.content.trim()}\n\`\`\``
+  }
+  return doc.content
+}
+
+const renderDocument = async (doc: ProjectDocument, format: ExportFormat, title: string): Promise<Uint8Array | string> => {
+  switch (format) {
+    case 'PDF':
+      return new Uint8Array(renderMarkdownToPDF(toMarkdown(doc), { title, subtitle: doc.type }).output('arraybuffer'))
+    case 'DOCX':
+      return new Uint8Array(await Packer.toArrayBuffer(renderMarkdownToDOCX(toMarkdown(doc), { title, subtitle: doc.type })))
+    case 'Markdown':
+      return toMarkdown(doc)
+  }
+}
+
+// The structured documents stay in their own formats in zips so they can be fed straight into tooling
+const toZipEntries = async (doc: ProjectDocument, format: ExportFormat, title: string, baseName: string): Promise<ZipEntry[]> => {
+  if (doc.type === 'OpenAPI') return [{ name: `${baseName}/openapi.yaml`, data: doc.content }]
+  if (doc.type === 'Data Model') {
+    const { model } = parseDataModel(doc.content)
+    return [
+      { name: `${baseName}/data-model.json`, data: doc.content },
+      ...(model ? [
+        { name: `${baseName}/data-model.sql`, data: toPostgresDDL(model) },
+        { name: `${baseName}/schema.prisma`, data: toPrismaSchema(model) },
+      ] : []),
+    ]
+  }
+  return [{ name: `${baseName}/${toFileName(doc.type)}.${FILE_EXTENSIONS[format]}`, data: await renderDocument(doc, format, title) }]
+}
+
+/**
+ * Export every document in a project together with its site flow, either as one
+ * file with a chapter per document or as a zip of separate files (site flow as SVG and JSON)
+ */
+export const exportProject = async (project: Project, format: ExportFormat, packaging: ExportPackaging) => {
+  const documents = getDocuments(project)
+  const siteFlow = project.siteFlow && project.siteFlow.nodes.length > 0 ? project.siteFlow : undefined
+  const baseName = toFileName(project.title)
+
+  if (packaging === 'zip') {
+    const entries: ZipEntry[] = (await Promise.all(documents.map(doc => toZipEntries(doc, format, project.title, baseName)))).flat()
+    if (siteFlow) {
+      entries.push(
+        { name: `${baseName}/site-flow.svg`, data: siteFlowToSVG(siteFlow) },
+        { name: `${baseName}/site-flow.json`, data: JSON.stringify(siteFlow, null, 2) },
+      )
+    }
+    downloadBlob(createZip(entries), `${baseName}.zip`)
+    return
+  }
+
+  const subtitle = 'Project documentation'
+  switch (format) {
+    case 'PDF': {
+      const image = siteFlow ? await siteFlowToPNG(siteFlow) : undefined
+      renderChaptersToPDF([
+        ...documents.map(doc => ({ title: doc.type, markdown: toMarkdown(doc) })),
+        ...(image ? [{ title: 'Site Flow', image }] : []),
+      ], { title: project.title, subtitle }).save(`${baseName}.pdf`)
+      break
+    }
+    case 'DOCX': {
+      const image = siteFlow ? await siteFlowToPNG(siteFlow) : undefined
+      const doc = renderChaptersToDOCX([
+        ...documents.map(doc => ({ title: doc.type, markdown: toMarkdown(doc) })),
+        ...(image ? [{ title: 'Site Flow', image: { data: dataURLToBytes(image.dataURL), width: image.width, height: image.height } }] : []),
+      ], { title: project.title, subtitle })
+      downloadBlob(await Packer.toBlob(doc), `${baseName}.docx`)
+      break
+    }
+    case 'Markdown': {
+      const sections = [
+        ...documents.map(doc => (doc.type === 'OpenAPI' || doc.type === 'Data Model' ? `# ${doc.type}\n\n${toMarkdown(doc)}` : doc.content.trim())),
+        ...(siteFlow ? [siteFlowToMarkdown(siteFlow)] : []),
+      ]
+      exportToMarkdown(sections.join('\n\n<!-- pagebreak -->\n\n'), baseName)
+      break
+    }
+  }
+}
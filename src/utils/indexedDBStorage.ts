@@ -0,0 +1,409 @@
+import type { Project, ProjectVersion } from './storage'
+import { ProjectConflictError, MAX_VERSIONS, shouldRecordVersion, type CacheStorageAdapter, type NewProject, type OutboxEntry, type OutboxStore, type ProjectUpdates } from './storageAdapter'
+
+const DB_NAME = 'docflow'
+const DB_VERSION = 3
+const PROJECTS_STORE = 'projects'
+const VERSIONS_STORE = 'versions'
+const OUTBOX_STORE = 'outbox'
+
+// Keys used by the old localStorage backend, migrated once when the database is created
+const LEGACY_PROJECTS_KEY = 'docflow-projects'
+const LEGACY_VERSIONS_KEY = 'docflow-project-versions'
+
+// Remote backends hand out UUIDs; anything else was created in this browser
+const REMOTE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * A stored project. localOnly marks projects that exist only in this browser, as opposed to
+ * cached copies of remote projects, so refreshing the cache never drops them
+ */
+type ProjectRecord = Project & { localOnly?: boolean }
+
+/**
+ * Thrown when the browser refuses a write because the origin's storage quota is full
+ */
+export class StorageQuotaError extends Error {
+  constructor(message = 'Browser storage is full. Delete some projects or export them before saving more.') {
+    super(message)
+    this.name = 'StorageQuotaError'
+  }
+}
+
+const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+
+const toStorageError = (error: unknown): unknown => (isQuotaError(error) ? new StorageQuotaError() : error)
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(toStorageError(request.error))
+  })
+
+// Quota failures surface on the transaction (abort), not on the individual request
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(toStorageError(transaction.error))
+    transaction.onabort = () => reject(toStorageError(transaction.error))
+  })
+
+/**
+ * Copy projects and versions out of the legacy localStorage keys during the first upgrade
+ */
+const migrateFromLocalStorage = (transaction: IDBTransaction): number => {
+  const projectsData = localStorage.getItem(LEGACY_PROJECTS_KEY)
+  const versionsData = localStorage.getItem(LEGACY_VERSIONS_KEY)
+  const projects: Project[] = projectsData ? JSON.parse(projectsData) : []
+  const versions: Record<string, ProjectVersion[]> = versionsData ? JSON.parse(versionsData) : {}
+
+  const projectsStore = transaction.objectStore(PROJECTS_STORE)
+  const versionsStore = transaction.objectStore(VERSIONS_STORE)
+  projects.forEach(project => projectsStore.put({ ...project, localOnly: true } satisfies ProjectRecord))
+  Object.values(versions).flat().forEach(version => versionsStore.put(version))
+
+  return projects.length
+}
+
+/**
+ * Flag projects stored before local-only records were tracked, telling them apart by their id
+ */
+const markLocalOnlyRecords = (transaction: IDBTransaction) => {
+  const store = transaction.objectStore(PROJECTS_STORE)
+  const request = store.getAll() as IDBRequest<ProjectRecord[]>
+  request.onsuccess = () => {
+    request.result
+      .filter(record => !REMOTE_ID_PATTERN.test(record.id))
+      .forEach(record => store.put({ ...record, localOnly: true }))
+  }
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) return databasePromise
+
+  databasePromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'))
+      return
+    }
+
+    let migrated: number | null = null
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result
+      if (event.oldVersion < 1) {
+        const projects = db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' })
+        projects.createIndex('updatedAt', 'updatedAt')
+        projects.createIndex('title', 'title')
+
+        const versions = db.createObjectStore(VERSIONS_STORE, { keyPath: 'id' })
+        versions.createIndex('projectId', 'projectId')
+
+        try {
+          migrated = migrateFromLocalStorage(request.transaction!)
+        } catch (error) {
+          // Leave the legacy data in place rather than losing it
+          console.error('Failed to migrate projects from localStorage:', error)
+        }
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'seq', autoIncrement: true })
+      }
+      if (event.oldVersion >= 1 && event.oldVersion < 3) {
+        markLocalOnlyRecords(request.transaction!)
+      }
+    }
+
+    request.onsuccess = () => {
+      // The upgrade transaction has committed, so the legacy copy can go
+      if (migrated !== null) {
+        localStorage.removeItem(LEGACY_PROJECTS_KEY)
+        localStorage.removeItem(LEGACY_VERSIONS_KEY)
+        if (migrated > 0) {
+          console.log(`✅ Migrated ${migrated} projects from localStorage to IndexedDB`)
+        }
+      }
+      resolve(request.result)
+    }
+
+    request.onerror = () => {
+      databasePromise = null
+      reject(toStorageError(request.error))
+    }
+  })
+
+  return databasePromise
+}
+
+/**
+ * Add a version snapshot for a saved project and prune the oldest beyond MAX_VERSIONS
+ */
+const snapshotVersion = async (db: IDBDatabase, project: Project) => {
+  const transaction = db.transaction(VERSIONS_STORE, 'readwrite')
+  const store = transaction.objectStore(VERSIONS_STORE)
+  store.put({
+    id: `${project.id}-${Date.now()}`,
+    projectId: project.id,
+    title: project.title,
+    documents: project.documents,
+    siteFlow: project.siteFlow,
+    author: 'You (this browser)',
+    createdAt: project.updatedAt,
+  } satisfies ProjectVersion)
+
+  const existing = await promisifyRequest(store.index('projectId').getAll(project.id) as IDBRequest<ProjectVersion[]>)
+  existing
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(MAX_VERSIONS)
+    .forEach(version => store.delete(version.id))
+
+  await transactionDone(transaction)
+}
+
+const latestVersionAt = async (db: IDBDatabase, projectId: string): Promise<string | undefined> => {
+  const store = db.transaction(VERSIONS_STORE).objectStore(VERSIONS_STORE)
+  const versions = await promisifyRequest(store.index('projectId').getAll(projectId) as IDBRequest<ProjectVersion[]>)
+  return versions.map(version => version.createdAt).sort().pop()
+}
+
+// storageBackend and syncStatus describe the copy that was read, so they are never persisted
+const toRecord = (project: ProjectRecord): ProjectRecord => {
+  const record = { ...project }
+  delete record.storageBackend
+  delete record.syncStatus
+  delete record.syncError
+  return record
+}
+
+// A copy handed over by a remote backend is never local-only, even if it replaces one that was
+const toRemoteRecord = (project: Project): ProjectRecord => {
+  const record = toRecord(project)
+  delete record.localOnly
+  return record
+}
+
+const fromRecord = (record: ProjectRecord): Project => {
+  const project: ProjectRecord = { ...record, storageBackend: 'indexeddb' }
+  delete project.localOnly
+  return project
+}
+
+/**
+ * IndexedDB storage for projects
+ * One record per project, so saves no longer rewrite every project at once
+ */
+export const indexedDBStorage: CacheStorageAdapter = {
+  name: 'indexeddb',
+
+  /**
+   * Get all projects, most recently updated first
+   */
+  async getAll(): Promise<Project[]> {
+    const db = await openDatabase()
+    const store = db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE)
+    const projects = await promisifyRequest(store.index('updatedAt').getAll() as IDBRequest<Project[]>)
+    return projects.reverse().map(fromRecord)
+  },
+
+  /**
+   * Get a single project by ID
+   */
+  async get(id: string): Promise<Project | null> {
+    const db = await openDatabase()
+    const store = db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE)
+    const project = await promisifyRequest(store.get(id) as IDBRequest<Project | undefined>)
+    return project ? fromRecord(project) : null
+  },
+
+  /**
+   * Save a new project
+   */
+  async save(project: NewProject): Promise<Project> {
+    const db = await openDatabase()
+    const now = new Date().toISOString()
+    const newProject: ProjectRecord = {
+      ...toRecord(project as Project),
+      id: Date.now().toString(),
+      createdAt: now,
+      updatedAt: now,
+      localOnly: true,
+    }
+
+    const transaction = db.transaction(PROJECTS_STORE, 'readwrite')
+    transaction.objectStore(PROJECTS_STORE).add(newProject)
+    await transactionDone(transaction)
+
+    await snapshotVersion(db, newProject)
+    return fromRecord(newProject)
+  },
+
+  /**
+   * Update an existing project
+   */
+  async update(id: string, updates: ProjectUpdates, expectedUpdatedAt?: string): Promise<Project | null> {
+    const db = await openDatabase()
+    const transaction = db.transaction(PROJECTS_STORE, 'readwrite')
+    const store = transaction.objectStore(PROJECTS_STORE)
+
+    const existing = await promisifyRequest(store.get(id) as IDBRequest<ProjectRecord | undefined>)
+    if (!existing) {
+      transaction.abort()
+      return null
+    }
+    if (expectedUpdatedAt && existing.updatedAt !== expectedUpdatedAt) {
+      transaction.abort()
+      throw new ProjectConflictError(fromRecord(existing))
+    }
+
+    const updated = toRecord({
+      ...existing,
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    })
+    store.put(updated)
+    await transactionDone(transaction)
+
+    if (await shouldRecordVersion(updates, updated.updatedAt, () => latestVersionAt(db, id))) {
+      await snapshotVersion(db, updated)
+    }
+    return fromRecord(updated)
+  },
+
+  /**
+   * Get the saved versions of a project, newest first
+   */
+  async getVersions(projectId: string): Promise<ProjectVersion[]> {
+    const db = await openDatabase()
+    const store = db.transaction(VERSIONS_STORE).objectStore(VERSIONS_STORE)
+    const versions = await promisifyRequest(store.index('projectId').getAll(projectId) as IDBRequest<ProjectVersion[]>)
+    return versions.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  },
+
+  /**
+   * Delete a project and its versions
+   */
+  async delete(id: string): Promise<boolean> {
+    const db = await openDatabase()
+    const transaction = db.transaction([PROJECTS_STORE, VERSIONS_STORE], 'readwrite')
+    const projects = transaction.objectStore(PROJECTS_STORE)
+    const versions = transaction.objectStore(VERSIONS_STORE)
+
+    const existing = await promisifyRequest(projects.get(id))
+    if (!existing) {
+      transaction.abort()
+      return false
+    }
+
+    projects.delete(id)
+    const versionKeys = await promisifyRequest(versions.index('projectId').getAllKeys(id))
+    versionKeys.forEach(key => versions.delete(key))
+    await transactionDone(transaction)
+    return true
+  },
+
+  /**
+   * Store a copy of a project owned by another backend, keeping its ID
+   */
+  async put(project: Project): Promise<void> {
+    const db = await openDatabase()
+    const transaction = db.transaction(PROJECTS_STORE, 'readwrite')
+    transaction.objectStore(PROJECTS_STORE).put(toRemoteRecord(project))
+    await transactionDone(transaction)
+  },
+
+  /**
+   * Replace every cached remote project with the given set, keeping projects only this browser has
+   */
+  async replaceAll(projects: Project[]): Promise<void> {
+    const db = await openDatabase()
+    const transaction = db.transaction(PROJECTS_STORE, 'readwrite')
+    const store = transaction.objectStore(PROJECTS_STORE)
+    const records = await promisifyRequest(store.getAll() as IDBRequest<ProjectRecord[]>)
+    records.filter(record => !record.localOnly).forEach(record => store.delete(record.id))
+    projects.forEach(project => store.put(toRemoteRecord(project)))
+    await transactionDone(transaction)
+  },
+
+  /**
+   * Get the projects that exist only in this browser, e.g. ones migrated from localStorage
+   */
+  async getLocalOnly(): Promise<Project[]> {
+    const db = await openDatabase()
+    const store = db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE)
+    const records = await promisifyRequest(store.getAll() as IDBRequest<ProjectRecord[]>)
+    return records.filter(record => record.localOnly).map(fromRecord)
+  },
+
+  /**
+   * Drop a cached project without touching its versions
+   */
+  async remove(id: string): Promise<void> {
+    const db = await openDatabase()
+    const transaction = db.transaction(PROJECTS_STORE, 'readwrite')
+    transaction.objectStore(PROJECTS_STORE).delete(id)
+    await transactionDone(transaction)
+  },
+
+  /**
+   * Re-file a project's versions under another id, e.g. the remote id of a project created offline
+   */
+  async moveVersions(fromId: string, toId: string): Promise<void> {
+    const db = await openDatabase()
+    const transaction = db.transaction(VERSIONS_STORE, 'readwrite')
+    const store = transaction.objectStore(VERSIONS_STORE)
+    const versions = await promisifyRequest(store.index('projectId').getAll(fromId) as IDBRequest<ProjectVersion[]>)
+    versions.forEach(version => store.put({ ...version, projectId: toId }))
+    await transactionDone(transaction)
+  },
+
+  /**
+   * Clear all projects and versions
+   */
+  async clear(): Promise<void> {
+    try {
+      const db = await openDatabase()
+      const transaction = db.transaction([PROJECTS_STORE, VERSIONS_STORE], 'readwrite')
+      transaction.objectStore(PROJECTS_STORE).clear()
+      transaction.objectStore(VERSIONS_STORE).clear()
+      await transactionDone(transaction)
+    } catch (error) {
+      console.error('Failed to clear IndexedDB:', error)
+    }
+  },
+}
+
+/**
+ * Pending offline writes, kept in IndexedDB so they survive reloads
+ */
+export const indexedDBOutbox: OutboxStore = {
+  async getAll(): Promise<OutboxEntry[]> {
+    const db = await openDatabase()
+    const store = db.transaction(OUTBOX_STORE).objectStore(OUTBOX_STORE)
+    return await promisifyRequest(store.getAll() as IDBRequest<OutboxEntry[]>)
+  },
+
+  async add(entry: OutboxEntry): Promise<void> {
+    const db = await openDatabase()
+    const transaction = db.transaction(OUTBOX_STORE, 'readwrite')
+    transaction.objectStore(OUTBOX_STORE).add(entry)
+    await transactionDone(transaction)
+  },
+
+  async put(entry: OutboxEntry): Promise<void> {
+    const db = await openDatabase()
+    const transaction = db.transaction(OUTBOX_STORE, 'readwrite')
+    transaction.objectStore(OUTBOX_STORE).put(entry)
+    await transactionDone(transaction)
+  },
+
+  async remove(seq: number): Promise<void> {
+    const db = await openDatabase()
+    const transaction = db.transaction(OUTBOX_STORE, 'readwrite')
+    transaction.objectStore(OUTBOX_STORE).delete(seq)
+    await transactionDone(transaction)
+  },
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { parseSections, replaceSection } from './markdownSections'
+
+const PRD = `# TaskPilot PRD
+
+## Overview
+A task manager.
+
+### Scope
+Boards only.
+
+## Goals
+Ship on time.
+
+## Risks
+None yet.
+`
+
+describe('parseSections', () => {
+  it('splits at the shallowest repeated heading level, keeping subsections in their parent', () => {
+    const sections = parseSections(PRD)
+    expect(sections.map(section => section.heading)).toEqual(['Overview', 'Goals', 'Risks'])
+    expect(sections[0].level).toBe(2)
+    expect(sections[0].content).toBe('## Overview\nA task manager.\n\n### Scope\nBoards only.')
+    expect(sections[2].end).toBe(PRD.length)
+  })
+
+  it('ignores headings inside fenced code blocks', () => {
+    const markdown = '## Setup\n```bash\n# install\nnpm install\n```\n\n## Usage\nRun it.'
+    expect(parseSections(markdown).map(section => section.heading)).toEqual(['Setup', 'Usage'])
+  })
+
+  it('strips closing #s and uses the only level when none repeats', () => {
+    expect(parseSections('# Title #\nBody').map(section => section.heading)).toEqual(['Title'])
+  })
+
+  it('returns nothing for a document without headings', () => {
+    expect(parseSections('Just text')).toEqual([])
+  })
+})
+
+describe('replaceSection', () => {
+  it('splices a section in place, keeping the gap before the next one', () => {
+    const [, goals] = parseSections(PRD)
+    const updated = replaceSection(PRD, goals, '## Goals\nShip faster.\n\n')
+    expect(updated).toContain('## Goals\nShip faster.\n\n## Risks')
+    expect(parseSections(updated).map(section => section.heading)).toEqual(['Overview', 'Goals', 'Risks'])
+  })
+
+  it('ends the document with a single newline when the last section is replaced', () => {
+    const sections = parseSections(PRD)
+    const updated = replaceSection(PRD, sections[sections.length - 1], '## Risks\nScope creep.')
+    expect(updated.endsWith('## Risks\nScope creep.\n')).toBe(true)
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * Split generated markdown documents into heading-delimited sections
+ * so individual sections can be rewritten and spliced back in place
+ */
+
+export interface MarkdownSection {
+  heading: string // Heading text without the leading #s
+  level: number
+  start: number // Offset of the heading line in the document
+  end: number // Offset just past the section body, including nested subsections
+  content: string // Heading line plus body
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/
+
+/**
+ * Find every ATX heading outside fenced code blocks
+ */
+const findHeadings = (markdown: string): Array<{ heading: string; level: number; start: number }> => {
+  const headings: Array<{ heading: string; level: number; start: number }> = []
+  let offset = 0
+  let inFence = false
+
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence
+    } else if (!inFence) {
+      const match = line.match(HEADING_PATTERN)
+      if (match) {
+        headings.push({ heading: match[2], level: match[1].length, start: offset })
+      }
+    }
+    offset += line.length + 1
+  }
+
+  return headings
+}
+
+/**
+ * Parse the document's sections at its main section level: the shallowest heading
+ * level that repeats, so a lone "# Title" above "## Overview", "## Goals"... is skipped
+ */
+export const parseSections = (markdown: string): MarkdownSection[] => {
+  const headings = findHeadings(markdown)
+  if (headings.length === 0) return []
+
+  const levels = [...new Set(headings.map(h => h.level))].sort((a, b) => a - b)
+  const sectionLevel = levels.find(level => headings.filter(h => h.level === level).length > 1) ?? levels[0]
+
+  return headings
+    .map((heading, index) => ({ ...heading, index }))
+    .filter(heading => heading.level === sectionLevel)
+    .map(heading => {
+      // A section runs until the next heading at the same or a shallower level
+      const next = headings.slice(heading.index + 1).find(h => h.level <= heading.level)
+      const end = next ? next.start : markdown.length
+      return {
+        heading: heading.heading,
+        level: heading.level,
+        start: heading.start,
+        end,
+        content: markdown.slice(heading.start, end).trimEnd(),
+      }
+    })
+}
+
+/**
+ * Replace a section's text, keeping the spacing before the next section
+ */
+export const replaceSection = (markdown: string, section: MarkdownSection, replacement: string): string => {
+  const separator = section.end < markdown.length ? '\n\n' : '\n'
+  return `${markdown.slice(0, section.start)}${replacement.trim()}${separator}${markdown.slice(section.end)}`
+}
@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { withOfflineSync, isOfflineError } from './offlineSync'
+import { NEW_PROJECT, createCache, createOutbox, createRemote } from './testing/storageFakes'
+
+const setup = () => {
+  const { remote, store: server, state } = createRemote()
+  const { cache, store: cached } = createCache()
+  const { outbox, entries } = createOutbox()
+  const storage = withOfflineSync(remote, cache, outbox)
+  // Created before window exists, so no sync timer is started; flushes are triggered by the tests
+  vi.stubGlobal('window', new EventTarget())
+  // Listing projects replays the outbox in the background; with in-memory fakes it is done by the next timer
+  const sync = async () => {
+    await storage.getAll()
+    await new Promise(resolve => setTimeout(resolve, 0))
+  }
+  return { storage, server, cache, cached, entries, state, sync }
+}
+
+describe('withOfflineSync', () => {
+  beforeEach(() => {
+    const values = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => values.get(key) ?? null,
+      setItem: (key: string, value: string) => values.set(key, value),
+    })
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('queues an offline update against the cached copy and replays it once online', async () => {
+    const { storage, server, entries, state, sync } = setup()
+    const saved = await storage.save(NEW_PROJECT)
+
+    state.online = false
+    const local = await storage.update(saved.id, { title: 'Renamed' }, saved.updatedAt)
+    expect(local).toMatchObject({ title: 'Renamed', syncStatus: 'pending' })
+    expect([...entries.values()]).toMatchObject([{ type: 'update', projectId: saved.id, expectedUpdatedAt: saved.updatedAt }])
+    expect(server.projects.get(saved.id)?.title).toBe('TaskPilot')
+
+    state.online = true
+    await sync()
+    expect(entries.size).toBe(0)
+    expect(server.projects.get(saved.id)?.title).toBe('Renamed')
+    expect(await storage.get(saved.id)).toMatchObject({ title: 'Renamed' })
+  })
+
+  it('merges later offline edits into the queued update, keeping its base', async () => {
+    const { storage, entries, state } = setup()
+    const saved = await storage.save(NEW_PROJECT)
+
+    state.online = false
+    const first = await storage.update(saved.id, { title: 'Renamed' }, saved.updatedAt)
+    await storage.update(saved.id, { description: 'Changed' }, first!.updatedAt)
+
+    expect([...entries.values()]).toMatchObject([{
+      type: 'update',
+      updates: { title: 'Renamed', description: 'Changed' },
+      expectedUpdatedAt: saved.updatedAt,
+    }])
+  })
+
+  it('stops at a conflict instead of overwriting the server copy, until the user retries', async () => {
+    const { storage, server, entries, state, sync } = setup()
+    const saved = await storage.save(NEW_PROJECT)
+
+    state.online = false
+    await storage.update(saved.id, { title: 'Mine' }, saved.updatedAt)
+    await storage.update(saved.id, { description: 'Also mine' })
+    // Someone else saves while this browser is offline
+    await server.update(saved.id, { title: 'Theirs' })
+
+    state.online = true
+    await sync()
+    expect(server.projects.get(saved.id)?.title).toBe('Theirs')
+    const [entry] = entries.values()
+    expect(entry).toMatchObject({ conflict: true })
+
+    const shown = await storage.get(saved.id)
+    expect(shown?.syncStatus).toBe('error')
+    expect(shown?.syncError).toMatch(/changed on the server/)
+    // Edits made while the conflict is unresolved are still not sent
+    await storage.update(saved.id, { description: 'Later' })
+    expect(server.projects.get(saved.id)?.description).toBe('A task manager')
+
+    // Retrying means keeping these changes over the server's
+    await storage.retrySync!(saved.id)
+    expect(entries.size).toBe(0)
+    expect(server.projects.get(saved.id)).toMatchObject({ title: 'Mine', description: 'Later' })
+  })
+
+  it('discards unsynced changes by reloading the server copy', async () => {
+    const { storage, server, entries, state } = setup()
+    const saved = await storage.save(NEW_PROJECT)
+
+    state.online = false
+    await storage.update(saved.id, { title: 'Mine' }, saved.updatedAt)
+    await server.update(saved.id, { title: 'Theirs' })
+
+    state.online = true
+    const restored = await storage.discardUnsynced!(saved.id)
+    expect(restored).toMatchObject({ title: 'Theirs', syncStatus: 'synced' })
+    expect(entries.size).toBe(0)
+    expect(await storage.get(saved.id)).toMatchObject({ title: 'Theirs' })
+  })
+
+  it('uploads a project created offline and maps its local id to the server id', async () => {
+    const { storage, server, cached, entries, state, sync } = setup()
+
+    state.online = false
+    const local = await storage.save(NEW_PROJECT)
+    expect(local).toMatchObject({ id: 'local-1', syncStatus: 'pending' })
+    cached.versions.set(local.id, ['offline version'])
+    // Edits to an unsynced project ride along with its create
+    await storage.update(local.id, { title: 'Renamed offline' })
+    expect([...entries.values()].map(entry => entry.type)).toEqual(['create'])
+
+    state.online = true
+    await sync()
+    expect(entries.size).toBe(0)
+    const [uploaded] = server.projects.values()
+    expect(uploaded.title).toBe('Renamed offline')
+    expect(cached.projects.has(local.id)).toBe(false)
+    expect(cached.versions.get(uploaded.id)).toEqual(['offline version'])
+    // The old id keeps working, e.g. for a detail view that was open
+    expect(await storage.get(local.id)).toMatchObject({ id: uploaded.id })
+  })
+
+  it('queues an upload for a cached project the server does not know instead of dropping it', async () => {
+    const { storage, server, cache, cached, entries, sync } = setup()
+    await server.save({ ...NEW_PROJECT, title: 'On the server' })
+    // Saved to the cache with no outbox entry, like a project migrated from localStorage
+    const local = await cache.save({ ...NEW_PROJECT, title: 'Migrated from localStorage' })
+
+    const projects = await storage.getAll()
+    expect(projects.find(project => project.id === local.id)).toMatchObject({ syncStatus: 'pending' })
+
+    await sync()
+    expect(entries.size).toBe(0)
+    expect([...server.projects.values()].map(project => project.title).sort()).toEqual(['Migrated from localStorage', 'On the server'])
+    expect([...cached.projects.keys()].sort()).toEqual([...server.projects.keys()].sort())
+  })
+
+  it('drops a project created and deleted offline without contacting the server', async () => {
+    const { storage, server, cached, entries, state } = setup()
+
+    state.online = false
+    const local = await storage.save(NEW_PROJECT)
+    await storage.delete(local.id)
+    expect(entries.size).toBe(0)
+    expect(cached.projects.size).toBe(0)
+    expect(server.projects.size).toBe(0)
+  })
+
+  it('queues an offline delete, dropping the updates before it', async () => {
+    const { storage, server, cached, entries, state, sync } = setup()
+    const saved = await storage.save(NEW_PROJECT)
+
+    state.online = false
+    await storage.update(saved.id, { title: 'Renamed' }, saved.updatedAt)
+    await storage.delete(saved.id)
+    expect([...entries.values()].map(entry => entry.type)).toEqual(['delete'])
+    expect(cached.projects.has(saved.id)).toBe(false)
+
+    state.online = true
+    await sync()
+    expect(entries.size).toBe(0)
+    expect(server.projects.has(saved.id)).toBe(false)
+  })
+
+  it('shows a write the server keeps rejecting as failed', async () => {
+    const { storage, server, state, sync } = setup()
+    const saved = await storage.save(NEW_PROJECT)
+
+    state.online = false
+    await storage.update(saved.id, { title: 'Renamed' }, saved.updatedAt)
+    server.projects.delete(saved.id)
+
+    state.online = true
+    for (let attempt = 0; attempt < 5; attempt++) await sync()
+    expect(await storage.get(saved.id)).toMatchObject({
+      title: 'Renamed',
+      syncStatus: 'error',
+      syncError: 'The project no longer exists on the server',
+    })
+  })
+})
+
+describe('isOfflineError', () => {
+  it('treats network failures as offline and other errors as real failures', () => {
+    expect(isOfflineError(new TypeError('Failed to fetch'))).toBe(true)
+    expect(isOfflineError({ message: 'NetworkError when attempting to fetch resource.' })).toBe(true)
+    expect(isOfflineError(new Error('permission denied for table projects'))).toBe(false)
+  })
+})
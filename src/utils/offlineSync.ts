@@ -0,0 +1,358 @@
+import type { Project } from './storage'
+import { ProjectConflictError, toNewProject, type CacheStorageAdapter, type NewProject, type OutboxEntry, type OutboxStore, type ProjectUpdates, type StorageAdapter } from './storageAdapter'
+
+// Local IDs of projects created offline, mapped to the IDs the remote assigned on sync
+const ID_MAP_KEY = 'docflow-id-map'
+
+// A write the remote keeps rejecting is given up on (and shown as failed) after this many tries,
+// until the user retries or discards it
+const MAX_SYNC_ATTEMPTS = 5
+
+const SYNC_INTERVAL_MS = 30000
+
+const CONFLICT_MESSAGE = 'the project was changed on the server while you were offline. Retry to overwrite it with your changes, or discard them'
+
+const readIdMap = (): Record<string, string> => {
+  const data = localStorage.getItem(ID_MAP_KEY)
+  return data ? JSON.parse(data) : {}
+}
+
+const errorMessage = (error: unknown): string => {
+  if (error instanceof Error) return error.message
+  if (error && typeof error === 'object' && 'message' in error) return String((error as { message: unknown }).message)
+  return String(error)
+}
+
+/**
+ * Whether a failed write should be queued for later rather than reported:
+ * the browser is offline or the request never reached the server
+ */
+export const isOfflineError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true
+  if (error instanceof TypeError) return true // fetch() rejects with a TypeError on network failure
+  if (error instanceof Error && error.name === 'AuthRetryableFetchError') return true
+  return /failed to fetch|network ?error|load failed|fetch failed/i.test(errorMessage(error))
+}
+
+/**
+ * Layer an offline outbox over a remote adapter, using a local cache for reads.
+ * Writes that fail because the remote is unreachable are applied to the cache,
+ * recorded in the outbox and replayed in order once connectivity returns.
+ * Projects created offline get a local ID that is remapped to the remote's ID on sync.
+ */
+export const withOfflineSync = (remote: StorageAdapter, cache: CacheStorageAdapter, outbox: OutboxStore): StorageAdapter => {
+  let idMap = readIdMap()
+  let flushing: Promise<void> | null = null
+
+  const resolveId = (id: string) => idMap[id] || id
+
+  const rememberId = (localId: string, remoteId: string) => {
+    idMap = { ...idMap, [localId]: remoteId }
+    localStorage.setItem(ID_MAP_KEY, JSON.stringify(idMap))
+  }
+
+  const entriesFor = (entries: OutboxEntry[], id: string) => entries.filter(entry => resolveId(entry.projectId) === id)
+
+  const syncStatusOf = (entries: OutboxEntry[], id: string): NonNullable<Project['syncStatus']> => {
+    const pending = entriesFor(entries, id)
+    if (pending.length === 0) return 'synced'
+    return pending.some(entry => entry.lastError && entry.attempts >= MAX_SYNC_ATTEMPTS) ? 'error' : 'pending'
+  }
+
+  const withStatus = (project: Project, entries: OutboxEntry[]): Project => {
+    const syncStatus = syncStatusOf(entries, project.id)
+    const failed = syncStatus === 'error' ? entriesFor(entries, project.id).find(entry => entry.lastError) : undefined
+    return { ...project, syncStatus, ...(failed ? { syncError: failed.lastError } : {}) }
+  }
+
+  const enqueue = async (entry: Omit<OutboxEntry, 'createdAt' | 'attempts'>) => {
+    await outbox.add({ ...entry, createdAt: new Date().toISOString(), attempts: 0 })
+    console.log(`📥 Queued offline ${entry.type} for project ${entry.projectId}`)
+  }
+
+  /**
+   * Apply one queued write to the remote
+   */
+  const replay = async (entry: OutboxEntry) => {
+    const projectId = resolveId(entry.projectId)
+
+    if (entry.type === 'create') {
+      const local = await cache.get(projectId)
+      if (!local) return // Deleted again before it ever synced
+
+      const saved = await remote.save(toNewProject(local))
+      rememberId(local.id, saved.id)
+      await cache.remove(local.id)
+      await cache.put(saved)
+      // Versions saved while offline would otherwise be left under the local id
+      await cache.moveVersions(local.id, saved.id)
+      console.log(`🔁 Synced offline project ${local.id} as ${saved.id}`)
+      return
+    }
+
+    if (entry.type === 'update') {
+      const updated = await remote.update(projectId, entry.updates || {}, entry.expectedUpdatedAt)
+      if (!updated) {
+        throw new Error('The project no longer exists on the server')
+      }
+      await cache.put(updated)
+      return
+    }
+
+    await remote.delete(projectId)
+    await cache.remove(projectId)
+  }
+
+  /**
+   * Replay the outbox in order. Stops at the first network failure; a write the
+   * remote rejects is retried on later passes, and holds back later writes to the same project
+   */
+  const flush = (): Promise<void> => {
+    if (flushing) return flushing
+
+    flushing = (async () => {
+      const entries = await outbox.getAll()
+      if (entries.length === 0) return
+
+      const blocked = new Set<string>()
+      let changed = false
+
+      for (const entry of entries) {
+        const projectId = resolveId(entry.projectId)
+        if (blocked.has(projectId)) continue
+        if (entry.lastError && entry.attempts >= MAX_SYNC_ATTEMPTS) {
+          blocked.add(projectId)
+          continue
+        }
+
+        try {
+          await replay(entry)
+          await outbox.remove(entry.seq!)
+          changed = true
+        } catch (error) {
+          if (isOfflineError(error)) break
+
+          // Overwriting would lose someone else's changes, so the user decides
+          if (error instanceof ProjectConflictError) {
+            console.warn(`⚠️ Queued update for project ${projectId} conflicts with the server copy`)
+            await outbox.put({ ...entry, attempts: MAX_SYNC_ATTEMPTS, lastError: CONFLICT_MESSAGE, conflict: true })
+            blocked.add(projectId)
+            changed = true
+            continue
+          }
+
+          console.error(`❌ Failed to sync ${entry.type} for project ${projectId}:`, error)
+          await outbox.put({ ...entry, attempts: entry.attempts + 1, lastError: errorMessage(error) })
+          blocked.add(projectId)
+          changed = true
+        }
+      }
+
+      if (changed) {
+        window.dispatchEvent(new CustomEvent('projectsUpdated'))
+      }
+    })()
+      .catch(error => console.warn('⚠️ Outbox sync failed:', error))
+      .finally(() => {
+        flushing = null
+      })
+
+    return flushing
+  }
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => flush())
+    setInterval(() => flush(), SYNC_INTERVAL_MS)
+    flush()
+  }
+
+  return {
+    name: `${remote.name}+${cache.name}`,
+
+    async getAll() {
+      let entries = await outbox.getAll()
+      try {
+        const remoteProjects = await remote.getAll()
+        const remoteIds = new Set(remoteProjects.map(project => project.id))
+        const pendingIds = new Set(entries.map(entry => resolveId(entry.projectId)))
+        const deletedIds = new Set(entries.filter(entry => entry.type === 'delete').map(entry => resolveId(entry.projectId)))
+
+        // Projects only this browser has, e.g. migrated from localStorage, are uploaded like ones created offline
+        const localOnly = (await cache.getLocalOnly()).filter(project => !remoteIds.has(project.id))
+        const unqueued = localOnly.filter(project => !pendingIds.has(project.id))
+        for (const project of unqueued) {
+          await enqueue({ type: 'create', projectId: project.id })
+          pendingIds.add(project.id)
+        }
+        if (unqueued.length > 0) entries = await outbox.getAll()
+
+        // Local copies of projects with unsynced writes are newer than the remote's
+        const localPending = (await cache.getAll()).filter(project => pendingIds.has(project.id))
+        const localIds = new Set(localPending.map(project => project.id))
+        const merged = [
+          ...localPending,
+          ...remoteProjects.filter(project => !localIds.has(project.id) && !deletedIds.has(project.id)),
+        ].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+
+        // An empty answer can also mean a signed-out session, so keep the cache in that case.
+        // Local-only projects are left to the outbox, which swaps them for the remote's copy once uploaded
+        if (remoteProjects.length > 0) {
+          const localOnlyIds = new Set(localOnly.map(project => project.id))
+          await cache.replaceAll(merged.filter(project => !localOnlyIds.has(project.id)))
+            .catch(error => console.warn('⚠️ Failed to update the project cache:', error))
+        }
+        if (entries.length > 0) flush()
+        return merged.map(project => withStatus(project, entries))
+      } catch (error) {
+        console.warn(`⚠️ ${remote.name} unreachable, showing cached projects:`, error)
+        return (await cache.getAll()).map(project => withStatus(project, entries))
+      }
+    },
+
+    async get(id) {
+      const projectId = resolveId(id)
+      const entries = await outbox.getAll()
+      if (entriesFor(entries, projectId).length > 0) {
+        const local = await cache.get(projectId)
+        return local ? withStatus(local, entries) : null
+      }
+
+      try {
+        const project = await remote.get(projectId)
+        if (project) {
+          await cache.put(project).catch(error => console.warn('⚠️ Failed to update the project cache:', error))
+        }
+        return project
+      } catch (error) {
+        console.warn(`⚠️ ${remote.name} unreachable, showing cached project:`, error)
+        const local = await cache.get(projectId)
+        return local ? withStatus(local, entries) : null
+      }
+    },
+
+    async save(project: NewProject) {
+      try {
+        const saved = await remote.save(project)
+        await cache.put(saved).catch(error => console.warn('⚠️ Failed to update the project cache:', error))
+        return { ...saved, syncStatus: 'synced' }
+      } catch (error) {
+        if (!isOfflineError(error)) throw error
+
+        const local = await cache.save(project)
+        await enqueue({ type: 'create', projectId: local.id })
+        return { ...local, syncStatus: 'pending' }
+      }
+    },
+
+    async update(id, updates: ProjectUpdates, expectedUpdatedAt) {
+      // A replay in progress would drop changes merged into the entry it is sending
+      if (flushing) await flushing
+      const projectId = resolveId(id)
+      const entries = entriesFor(await outbox.getAll(), projectId)
+
+      // Queue behind earlier unsynced writes so they replay in order
+      if (entries.length === 0) {
+        try {
+          const updated = await remote.update(projectId, updates, expectedUpdatedAt)
+          if (updated) {
+            await cache.put(updated).catch(error => console.warn('⚠️ Failed to update the project cache:', error))
+          }
+          return updated ? { ...updated, syncStatus: 'synced' } : null
+        } catch (error) {
+          if (!isOfflineError(error)) throw error
+        }
+      }
+
+      // With nothing queued, the cache holds the stored copy this update is made to
+      const base = entries.length === 0 ? (await cache.get(projectId))?.updatedAt : undefined
+      const local = await cache.update(projectId, updates)
+      if (!local) return null
+
+      // A project created offline is uploaded from its latest local copy, so only creates need queueing.
+      // Later offline edits are merged into the queued update, which keeps the copy it was based on
+      const queued = entries.find(entry => entry.type === 'update')
+      if (queued) {
+        await outbox.put({ ...queued, updates: { ...queued.updates, ...updates } })
+      } else if (!entries.some(entry => entry.type === 'create')) {
+        await enqueue({ type: 'update', projectId, updates, expectedUpdatedAt: expectedUpdatedAt || base })
+      }
+      flush()
+      return { ...local, syncStatus: 'pending' }
+    },
+
+    async getVersions(projectId) {
+      try {
+        return await remote.getVersions(resolveId(projectId))
+      } catch (error) {
+        if (!isOfflineError(error)) throw error
+        return await cache.getVersions(resolveId(projectId))
+      }
+    },
+
+    async delete(id) {
+      // A replay in progress could put the project back in the cache after it is removed
+      if (flushing) await flushing
+      const projectId = resolveId(id)
+      const entries = entriesFor(await outbox.getAll(), projectId)
+
+      // Never synced: drop it locally along with its queued writes
+      if (entries.some(entry => entry.type === 'create')) {
+        await Promise.all(entries.map(entry => outbox.remove(entry.seq!)))
+        return await cache.delete(projectId)
+      }
+
+      // Queued updates would only be undone by the delete, so they are dropped rather than replayed
+      await Promise.all(entries.map(entry => outbox.remove(entry.seq!)))
+
+      try {
+        const deleted = await remote.delete(projectId)
+        await cache.remove(projectId).catch(error => console.warn('⚠️ Failed to update the project cache:', error))
+        return deleted
+      } catch (error) {
+        if (!isOfflineError(error)) throw error
+
+        await cache.remove(projectId)
+        await enqueue({ type: 'delete', projectId })
+        flush()
+        return true
+      }
+    },
+
+    async retrySync(id) {
+      // A replay in progress has already read the outbox, so it would not pick up the reset entries
+      if (flushing) await flushing
+      const projectId = resolveId(id)
+      const entries = entriesFor(await outbox.getAll(), projectId)
+      // Retrying a conflicted update means keeping these changes over the server's
+      await Promise.all(entries.filter(entry => entry.lastError).map(entry => outbox.put({
+        ...entry,
+        attempts: 0,
+        lastError: undefined,
+        ...(entry.conflict ? { conflict: undefined, expectedUpdatedAt: undefined } : {}),
+      })))
+      await flush()
+    },
+
+    async discardUnsynced(id) {
+      if (flushing) await flushing
+      const projectId = resolveId(id)
+      const entries = entriesFor(await outbox.getAll(), projectId)
+      const neverSynced = entries.some(entry => entry.type === 'create')
+
+      // Read the stored copy first, so going offline here keeps the local one
+      const project = neverSynced ? null : await remote.get(projectId)
+      await Promise.all(entries.map(entry => outbox.remove(entry.seq!)))
+      await cache.remove(projectId)
+      if (project) await cache.put(project)
+      window.dispatchEvent(new CustomEvent('projectsUpdated'))
+      return project ? { ...project, syncStatus: 'synced' } : null
+    },
+
+    async clear() {
+      await remote.clear()
+      await cache.clear()
+      const entries = await outbox.getAll()
+      await Promise.all(entries.map(entry => outbox.remove(entry.seq!)))
+    },
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest'
+import { validateOpenAPI, validateOpenAPIDocument, listEndpoints } from './openapi'
+
+const SPEC = `openapi: 3.1.0
+info:
+  title: TaskPilot API
+  version: "1.0"
+paths:
+  /boards/{boardId}:
+    parameters:
+      - $ref: '#/components/parameters/BoardId'
+    get:
+      summary: Get a board
+      operationId: getBoard
+      tags: [boards]
+      responses:
+        "200":
+          $ref: '#/components/responses/Board'
+        4XX:
+          description: Not found
+    delete:
+      operationId: deleteBoard
+      deprecated: true
+      requestBody:
+        content: {}
+      responses:
+        default:
+          description: Deleted
+components:
+  parameters:
+    BoardId:
+      name: boardId
+      in: path
+      required: true
+  responses:
+    Board:
+      description: A board
+`
+
+describe('validateOpenAPI', () => {
+  it('accepts a valid 3.1 document', () => {
+    const { spec, problems } = validateOpenAPI(SPEC)
+    expect(problems).toEqual([])
+    expect(spec?.info.title).toBe('TaskPilot API')
+  })
+
+  it('reports YAML syntax errors as problems', () => {
+    expect(validateOpenAPI('openapi: "3.1.0').problems).toEqual(['YAML syntax error: Unterminated quoted string (line 1)'])
+  })
+})
+
+describe('validateOpenAPIDocument', () => {
+  it('requires the version, info and some content', () => {
+    expect(validateOpenAPIDocument({ openapi: '3.0.3', info: { title: '', version: 1 } })).toEqual([
+      '"openapi" must be a 3.1.x version string, e.g. "3.1.0"',
+      '"info.title" must be a non-empty string',
+      '"info.version" must be a string (quote numbers like "1.0")',
+      'The document needs at least one of "paths", "components" or "webhooks"',
+    ])
+    expect(validateOpenAPIDocument(['not', 'a', 'mapping'])).toEqual(['The document must be a YAML mapping'])
+  })
+
+  it('checks paths, path parameters, responses, operation ids and refs', () => {
+    const problems = validateOpenAPIDocument({
+      openapi: '3.1.0',
+      info: { title: 'API', version: '1' },
+      paths: {
+        'boards': { get: { operationId: 'list', responses: { '200': { description: 'OK' } } } },
+        '/boards/{id}': {
+          get: { operationId: 'list', parameters: [{ name: 'id', in: 'path' }], responses: { '200': { description: 'OK' } } },
+          put: { responses: { '201': {}, '999': { description: 'Odd' } } },
+          post: { responses: {} },
+          patch: { responses: { '200': { $ref: '#/components/responses/Missing' } } },
+        },
+      },
+    })
+    expect(problems).toEqual([
+      'Path "boards" must start with "/"',
+      'operationId "list" is used more than once',
+      'paths./boards/{id}.get path parameter "id" must be required: true',
+      'paths./boards/{id}.put doesn\'t declare the path parameter "id"',
+      'paths./boards/{id}.put.responses.201 needs a "description"',
+      'paths./boards/{id}.put has an invalid response code "999"',
+      'paths./boards/{id}.post doesn\'t declare the path parameter "id"',
+      'paths./boards/{id}.post needs at least one response',
+      'paths./boards/{id}.patch doesn\'t declare the path parameter "id"',
+      '$ref "#/components/responses/Missing" at paths./boards/{id}.patch.responses.200 doesn\'t resolve',
+    ])
+  })
+})
+
+describe('listEndpoints', () => {
+  it('lists operations in document order with shared and referenced parameters', () => {
+    const { spec } = validateOpenAPI(SPEC)
+    expect(listEndpoints(spec!)).toEqual([
+      {
+        method: 'get',
+        path: '/boards/{boardId}',
+        summary: 'Get a board',
+        operationId: 'getBoard',
+        tags: ['boards'],
+        parameters: ['boardId (path)'],
+        hasRequestBody: false,
+        responses: ['200', '4XX'],
+        deprecated: false,
+      },
+      {
+        method: 'delete',
+        path: '/boards/{boardId}',
+        summary: undefined,
+        operationId: 'deleteBoard',
+        tags: [],
+        parameters: ['boardId (path)'],
+        hasRequestBody: true,
+        responses: ['default'],
+        deprecated: true,
+      },
+    ])
+  })
+})
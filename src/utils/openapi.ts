@@ -0,0 +1,216 @@
+import { parseYAML, YAMLParseError } from './yaml'
+
+export const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const
+
+export type HTTPMethod = typeof HTTP_METHODS[number]
+
+export type OpenAPISpec = {
+  openapi: string
+  info: { title: string; version: string; description?: string }
+  servers?: Array<{ url: string; description?: string }>
+  paths?: Record<string, Record<string, unknown>>
+  components?: Record<string, unknown>
+  [key: string]: unknown
+}
+
+export type OpenAPIEndpoint = {
+  method: HTTPMethod
+  path: string
+  summary?: string
+  operationId?: string
+  tags: string[]
+  parameters: string[] // "name (in)" for each parameter, resolved through $ref where possible
+  hasRequestBody: boolean
+  responses: string[] // Status codes, e.g. "200", "4XX", "default"
+  deprecated: boolean
+}
+
+export type OpenAPIValidation = {
+  spec: OpenAPISpec | null // Set only when there are no problems
+  problems: string[]
+}
+
+const PARAMETER_LOCATIONS = ['query', 'header', 'path', 'cookie']
+const RESPONSE_CODE = /^([1-5]\d\d|[1-5]XX|default)$/
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Follows a local JSON pointer such as #/components/schemas/User
+const resolvePointer = (root: unknown, ref: string): unknown => {
+  if (!ref.startsWith('#/')) return undefined
+  return ref.slice(2).split('/').reduce<unknown>((node, part) => {
+    const key = part.replace(/~1/g, '/').replace(/~0/g, '~')
+    return isObject(node) ? node[key] : Array.isArray(node) ? node[Number(key)] : undefined
+  }, root)
+}
+
+const collectRefs = (node: unknown, path: string, refs: Array<{ ref: string; at: string }>) => {
+  if (Array.isArray(node)) {
+    node.forEach((item, index) => collectRefs(item, `${path}[${index}]`, refs))
+  } else if (isObject(node)) {
+    Object.entries(node).forEach(([key, value]) => {
+      if (key === '$ref' && typeof value === 'string') refs.push({ ref: value, at: path })
+      else collectRefs(value, `${path}.${key}`, refs)
+    })
+  }
+}
+
+/**
+ * Check the structure OpenAPI 3.1 requires: version and info, path templates with matching
+ * path parameters, operations with described responses, unique operation IDs and local
+ * $refs that resolve. This is not a full schema validation
+ */
+export const validateOpenAPIDocument = (value: unknown): string[] => {
+  if (!isObject(value)) return ['The document must be a YAML mapping']
+
+  const problems: string[] = []
+  if (typeof value.openapi !== 'string' || !/^3\.1\.\d+$/.test(value.openapi)) {
+    problems.push('"openapi" must be a 3.1.x version string, e.g. "3.1.0"')
+  }
+
+  const info = value.info
+  if (!isObject(info)) {
+    problems.push('"info" is required')
+  } else {
+    if (typeof info.title !== 'string' || !info.title.trim()) problems.push('"info.title" must be a non-empty string')
+    if (typeof info.version !== 'string') problems.push('"info.version" must be a string (quote numbers like "1.0")')
+  }
+
+  if (value.servers !== undefined && (!Array.isArray(value.servers) || value.servers.some(server => !isObject(server) || typeof server.url !== 'string'))) {
+    problems.push('"servers" must be a list of objects with a "url"')
+  }
+
+  if (value.paths === undefined && value.components === undefined && value.webhooks === undefined) {
+    problems.push('The document needs at least one of "paths", "components" or "webhooks"')
+  }
+
+  const resolve = (node: unknown): unknown =>
+    isObject(node) && typeof node.$ref === 'string' ? resolvePointer(value, node.$ref) : node
+
+  const checkParameters = (parameters: unknown, at: string): Array<Record<string, unknown>> => {
+    if (parameters === undefined) return []
+    if (!Array.isArray(parameters)) {
+      problems.push(`${at}.parameters must be a list`)
+      return []
+    }
+    return parameters.flatMap((parameter, index) => {
+      const resolved = resolve(parameter)
+      if (!isObject(resolved)) return []
+      if (typeof resolved.name !== 'string' || !PARAMETER_LOCATIONS.includes(String(resolved.in))) {
+        problems.push(`${at}.parameters[${index}] needs a "name" and "in" (query, header, path or cookie)`)
+        return []
+      }
+      return [resolved]
+    })
+  }
+
+  const operationIds = new Set<string>()
+
+  if (value.paths !== undefined) {
+    if (!isObject(value.paths)) {
+      problems.push('"paths" must be a mapping of paths to operations')
+    } else {
+      Object.entries(value.paths).forEach(([path, item]) => {
+        const at = `paths.${path}`
+        if (!path.startsWith('/')) problems.push(`Path "${path}" must start with "/"`)
+        if (!isObject(item)) {
+          problems.push(`${at} must be a mapping of HTTP methods to operations`)
+          return
+        }
+
+        const shared = checkParameters(item.parameters, at)
+        const templateNames = Array.from(path.matchAll(/\{([^}]+)\}/g), match => match[1])
+
+        HTTP_METHODS.forEach(method => {
+          const operation = item[method]
+          if (operation === undefined) return
+          const opAt = `${at}.${method}`
+          if (!isObject(operation)) {
+            problems.push(`${opAt} must be a mapping`)
+            return
+          }
+
+          if (typeof operation.operationId === 'string') {
+            if (operationIds.has(operation.operationId)) problems.push(`operationId "${operation.operationId}" is used more than once`)
+            operationIds.add(operation.operationId)
+          }
+
+          const parameters = [...shared, ...checkParameters(operation.parameters, opAt)]
+          templateNames.forEach(name => {
+            const declared = parameters.find(parameter => parameter.in === 'path' && parameter.name === name)
+            if (!declared) problems.push(`${opAt} doesn't declare the path parameter "${name}"`)
+            else if (declared.required !== true) problems.push(`${opAt} path parameter "${name}" must be required: true`)
+          })
+
+          if (!isObject(operation.responses) || Object.keys(operation.responses).length === 0) {
+            problems.push(`${opAt} needs at least one response`)
+            return
+          }
+          Object.entries(operation.responses).forEach(([code, response]) => {
+            if (!RESPONSE_CODE.test(code)) problems.push(`${opAt} has an invalid response code "${code}"`)
+            const resolved = resolve(response)
+            if (isObject(resolved) && typeof resolved.description !== 'string') {
+              problems.push(`${opAt}.responses.${code} needs a "description"`)
+            }
+          })
+        })
+      })
+    }
+  }
+
+  const refs: Array<{ ref: string; at: string }> = []
+  collectRefs(value, '', refs)
+  refs.forEach(({ ref, at }) => {
+    if (ref.startsWith('#') && resolvePointer(value, ref) === undefined) {
+      problems.push(`$ref "${ref}" at ${at.slice(1) || 'the root'} doesn't resolve`)
+    }
+  })
+
+  return problems
+}
+
+/**
+ * Parse and validate an OpenAPI document written as YAML
+ */
+export const validateOpenAPI = (content: string): OpenAPIValidation => {
+  let value: unknown
+  try {
+    value = parseYAML(content)
+  } catch (error) {
+    if (error instanceof YAMLParseError) return { spec: null, problems: [`YAML syntax error: ${error.message}`] }
+    throw error
+  }
+
+  const problems = validateOpenAPIDocument(value)
+  return problems.length > 0 ? { spec: null, problems } : { spec: value as OpenAPISpec, problems }
+}
+
+/**
+ * Every operation in the spec, in document order
+ */
+export const listEndpoints = (spec: OpenAPISpec): OpenAPIEndpoint[] =>
+  Object.entries(spec.paths || {}).flatMap(([path, item]) =>
+    HTTP_METHODS.filter(method => isObject(item[method])).map(method => {
+      const operation = item[method] as Record<string, unknown>
+      const parameters = [
+        ...(Array.isArray(item.parameters) ? item.parameters : []),
+        ...(Array.isArray(operation.parameters) ? operation.parameters : []),
+      ]
+        .map(parameter => (isObject(parameter) && typeof parameter.$ref === 'string' ? resolvePointer(spec, parameter.$ref) : parameter))
+        .filter(isObject)
+        .map(parameter => `${parameter.name} (${parameter.in})`)
+
+      return {
+        method,
+        path,
+        summary: typeof operation.summary === 'string' ? operation.summary : undefined,
+        operationId: typeof operation.operationId === 'string' ? operation.operationId : undefined,
+        tags: Array.isArray(operation.tags) ? operation.tags.map(String) : [],
+        parameters,
+        hasRequestBody: operation.requestBody !== undefined,
+        responses: isObject(operation.responses) ? Object.keys(operation.responses) : [],
+        deprecated: operation.deprecated === true,
+      }
+    })
+  )
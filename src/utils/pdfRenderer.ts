@@ -0,0 +1,510 @@
+import jsPDF from 'jspdf'
+import { marked, type MarkedToken, type Token, type Tokens } from 'marked'
+
+// A4 in millimetres; the top margin leaves room for the running header
+const PAGE_WIDTH = 210
+const PAGE_HEIGHT = 297
+const MARGIN_X = 20
+const MARGIN_TOP = 24
+const MARGIN_BOTTOM = 20
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN_X * 2
+
+const PT_TO_MM = 0.3528
+const LINE_SPACING = 1.45
+
+const BODY_SIZE = 10.5
+const CODE_SIZE = 9
+const HEADING_SIZES = [20, 16, 13, 11.5, 11, 10.5]
+const LIST_INDENT = 6
+const CELL_PADDING = 2
+
+type Color = [number, number, number]
+const TEXT_COLOR: Color = [33, 33, 33]
+const MUTED_COLOR: Color = [110, 110, 110]
+const LINK_COLOR: Color = [37, 99, 235]
+const ACCENT_COLOR: Color = [217, 164, 65]
+const RULE_COLOR: Color = [200, 200, 200]
+const CODE_BACKGROUND: Color = [243, 243, 243]
+
+// Write `<!-- pagebreak -->` in a document to force a new page (also honoured by the DOCX export)
+export const PAGE_BREAK = /^<!--\s*pagebreak\s*-->/i
+
+type Run = {
+  text: string
+  bold?: boolean
+  italic?: boolean
+  code?: boolean
+  strike?: boolean
+  link?: string
+}
+
+type TextBlockStyle = {
+  x: number
+  width: number
+  fontSize: number
+  color: Color
+  bold?: boolean
+}
+
+export interface PDFOptions {
+  title: string
+  subtitle?: string // Shown on the cover and in the running header, e.g. the document type
+}
+
+export interface PDFChapter {
+  title?: string // The chapter's own headings are nested one level below this
+  markdown?: string
+  image?: { dataURL: string; width: number; height: number } // PNG, sized in CSS pixels
+}
+
+// CSS pixels (96 per inch) to millimetres
+const PX_TO_MM = 25.4 / 96
+
+const ENTITIES: Record<string, string> = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'" }
+
+// The built-in PDF fonts only cover Latin-1, so swap common typography for plain equivalents and drop the rest (e.g. emoji)
+const toPdfText = (text: string): string =>
+  text
+    .replace(/&(amp|lt|gt|quot|#39);/g, entity => ENTITIES[entity])
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/→/g, '->')
+    .replace(/←/g, '<-')
+    .replace(/[•·]/g, '-')
+    .replace(/[✓✔]/g, 'v')
+    .replace(/[^\n\x20-\xFF]/g, '')
+
+/**
+ * Flatten inline tokens into styled runs of text
+ */
+const toRuns = (tokens: Token[] | undefined, style: Omit<Run, 'text'> = {}): Run[] => {
+  if (!tokens) return []
+
+  return tokens.flatMap((generic): Run[] => {
+    const token = generic as MarkedToken
+    switch (token.type) {
+      case 'strong':
+        return toRuns(token.tokens, { ...style, bold: true })
+      case 'em':
+        return toRuns(token.tokens, { ...style, italic: true })
+      case 'del':
+        return toRuns(token.tokens, { ...style, strike: true })
+      case 'link':
+        return toRuns(token.tokens, { ...style, link: token.href })
+      case 'codespan':
+        return [{ ...style, code: true, text: toPdfText(token.text) }]
+      case 'br':
+        return [{ ...style, text: '\n' }]
+      case 'image':
+        return [{ ...style, italic: true, text: `[${toPdfText(token.text || 'image')}]` }]
+      case 'text':
+        return token.tokens ? toRuns(token.tokens, style) : [{ ...style, text: toPdfText(token.text) }]
+      case 'escape':
+        return [{ ...style, text: toPdfText(token.text) }]
+      case 'html':
+      case 'checkbox':
+        return []
+      default:
+        return 'text' in token && typeof token.text === 'string' ? [{ ...style, text: toPdfText(token.text) }] : []
+    }
+  })
+}
+
+const plainText = (tokens: Token[] | undefined): string => toRuns(tokens).map(run => run.text).join('')
+
+/**
+ * Lay out chapters as a paginated PDF with a cover page, running headers and page numbers.
+ * Each chapter after the first starts on a new page
+ */
+export const renderChaptersToPDF = (chapters: PDFChapter[], { title, subtitle }: PDFOptions): jsPDF => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' })
+  let y = MARGIN_TOP
+  let headingOffset = 0
+
+  const lineHeightFor = (fontSize: number) => fontSize * PT_TO_MM * LINE_SPACING
+
+  const newPage = () => {
+    doc.addPage()
+    y = MARGIN_TOP
+  }
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN_BOTTOM) newPage()
+  }
+
+  const setRunFont = (run: Run, fontSize: number, bold?: boolean) => {
+    const isBold = bold || run.bold
+    const fontStyle = isBold && run.italic ? 'bolditalic' : isBold ? 'bold' : run.italic ? 'italic' : 'normal'
+    doc.setFont(run.code ? 'courier' : 'helvetica', run.code ? (isBold ? 'bold' : 'normal') : fontStyle)
+    doc.setFontSize(run.code ? fontSize * 0.92 : fontSize)
+  }
+
+  /**
+   * Word-wrap styled runs into the given column, breaking pages between lines
+   */
+  const writeRuns = (runs: Run[], style: TextBlockStyle) => {
+    const lineHeight = lineHeightFor(style.fontSize)
+    let line: Array<{ run: Run; text: string; width: number }> = []
+    let lineWidth = 0
+
+    const flushLine = () => {
+      while (line.length > 0 && !line[line.length - 1].text.trim()) line.pop()
+      const last = line[line.length - 1]
+      if (last && last.text !== last.text.trimEnd()) {
+        last.text = last.text.trimEnd()
+        setRunFont(last.run, style.fontSize, style.bold)
+        last.width = doc.getTextWidth(last.text)
+      }
+      ensureSpace(lineHeight)
+      const baseline = y + style.fontSize * PT_TO_MM * 1.05
+      let x = style.x
+
+      line.forEach(({ run, text, width }) => {
+        setRunFont(run, style.fontSize, style.bold)
+        if (run.code) {
+          doc.setFillColor(...CODE_BACKGROUND)
+          doc.rect(x - 0.3, y + 0.6, width + 0.6, lineHeight - 0.8, 'F')
+        }
+        doc.setTextColor(...(run.link ? LINK_COLOR : style.color))
+        if (run.link) {
+          doc.textWithLink(text, x, baseline, { url: run.link })
+        } else {
+          doc.text(text, x, baseline)
+        }
+        if (run.strike) {
+          doc.setDrawColor(...style.color)
+          doc.line(x, baseline - style.fontSize * PT_TO_MM * 0.3, x + width, baseline - style.fontSize * PT_TO_MM * 0.3)
+        }
+        x += width
+      })
+
+      y += lineHeight
+      line = []
+      lineWidth = 0
+    }
+
+    const push = (run: Run, text: string) => {
+      const width = doc.getTextWidth(text)
+      const last = line[line.length - 1]
+      // Words of the same run are drawn in one call
+      if (last?.run === run) {
+        last.text += text
+        last.width += width
+      } else {
+        line.push({ run, text, width })
+      }
+      lineWidth += width
+    }
+
+    runs.forEach(run => {
+      if (run.text === '\n') {
+        flushLine()
+        return
+      }
+
+      setRunFont(run, style.fontSize, style.bold)
+      run.text.split(/(\s+)/).filter(Boolean).forEach(piece => {
+        if (!piece.trim()) {
+          if (line.length > 0) push(run, ' ')
+          return
+        }
+
+        const width = doc.getTextWidth(piece)
+        if (lineWidth + width > style.width && line.length > 0) {
+          flushLine()
+          setRunFont(run, style.fontSize, style.bold)
+        }
+
+        // A single word wider than the column is broken across lines
+        if (width > style.width) {
+          const chunks: string[] = doc.splitTextToSize(piece, style.width)
+          chunks.forEach((chunk, index) => {
+            push(run, chunk)
+            if (index < chunks.length - 1) {
+              flushLine()
+              setRunFont(run, style.fontSize, style.bold)
+            }
+          })
+          return
+        }
+
+        push(run, piece)
+      })
+    })
+
+    if (line.length > 0) flushLine()
+  }
+
+  const writeHeading = (runs: Run[], depth: number, x: number) => {
+    const fontSize = HEADING_SIZES[Math.min(depth, HEADING_SIZES.length) - 1]
+    const spaceBefore = depth <= 2 ? 6 : 4
+    // Keep the heading together with at least two lines of what follows
+    ensureSpace(spaceBefore + lineHeightFor(fontSize) + lineHeightFor(BODY_SIZE) * 2)
+    if (y > MARGIN_TOP) y += spaceBefore
+
+    writeRuns(runs, { x, width: PAGE_WIDTH - MARGIN_X - x, fontSize, color: TEXT_COLOR, bold: true })
+    if (depth <= 2) {
+      doc.setDrawColor(...(depth === 1 ? ACCENT_COLOR : RULE_COLOR))
+      doc.setLineWidth(depth === 1 ? 0.6 : 0.3)
+      doc.line(x, y + 0.5, PAGE_WIDTH - MARGIN_X, y + 0.5)
+      y += 2
+    }
+    y += 2
+  }
+
+  // Scaled down to fit the rest of the page, or a fresh page when little is left
+  const writeImage = (image: NonNullable<PDFChapter['image']>) => {
+    const width = image.width * PX_TO_MM
+    const height = image.height * PX_TO_MM
+    if (PAGE_HEIGHT - MARGIN_BOTTOM - y < 60) newPage()
+
+    const scale = Math.min(1, CONTENT_WIDTH / width, (PAGE_HEIGHT - MARGIN_BOTTOM - y) / height)
+    doc.addImage(image.dataURL, 'PNG', MARGIN_X, y, width * scale, height * scale)
+    y += height * scale + 4
+  }
+
+  const writeCode = (token: Tokens.Code, x: number) => {
+    const width = PAGE_WIDTH - MARGIN_X - x
+    const lineHeight = lineHeightFor(CODE_SIZE) * 0.9
+    doc.setFont('courier', 'normal')
+    doc.setFontSize(CODE_SIZE)
+
+    const lines: string[] = toPdfText(token.text)
+      .split('\n')
+      .flatMap(line => (line ? doc.splitTextToSize(line, width - 6) : ['']))
+
+    y += 1
+    lines.forEach((line, index) => {
+      ensureSpace(lineHeight)
+      doc.setFillColor(...CODE_BACKGROUND)
+      doc.rect(x, y, width, lineHeight + (index === lines.length - 1 ? 1.5 : 0), 'F')
+      doc.setFont('courier', 'normal')
+      doc.setFontSize(CODE_SIZE)
+      doc.setTextColor(...TEXT_COLOR)
+      doc.text(line, x + 3, y + CODE_SIZE * PT_TO_MM * 1.1)
+      y += lineHeight
+    })
+    y += 4
+  }
+
+  const writeList = (token: Tokens.List, x: number) => {
+    const start = typeof token.start === 'number' ? token.start : 1
+
+    token.items.forEach((item, index) => {
+      ensureSpace(lineHeightFor(BODY_SIZE))
+      const markerY = y + BODY_SIZE * PT_TO_MM * 1.05
+      doc.setTextColor(...TEXT_COLOR)
+
+      if (item.task) {
+        doc.setDrawColor(...MUTED_COLOR)
+        doc.setLineWidth(0.3)
+        doc.rect(x + 0.5, markerY - 2.8, 3, 3)
+        if (item.checked) {
+          doc.line(x + 1, markerY - 1.3, x + 1.8, markerY - 0.4)
+          doc.line(x + 1.8, markerY - 0.4, x + 3.2, markerY - 2.4)
+        }
+      } else if (token.ordered) {
+        doc.setFont('helvetica', 'normal')
+        doc.setFontSize(BODY_SIZE)
+        doc.text(`${start + index}.`, x, markerY)
+      } else {
+        doc.setFillColor(...TEXT_COLOR)
+        doc.circle(x + 1.5, markerY - 1.2, 0.7, 'F')
+      }
+
+      writeBlocks(item.tokens, x + LIST_INDENT, true)
+    })
+    y += 1.5
+  }
+
+  const writeTable = (token: Tokens.Table, x: number) => {
+    const width = PAGE_WIDTH - MARGIN_X - x
+    const fontSize = BODY_SIZE - 1.5
+    const lineHeight = lineHeightFor(fontSize)
+    const header = token.header.map(cell => plainText(cell.tokens))
+    const rows = token.rows.map(row => row.map(cell => plainText(cell.tokens)))
+
+    // Share the width by the longest text in each column, with a floor so short columns stay readable
+    const weights = header.map((cell, column) =>
+      Math.min(40, Math.max(6, cell.length, ...rows.map(row => (row[column] || '').length)))
+    )
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+    const columnWidths = weights.map(weight => (weight / totalWeight) * width)
+
+    const writeRow = (cells: string[], isHeader: boolean) => {
+      doc.setFont('helvetica', isHeader ? 'bold' : 'normal')
+      doc.setFontSize(fontSize)
+      const wrapped: string[][] = cells.map((cell, column) => doc.splitTextToSize(cell || '', columnWidths[column] - CELL_PADDING * 2))
+      const rowHeight = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + CELL_PADDING * 2
+
+      if (y + rowHeight > PAGE_HEIGHT - MARGIN_BOTTOM) {
+        newPage()
+        if (!isHeader) writeRow(header, true) // Repeat the header on every page
+        doc.setFont('helvetica', isHeader ? 'bold' : 'normal')
+        doc.setFontSize(fontSize)
+      }
+
+      let cellX = x
+      wrapped.forEach((lines, column) => {
+        if (isHeader) {
+          doc.setFillColor(...CODE_BACKGROUND)
+          doc.rect(cellX, y, columnWidths[column], rowHeight, 'F')
+        }
+        doc.setDrawColor(...RULE_COLOR)
+        doc.setLineWidth(0.2)
+        doc.rect(cellX, y, columnWidths[column], rowHeight)
+        doc.setTextColor(...TEXT_COLOR)
+
+        const align = token.align[column]
+        lines.forEach((line, lineIndex) => {
+          const baseline = y + CELL_PADDING + lineIndex * lineHeight + fontSize * PT_TO_MM * 1.05
+          if (align === 'right') {
+            doc.text(line, cellX + columnWidths[column] - CELL_PADDING, baseline, { align: 'right' })
+          } else if (align === 'center') {
+            doc.text(line, cellX + columnWidths[column] / 2, baseline, { align: 'center' })
+          } else {
+            doc.text(line, cellX + CELL_PADDING, baseline)
+          }
+        })
+        cellX += columnWidths[column]
+      })
+      y += rowHeight
+    }
+
+    y += 1
+    writeRow(header, true)
+    rows.forEach(row => writeRow(row, false))
+    y += 4
+  }
+
+  const writeBlockquote = (token: Tokens.Blockquote, x: number) => {
+    const startPage = doc.getNumberOfPages()
+    const startY = y
+    writeBlocks(token.tokens, x + 5, false, MUTED_COLOR)
+    const endPage = doc.getNumberOfPages()
+
+    // The bar follows the quote across page breaks
+    doc.setDrawColor(...ACCENT_COLOR)
+    doc.setLineWidth(0.8)
+    for (let page = startPage; page <= endPage; page++) {
+      doc.setPage(page)
+      const top = page === startPage ? startY : MARGIN_TOP
+      const bottom = page === endPage ? y - 2 : PAGE_HEIGHT - MARGIN_BOTTOM
+      doc.line(x + 1, top, x + 1, bottom)
+    }
+    doc.setPage(endPage)
+  }
+
+  /**
+   * Lay out block tokens; `tight` skips paragraph spacing inside compact list items
+   */
+  const writeBlocks = (tokens: Token[], x: number, tight = false, color: Color = TEXT_COLOR) => {
+    tokens.forEach(generic => {
+      const token = generic as MarkedToken
+      switch (token.type) {
+        case 'heading':
+          writeHeading(toRuns(token.tokens), token.depth + headingOffset, x)
+          break
+        case 'paragraph':
+          writeRuns(toRuns(token.tokens), { x, width: PAGE_WIDTH - MARGIN_X - x, fontSize: BODY_SIZE, color })
+          y += tight ? 0.5 : 2.5
+          break
+        case 'text':
+          writeRuns(token.tokens ? toRuns(token.tokens) : [{ text: toPdfText(token.text) }], {
+            x,
+            width: PAGE_WIDTH - MARGIN_X - x,
+            fontSize: BODY_SIZE,
+            color,
+          })
+          y += tight ? 0.5 : 2.5
+          break
+        case 'list':
+          writeList(token, x)
+          break
+        case 'code':
+          writeCode(token, x)
+          break
+        case 'table':
+          writeTable(token, x)
+          break
+        case 'blockquote':
+          writeBlockquote(token, x)
+          break
+        case 'hr':
+          ensureSpace(6)
+          doc.setDrawColor(...RULE_COLOR)
+          doc.setLineWidth(0.3)
+          doc.line(x, y + 3, PAGE_WIDTH - MARGIN_X, y + 3)
+          y += 6
+          break
+        case 'html':
+          if (PAGE_BREAK.test(token.text.trim())) {
+            if (y > MARGIN_TOP) newPage()
+          } else {
+            const text = toPdfText(token.text.replace(/<!--[\s\S]*?-->/g, '').replace(/<[^>]+>/g, '')).trim()
+            if (text) writeRuns([{ text }], { x, width: PAGE_WIDTH - MARGIN_X - x, fontSize: BODY_SIZE, color })
+          }
+          break
+        default:
+          break
+      }
+    })
+  }
+
+  // Cover page
+  doc.setFillColor(...ACCENT_COLOR)
+  doc.rect(0, 0, PAGE_WIDTH, 8, 'F')
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(28)
+  doc.setTextColor(...TEXT_COLOR)
+  const titleLines: string[] = doc.splitTextToSize(toPdfText(title), CONTENT_WIDTH)
+  doc.text(titleLines, MARGIN_X, 110)
+  let coverY = 110 + titleLines.length * lineHeightFor(28)
+  if (subtitle) {
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(14)
+    doc.setTextColor(...MUTED_COLOR)
+    doc.text(toPdfText(subtitle), MARGIN_X, coverY)
+    coverY += lineHeightFor(14)
+  }
+  doc.setDrawColor(...ACCENT_COLOR)
+  doc.setLineWidth(0.8)
+  doc.line(MARGIN_X, coverY + 2, MARGIN_X + 40, coverY + 2)
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(10)
+  doc.setTextColor(...MUTED_COLOR)
+  doc.text(`Generated with DocFlow on ${new Date().toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`, MARGIN_X, coverY + 10)
+
+  newPage()
+  chapters.forEach((chapter, index) => {
+    if (index > 0) newPage()
+    headingOffset = chapter.title ? 1 : 0
+    if (chapter.title) writeHeading([{ text: toPdfText(chapter.title) }], 1, MARGIN_X)
+    if (chapter.markdown) writeBlocks(marked.lexer(chapter.markdown), MARGIN_X)
+    if (chapter.image) writeImage(chapter.image)
+  })
+
+  // Running header and page numbers on every page after the cover
+  const pageCount = doc.getNumberOfPages()
+  const headerTitle = toPdfText(subtitle ? `${title} - ${subtitle}` : title)
+  for (let page = 2; page <= pageCount; page++) {
+    doc.setPage(page)
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(8)
+    doc.setTextColor(...MUTED_COLOR)
+    doc.text(doc.splitTextToSize(headerTitle, CONTENT_WIDTH)[0], MARGIN_X, 12)
+    doc.setDrawColor(...RULE_COLOR)
+    doc.setLineWidth(0.2)
+    doc.line(MARGIN_X, 14, PAGE_WIDTH - MARGIN_X, 14)
+    doc.text(`Page ${page - 1} of ${pageCount - 1}`, PAGE_WIDTH / 2, PAGE_HEIGHT - 10, { align: 'center' })
+  }
+
+  return doc
+}
+
+/**
+ * Lay out a single markdown document as a PDF
+ */
+export const renderMarkdownToPDF = (markdown: string, options: PDFOptions): jsPDF => renderChaptersToPDF([{ markdown }], options)
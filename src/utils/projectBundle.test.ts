@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import type { Project } from './storage'
+import { createProjectBundle, parseProjectBundle, BundleImportError, BUNDLE_FORMAT, BUNDLE_VERSION } from './projectBundle'
+
+const PROJECT: Project = {
+  id: 'p1',
+  title: 'TaskPilot',
+  type: 'PRD',
+  description: 'A task manager',
+  content: '# PRD',
+  documents: [
+    { type: 'PRD', content: '# PRD' },
+    { type: 'Specs', content: '# Specs' },
+  ],
+  siteFlow: {
+    nodes: [{ id: 'home', name: 'Home', description: 'Landing page', x: 0, y: 0 }],
+    connections: [],
+  },
+  brief: { projectName: 'TaskPilot', features: ['Boards'], targetUsers: [], problems: [], goals: [], techStack: [] },
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-02T00:00:00.000Z',
+  storageBackend: 'indexeddb',
+}
+
+const bundleText = (changes: Record<string, unknown> = {}, project: Record<string, unknown> = {}) => {
+  const bundle = createProjectBundle(PROJECT)
+  return JSON.stringify({ ...bundle, ...changes, project: { ...bundle.project, ...project } })
+}
+
+describe('parseProjectBundle', () => {
+  it('round-trips an exported project without reporting anything as left out', () => {
+    const { project, rejected } = parseProjectBundle(bundleText())
+    expect(project).toEqual({
+      title: PROJECT.title,
+      type: PROJECT.type,
+      description: PROJECT.description,
+      content: PROJECT.content,
+      documents: PROJECT.documents,
+      siteFlow: PROJECT.siteFlow,
+      brief: PROJECT.brief,
+    })
+    expect(rejected).toEqual([])
+  })
+
+  it('drops invalid parts and lists them instead of failing the import', () => {
+    const { project, rejected } = parseProjectBundle(bundleText({}, {
+      documents: [PROJECT.documents![0], { type: 'Specs', content: 42 }],
+      siteFlow: { nodes: 'none' },
+      brief: { projectName: 7 },
+      type: 'Poem',
+    }))
+    expect(project.documents).toEqual([PROJECT.documents![0]])
+    expect(project.siteFlow).toBeUndefined()
+    expect(project.brief).toBeUndefined()
+    expect(project.type).toBe('PRD')
+    expect(rejected).toEqual(['document Specs', 'site flow', 'brief', 'project type "Poem" (using PRD)'])
+  })
+
+  it('drops documents of unknown types and structured documents that do not parse', () => {
+    const dataModel = { type: 'Data Model', content: JSON.stringify({ entities: [{ name: 'Task', fields: [{ name: 'id', type: 'uuid', primaryKey: true }] }], relations: [] }) }
+    const { project, rejected } = parseProjectBundle(bundleText({}, {
+      documents: [
+        PROJECT.documents![0],
+        { type: 'Poem', content: 'Roses are red' },
+        { type: 'OpenAPI', content: 'openapi: [' },
+        { type: 'Data Model', content: '{ "entities": ' },
+        dataModel,
+      ],
+    }))
+    expect(project.documents).toEqual([PROJECT.documents![0], dataModel])
+    expect(rejected).toEqual(['document Poem (unknown type)', 'document OpenAPI (does not parse)', 'document Data Model (does not parse)'])
+  })
+
+  it('takes the content from the PRD document when the bundle has none', () => {
+    const { project } = parseProjectBundle(bundleText({}, { content: undefined }))
+    expect(project.content).toBe('# PRD')
+  })
+
+  it.each([
+    ['not JSON', 'not json', 'not valid JSON'],
+    ['another format', JSON.stringify({ format: 'something-else' }), 'not a DocFlow project bundle'],
+    ['a fractional version', bundleText({ version: 1.5 }), 'format version'],
+    ['a missing version', bundleText({ version: undefined }), 'format version'],
+    ['a newer version', bundleText({ version: BUNDLE_VERSION + 1 }), 'newer version of DocFlow'],
+    ['no title', bundleText({}, { title: '  ' }), 'project with a title'],
+  ])('rejects a file with %s', (_, text, message) => {
+    expect(() => parseProjectBundle(text)).toThrow(BundleImportError)
+    expect(() => parseProjectBundle(text)).toThrow(message)
+  })
+})
+
+describe('createProjectBundle', () => {
+  it('leaves out where the project was stored', () => {
+    const bundle = createProjectBundle(PROJECT)
+    expect(bundle).toMatchObject({ format: BUNDLE_FORMAT, version: BUNDLE_VERSION })
+    expect(bundle.project).not.toHaveProperty('id')
+    expect(bundle.project).not.toHaveProperty('storageBackend')
+  })
+})
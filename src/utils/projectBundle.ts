@@ -0,0 +1,138 @@
+import type { Project, ProjectDocument } from './storage'
+import type { NewProject } from './storageAdapter'
+import { parseDocuments, parseSiteFlow, parseBrief } from './supabaseStorage'
+import { downloadBlob } from './exportUtils'
+import { findDocumentProblems } from './documentValidation'
+import type { Json } from '../types/database.types'
+
+export const BUNDLE_FORMAT = 'docflow-project'
+export const BUNDLE_VERSION = 1
+export const BUNDLE_EXTENSION = '.docflow'
+
+const PROJECT_TYPES: Project['type'][] = ['PRD', 'Design Prompt', 'User Stories', 'Specs']
+const DOCUMENT_TYPES: ProjectDocument['type'][] = [...PROJECT_TYPES, 'Data Model', 'OpenAPI']
+
+/**
+ * A project exported from one DocFlow instance, importable into another
+ */
+export type ProjectBundle = {
+  format: typeof BUNDLE_FORMAT
+  version: number
+  exportedAt: string
+  project: Omit<Project, 'id' | 'storageBackend' | 'syncStatus'>
+}
+
+export type BundleImport = {
+  project: NewProject
+  rejected: string[] // Parts of the bundle that failed validation or cannot be kept, and were left out
+}
+
+/**
+ * Thrown when a file is not a DocFlow bundle at all, as opposed to one with some invalid parts
+ */
+export class BundleImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BundleImportError'
+  }
+}
+
+export const createProjectBundle = (project: Project): ProjectBundle => ({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  project: {
+    title: project.title,
+    type: project.type,
+    description: project.description,
+    content: project.content,
+    documents: project.documents,
+    siteFlow: project.siteFlow,
+    brief: project.brief,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+  },
+})
+
+/**
+ * Download a project as a .docflow bundle
+ */
+export const exportProjectBundle = (project: Project) => {
+  downloadBlob(new Blob([JSON.stringify(createProjectBundle(project), null, 2)], { type: 'application/json' }), `${project.title}${BUNDLE_EXTENSION}`)
+}
+
+/**
+ * Validate a bundle's text and turn it into a project ready to save.
+ * Invalid documents (including OpenAPI and Data Model documents that don't parse), site flow or brief
+ * are dropped and listed in `rejected`. The original dates are not kept, since a saved project is
+ * always dated now. Only a file that is not a bundle at all throws
+ */
+export const parseProjectBundle = (text: string): BundleImport => {
+  let bundle: Record<string, unknown>
+  try {
+    bundle = JSON.parse(text)
+  } catch {
+    throw new BundleImportError('This file is not valid JSON.')
+  }
+
+  if (!bundle || typeof bundle !== 'object' || bundle.format !== BUNDLE_FORMAT) {
+    throw new BundleImportError('This file is not a DocFlow project bundle.')
+  }
+  if (typeof bundle.version !== 'number' || !Number.isInteger(bundle.version) || bundle.version < 1) {
+    throw new BundleImportError('This bundle is invalid: its format version is missing or not a positive whole number.')
+  }
+  if (bundle.version > BUNDLE_VERSION) {
+    throw new BundleImportError(`This bundle was made by a newer version of DocFlow (format v${bundle.version}). Please update and try again.`)
+  }
+
+  const data = bundle.project as Record<string, unknown> | undefined
+  if (!data || typeof data !== 'object' || typeof data.title !== 'string' || !data.title.trim()) {
+    throw new BundleImportError('The bundle does not contain a project with a title.')
+  }
+
+  const rejected: string[] = []
+
+  const rawDocuments = Array.isArray(data.documents) ? data.documents : []
+  if (data.documents !== undefined && !Array.isArray(data.documents)) {
+    rejected.push('documents (not a list)')
+  }
+  const wellFormed = parseDocuments(rawDocuments as Json) || []
+  const documents: ProjectDocument[] = []
+  rawDocuments.forEach((doc, index) => {
+    const label = doc && typeof doc === 'object' && typeof doc.type === 'string' ? doc.type : `#${index + 1}`
+    if (!wellFormed.includes(doc)) {
+      rejected.push(`document ${label}`)
+    } else if (!DOCUMENT_TYPES.includes(doc.type)) {
+      rejected.push(`document ${label} (unknown type)`)
+    } else if (findDocumentProblems(doc).length > 0) {
+      rejected.push(`document ${label} (does not parse)`)
+    } else {
+      documents.push(doc)
+    }
+  })
+
+  const siteFlow = data.siteFlow ? parseSiteFlow(data.siteFlow as Json) : undefined
+  if (data.siteFlow && !siteFlow) rejected.push('site flow')
+
+  const brief = data.brief ? parseBrief(data.brief as Json) : undefined
+  if (data.brief && !brief) rejected.push('brief')
+
+  const type = PROJECT_TYPES.includes(data.type as Project['type']) ? data.type as Project['type'] : 'PRD'
+  if (data.type !== type) rejected.push(`project type "${String(data.type)}" (using PRD)`)
+
+  const prd = documents.find(doc => doc.type === 'PRD') || documents[0]
+  const content = typeof data.content === 'string' ? data.content : prd?.content || ''
+
+  return {
+    project: {
+      title: data.title.trim(),
+      type,
+      description: typeof data.description === 'string' ? data.description : '',
+      content,
+      ...(documents.length > 0 ? { documents } : {}),
+      ...(siteFlow ? { siteFlow } : {}),
+      ...(brief ? { brief } : {}),
+    },
+    rejected,
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { validateSiteFlow, isSiteFlowNodeType, MAX_SITE_FLOW_NODES } from './siteFlow'
+
+describe('validateSiteFlow', () => {
+  it('accepts a flow, normalising ids, names, types and missing connection types', () => {
+    expect(validateSiteFlow({
+      nodes: [
+        { id: 1, name: ' Homepage ', type: 'Page', description: 'Landing page' },
+        { id: 'auth', name: 'Auth API', type: 'api' },
+      ],
+      connections: [
+        { from: 1, to: 'auth' },
+        { from: '1', to: 'auth', type: 'failure' }, // Repeated transition
+        { from: 'auth', to: '1', type: 'conditional' },
+      ],
+    })).toEqual({
+      flow: {
+        nodes: [
+          { id: '1', name: 'Homepage', type: 'page', description: 'Landing page' },
+          { id: 'auth', name: 'Auth API', type: 'api', description: '' },
+        ],
+        connections: [
+          { from: '1', to: 'auth', type: 'success' },
+          { from: 'auth', to: '1', type: 'conditional' },
+        ],
+      },
+      errors: [],
+    })
+  })
+
+  it('accepts a single node without connections', () => {
+    expect(validateSiteFlow({ nodes: [{ id: 'home', name: 'Home', type: 'page' }] }).flow?.nodes).toHaveLength(1)
+  })
+
+  it('rejects flows that are not a node list, empty or too large', () => {
+    expect(validateSiteFlow([]).errors).toEqual(['The site flow must be an object with a "nodes" array'])
+    expect(validateSiteFlow({ nodes: [] }).errors).toEqual(['The site flow needs at least one node'])
+    const nodes = Array.from({ length: MAX_SITE_FLOW_NODES + 1 }, (_, index) => ({ id: `n${index}`, name: 'Page', type: 'page' }))
+    expect(validateSiteFlow({ nodes }).errors).toEqual([`The site flow has ${MAX_SITE_FLOW_NODES + 1} nodes, keep it to ${MAX_SITE_FLOW_NODES} or fewer`])
+  })
+
+  it('lists every problem with the nodes and connections', () => {
+    const { flow, errors } = validateSiteFlow({
+      nodes: [
+        { name: 'No id', type: 'page' },
+        { id: 'a', type: 'page' },
+        { id: 'b', name: 'B', type: 'modal' },
+        { id: 'c', name: 'C', type: 'page' },
+        { id: 'c', name: 'Again', type: 'form' },
+        { id: 'd', name: 'D', type: 'form' },
+      ],
+      connections: [
+        { from: 'c' },
+        { from: 'c', to: 'zzz' },
+        { from: 'c', to: 'c' },
+        { from: 'c', to: 'd', type: 'maybe' },
+      ],
+    })
+    expect(flow).toBeNull()
+    expect(errors).toEqual([
+      'nodes[0] needs an "id"',
+      'Node "a" needs a "name"',
+      'Node "b" has an unknown type "modal" (use one of page, form, auth, payment, notification, integration, analytics, api, database, trigger, action, condition, webhook)',
+      'Node id "c" is used more than once',
+      'connections[0] needs "from" and "to" node ids',
+      'connections[1] refers to an unknown node "zzz"',
+      'connections[2] connects node "c" to itself',
+      'connections[3] has an unknown type "maybe" (use one of success, failure, conditional)',
+    ])
+  })
+
+  it('asks for connections when several nodes have none', () => {
+    expect(validateSiteFlow({ nodes: [{ id: 'a', name: 'A', type: 'page' }, { id: 'b', name: 'B', type: 'page' }] }).errors)
+      .toEqual(['The site flow needs connections between its nodes'])
+  })
+})
+
+describe('isSiteFlowNodeType', () => {
+  it('recognises node types', () => {
+    expect(isSiteFlowNodeType('payment')).toBe(true)
+    expect(isSiteFlowNodeType('Payment')).toBe(false)
+    expect(isSiteFlowNodeType(undefined)).toBe(false)
+  })
+})
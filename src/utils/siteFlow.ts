@@ -0,0 +1,155 @@
+export const SITE_FLOW_NODE_TYPES = ['page', 'form', 'auth', 'payment', 'notification', 'integration', 'analytics', 'api', 'database', 'trigger', 'action', 'condition', 'webhook'] as const
+
+export type SiteFlowNodeType = typeof SITE_FLOW_NODE_TYPES[number]
+
+export const SITE_FLOW_CONNECTION_TYPES = ['success', 'failure', 'conditional'] as const
+
+export type SiteFlowConnectionType = typeof SITE_FLOW_CONNECTION_TYPES[number]
+
+// Color scheme
+export const SITE_FLOW_NODE_COLORS: Record<SiteFlowNodeType, string> = {
+  trigger: '#F59E0B',      // Site Yellow
+  action: '#F59E0B',       // Site Yellow
+  condition: '#F59E0B',    // Site Yellow
+  webhook: '#F59E0B',      // Site Yellow
+  api: '#F59E0B',          // Site Yellow
+  database: '#F59E0B',     // Site Yellow
+  page: '#10B981',         // Emerald Green
+  form: '#3B82F6',         // Blue
+  auth: '#8B5CF6',         // Purple
+  payment: '#EF4444',      // Red
+  notification: '#F97316', // Orange
+  integration: '#06B6D4',  // Cyan
+  analytics: '#84CC16'     // Lime Green
+}
+
+// Success links take the colour of the node they leave
+export const SITE_FLOW_CONNECTION_COLORS: Record<Exclude<SiteFlowConnectionType, 'success'>, string> = {
+  failure: '#EF4444',     // Red
+  conditional: '#F59E0B', // Amber
+}
+
+const BOLT_ICON = 'M13 10V3L4 14h7v7l9-11h-7z'
+const DOCUMENT_ICON = 'M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z'
+
+// Stroke paths for each node type's icon, drawn on a 24x24 grid
+export const SITE_FLOW_ICON_PATHS: Record<SiteFlowNodeType, string> = {
+  trigger: BOLT_ICON,
+  action: BOLT_ICON,
+  condition: 'M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2',
+  webhook: 'M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z',
+  api: 'M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4',
+  database: 'M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4',
+  page: DOCUMENT_ICON,
+  form: DOCUMENT_ICON,
+  auth: 'M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z',
+  payment: 'M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z',
+  notification: 'M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9',
+  integration: BOLT_ICON,
+  analytics: 'M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z',
+}
+
+// Nodes grow with their text, within limits that keep the layout even. The editor, the layouts and
+// the exports all size nodes here so they agree
+export const SITE_FLOW_NODE_HEIGHT = 140
+export const SITE_FLOW_NODE_MIN_WIDTH = 180
+export const SITE_FLOW_NODE_MAX_WIDTH = 280
+
+export const getSiteFlowNodeWidth = (name?: string, description?: string): number => {
+  // Rough text widths: ~6px per character of the 11px name, ~5px of the 8px description
+  const textWidth = Math.max((name?.length || 0) * 6, (description?.length || 0) * 5)
+  // 60px for padding, the icon and the status dot
+  return Math.min(Math.max(SITE_FLOW_NODE_MIN_WIDTH, textWidth + 60), SITE_FLOW_NODE_MAX_WIDTH)
+}
+
+export const getSiteFlowNodeSize = (node: { name?: string; description?: string }) => ({
+  width: getSiteFlowNodeWidth(node.name, node.description),
+  height: SITE_FLOW_NODE_HEIGHT,
+})
+
+export const isSiteFlowNodeType = (value: unknown): value is SiteFlowNodeType =>
+  typeof value === 'string' && (SITE_FLOW_NODE_TYPES as readonly string[]).includes(value)
+
+/**
+ * A site flow as the AI describes it: pages, backend services and the transitions between them.
+ * Positions are left to the auto-layout
+ */
+export type GeneratedSiteFlow = {
+  nodes: Array<{ id: string; name: string; type: SiteFlowNodeType; description: string }>
+  connections: Array<{ from: string; to: string; type: SiteFlowConnectionType }>
+}
+
+export const MAX_SITE_FLOW_NODES = 40
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isConnectionType = (value: unknown): value is SiteFlowConnectionType =>
+  typeof value === 'string' && (SITE_FLOW_CONNECTION_TYPES as readonly string[]).includes(value)
+
+/**
+ * Check a parsed value against the GeneratedSiteFlow shape. Numeric ids are accepted as strings,
+ * a missing connection type means "success" and repeated transitions are dropped
+ */
+export const validateSiteFlow = (value: unknown): { flow: GeneratedSiteFlow | null; errors: string[] } => {
+  if (!isObject(value) || !Array.isArray(value.nodes)) {
+    return { flow: null, errors: ['The site flow must be an object with a "nodes" array'] }
+  }
+  if (value.nodes.length === 0) return { flow: null, errors: ['The site flow needs at least one node'] }
+  if (value.nodes.length > MAX_SITE_FLOW_NODES) return { flow: null, errors: [`The site flow has ${value.nodes.length} nodes, keep it to ${MAX_SITE_FLOW_NODES} or fewer`] }
+
+  const errors: string[] = []
+  const nodes: GeneratedSiteFlow['nodes'] = []
+
+  value.nodes.forEach((raw, index) => {
+    const id = isObject(raw) && (typeof raw.id === 'string' || typeof raw.id === 'number') ? String(raw.id).trim() : ''
+    if (!isObject(raw) || !id) {
+      errors.push(`nodes[${index}] needs an "id"`)
+      return
+    }
+    if (typeof raw.name !== 'string' || !raw.name.trim()) {
+      errors.push(`Node "${id}" needs a "name"`)
+      return
+    }
+    const type = typeof raw.type === 'string' ? raw.type.trim().toLowerCase() : raw.type
+    if (!isSiteFlowNodeType(type)) {
+      errors.push(`Node "${id}" has an unknown type "${String(raw.type)}" (use one of ${SITE_FLOW_NODE_TYPES.join(', ')})`)
+      return
+    }
+    if (nodes.some(node => node.id === id)) {
+      errors.push(`Node id "${id}" is used more than once`)
+      return
+    }
+    nodes.push({ id, name: raw.name.trim(), type, description: typeof raw.description === 'string' ? raw.description.trim() : '' })
+  })
+
+  const connections: GeneratedSiteFlow['connections'] = []
+  ;(Array.isArray(value.connections) ? value.connections : []).forEach((raw, index) => {
+    if (!isObject(raw) || (typeof raw.from !== 'string' && typeof raw.from !== 'number') || (typeof raw.to !== 'string' && typeof raw.to !== 'number')) {
+      errors.push(`connections[${index}] needs "from" and "to" node ids`)
+      return
+    }
+    const from = String(raw.from).trim()
+    const to = String(raw.to).trim()
+    const unknown = [from, to].find(id => !nodes.some(node => node.id === id))
+    if (unknown !== undefined) {
+      errors.push(`connections[${index}] refers to an unknown node "${unknown}"`)
+      return
+    }
+    if (from === to) {
+      errors.push(`connections[${index}] connects node "${from}" to itself`)
+      return
+    }
+    const type = raw.type === undefined ? 'success' : raw.type
+    if (!isConnectionType(type)) {
+      errors.push(`connections[${index}] has an unknown type "${String(raw.type)}" (use one of ${SITE_FLOW_CONNECTION_TYPES.join(', ')})`)
+      return
+    }
+    if (connections.some(connection => connection.from === from && connection.to === to)) return
+    connections.push({ from, to, type })
+  })
+
+  if (nodes.length > 1 && connections.length === 0 && errors.length === 0) errors.push('The site flow needs connections between its nodes')
+
+  return errors.length > 0 ? { flow: null, errors } : { flow: { nodes, connections }, errors }
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { wrapText, getSiteFlowBounds, siteFlowToSVG, siteFlowToMermaid, type ExportableSiteFlow } from './siteFlowExport'
+import { getSiteFlowNodeWidth, SITE_FLOW_NODE_HEIGHT, SITE_FLOW_NODE_MIN_WIDTH, SITE_FLOW_NODE_MAX_WIDTH } from './siteFlow'
+
+const FLOW: ExportableSiteFlow = {
+  nodes: [
+    { id: 'home', name: 'Home', description: 'Landing page', x: 0, y: 0, type: 'page' },
+    { id: 'signup', name: 'Sign up for a free account with email', x: 400, y: 200, type: 'form' },
+    { id: 'db', name: 'Users <db>', x: 800, y: 0 },
+  ],
+  connections: [
+    { from: 'home', to: 'signup', type: 'success' },
+    { from: 'signup', to: 'db', type: 'failure' },
+  ],
+}
+
+describe('getSiteFlowNodeWidth', () => {
+  it('grows with the text between the minimum and maximum width', () => {
+    expect(getSiteFlowNodeWidth('Home')).toBe(SITE_FLOW_NODE_MIN_WIDTH)
+    expect(getSiteFlowNodeWidth('x'.repeat(30))).toBe(30 * 6 + 60)
+    expect(getSiteFlowNodeWidth('Home', 'x'.repeat(200))).toBe(SITE_FLOW_NODE_MAX_WIDTH)
+  })
+})
+
+describe('wrapText', () => {
+  it('wraps at word boundaries and cuts off what does not fit', () => {
+    expect(wrapText('Customer account settings and preferences', 20, 2)).toEqual(['Customer account', 'settings and prefer…'])
+    expect(wrapText('Short', 20, 2)).toEqual(['Short'])
+  })
+
+  it('splits words longer than a line', () => {
+    expect(wrapText('Supercalifragilistic', 8, 3)).toEqual(['Supercal', 'ifragili', 'stic'])
+  })
+
+  it('returns nothing when there is no room', () => {
+    expect(wrapText('Text', 10, 0)).toEqual([])
+    expect(wrapText('', 10, 2)).toEqual([])
+  })
+})
+
+describe('getSiteFlowBounds', () => {
+  it('fits the nodes at their editor size plus padding', () => {
+    const signupWidth = getSiteFlowNodeWidth(FLOW.nodes[1].name)
+    expect(getSiteFlowBounds({ nodes: [FLOW.nodes[1]], connections: [] })).toEqual({
+      offsetX: 40 - 400,
+      offsetY: 40 - 200,
+      width: signupWidth + 80,
+      height: SITE_FLOW_NODE_HEIGHT + 80,
+    })
+    expect(getSiteFlowBounds(FLOW).width).toBe(800 + getSiteFlowNodeWidth('Users <db>') + 80)
+  })
+})
+
+describe('siteFlowToSVG', () => {
+  it('draws each node at the size the editor gives it, with escaped text', () => {
+    const svg = siteFlowToSVG(FLOW)
+    expect(svg).toContain(`<rect x="40" y="40" width="${SITE_FLOW_NODE_MIN_WIDTH}" height="${SITE_FLOW_NODE_HEIGHT}"`)
+    expect(svg).toContain(`<rect x="440" y="240" width="${getSiteFlowNodeWidth(FLOW.nodes[1].name)}" height="${SITE_FLOW_NODE_HEIGHT}"`)
+    expect(svg).toContain('Users &lt;db&gt;')
+    expect(svg).toContain('>failure</text>')
+  })
+
+  it('starts links on the edge of the box they leave', () => {
+    const svg = siteFlowToSVG({ nodes: [FLOW.nodes[0], { ...FLOW.nodes[2], x: 400 }], connections: [{ from: 'home', to: 'db' }] })
+    expect(svg).toContain(`<line x1="${40 + SITE_FLOW_NODE_MIN_WIDTH}.0" y1="${40 + SITE_FLOW_NODE_HEIGHT / 2}.0" x2="440.0"`)
+  })
+})
+
+describe('siteFlowToMermaid', () => {
+  it('writes a flowchart with renumbered ids, typed links and type colours', () => {
+    expect(siteFlowToMermaid(FLOW)).toBe([
+      'flowchart LR',
+      '  n1["Home"]',
+      '  n2["Sign up for a free account with email"]',
+      '  n3["Users <db>"]',
+      '  n1 --> n2',
+      '  n2 -.->|failure| n3',
+      '  classDef page stroke:#10B981,stroke-width:2px',
+      '  class n1 page',
+      '  classDef form stroke:#3B82F6,stroke-width:2px',
+      '  class n2 form',
+    ].join('\n') + '\n')
+  })
+})
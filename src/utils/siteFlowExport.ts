@@ -0,0 +1,256 @@
+import { SITE_FLOW_NODE_TYPES, SITE_FLOW_NODE_COLORS, SITE_FLOW_CONNECTION_COLORS, SITE_FLOW_ICON_PATHS, SITE_FLOW_NODE_HEIGHT, getSiteFlowNodeSize, isSiteFlowNodeType, type SiteFlowNodeType } from './siteFlow'
+
+/**
+ * A saved site flow, or the editor's, which also carries node and link types
+ */
+export type ExportableSiteFlow = {
+  nodes: Array<{ id: string; name: string; description?: string; x: number; y: number; isParent?: boolean; type?: string; color?: string }>
+  connections: Array<{ from: string; to: string; type?: string }>
+}
+
+export type SiteFlowExportFormat = 'SVG' | 'PNG' | 'Mermaid'
+
+export const SITE_FLOW_EXPORT_FORMATS: SiteFlowExportFormat[] = ['SVG', 'PNG', 'Mermaid']
+
+// Appended to the diagram's file name
+export const SITE_FLOW_EXPORT_FILES: Record<SiteFlowExportFormat, string> = {
+  SVG: '.svg',
+  PNG: '.png',
+  Mermaid: '.mmd',
+}
+
+export const isSiteFlowExportFormat = (format: string): format is SiteFlowExportFormat => format in SITE_FLOW_EXPORT_FILES
+
+const PADDING = 40
+
+// Text metrics for the exported node labels
+const NAME_FONT_SIZE = 13
+const NAME_LINE_HEIGHT = 16
+const NAME_CHAR_WIDTH = 7.5
+const DESCRIPTION_FONT_SIZE = 10
+const DESCRIPTION_LINE_HEIGHT = 13
+const DESCRIPTION_CHAR_WIDTH = 5.5
+const TEXT_INSET = 12
+
+const escapeXML = (text: string): string =>
+  text.replace(/[<>&"']/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' })[char] as string)
+
+const truncate = (text: string, max: number): string => (text.length > max ? `${text.slice(0, max - 1)}…` : text)
+
+/**
+ * Break text into lines of at most maxChars, splitting words that don't fit on a line of their own.
+ * Text beyond maxLines is cut off with an ellipsis
+ */
+export const wrapText = (text: string, maxChars: number, maxLines: number): string[] => {
+  if (maxChars < 1 || maxLines < 1) return []
+  const words = text.trim().split(/\s+/).filter(Boolean)
+    .flatMap(word => word.match(new RegExp(`.{1,${maxChars}}`, 'g')) || [])
+  const lines: string[] = []
+  words.forEach(word => {
+    const last = lines[lines.length - 1]
+    if (last !== undefined && last.length + 1 + word.length <= maxChars) {
+      lines[lines.length - 1] = `${last} ${word}`
+    } else {
+      lines.push(word)
+    }
+  })
+  if (lines.length <= maxLines) return lines
+  const kept = lines.slice(0, maxLines)
+  kept[maxLines - 1] = truncate(`${kept[maxLines - 1]} ${lines[maxLines]}`, maxChars)
+  return kept
+}
+
+/**
+ * Size of the exported diagram in pixels, with node positions shifted so the top-left node sits at the padding
+ */
+export const getSiteFlowBounds = (siteFlow: ExportableSiteFlow) => {
+  if (siteFlow.nodes.length === 0) return { offsetX: PADDING, offsetY: PADDING, width: PADDING * 2, height: PADDING * 2 }
+
+  const minX = Math.min(...siteFlow.nodes.map(node => node.x))
+  const minY = Math.min(...siteFlow.nodes.map(node => node.y))
+  const maxX = Math.max(...siteFlow.nodes.map(node => node.x + getSiteFlowNodeSize(node).width))
+  const maxY = Math.max(...siteFlow.nodes.map(node => node.y + SITE_FLOW_NODE_HEIGHT))
+
+  return {
+    offsetX: PADDING - minX,
+    offsetY: PADDING - minY,
+    width: Math.ceil(maxX - minX + PADDING * 2),
+    height: Math.ceil(maxY - minY + PADDING * 2),
+  }
+}
+
+type NodeBox = { x: number; y: number; width: number; height: number }
+
+// Where a line from the centre of a node towards (toX, toY) leaves the node's box
+const boxEdgePoint = (box: NodeBox, toX: number, toY: number): [number, number] => {
+  const dx = toX - box.x
+  const dy = toY - box.y
+  if (dx === 0 && dy === 0) return [box.x, box.y]
+  const scale = 1 / Math.max(Math.abs(dx) / (box.width / 2), Math.abs(dy) / (box.height / 2))
+  return [box.x + dx * scale, box.y + dy * scale]
+}
+
+// Node types and link types are only in flows saved from the editor; older flows are drawn plainly
+const nodeColor = (node: ExportableSiteFlow['nodes'][number]): string | undefined =>
+  node.color || (isSiteFlowNodeType(node.type) ? SITE_FLOW_NODE_COLORS[node.type] : undefined)
+
+const connectionColor = (connection: ExportableSiteFlow['connections'][number], from: ExportableSiteFlow['nodes'][number]): string =>
+  connection.type === 'failure' || connection.type === 'conditional'
+    ? SITE_FLOW_CONNECTION_COLORS[connection.type]
+    : nodeColor(from) || '#9E9E9E'
+
+/**
+ * Draw a site flow as a standalone SVG document, with each node's type icon and the
+ * failure and conditional links labelled
+ */
+export const siteFlowToSVG = (siteFlow: ExportableSiteFlow): string => {
+  const { offsetX, offsetY, width, height } = getSiteFlowBounds(siteFlow)
+  const nodesById = new Map(siteFlow.nodes.map(node => [node.id, node]))
+  // Centred boxes, sized as in the editor
+  const centers = new Map(siteFlow.nodes.map((node): [string, NodeBox] => {
+    const { width, height } = getSiteFlowNodeSize(node)
+    return [node.id, { x: node.x + offsetX + width / 2, y: node.y + offsetY + height / 2, width, height }]
+  }))
+
+  // One arrowhead per link colour
+  const markers = new Map<string, string>()
+  const markerFor = (color: string) => {
+    if (!markers.has(color)) markers.set(color, `arrow-${markers.size}`)
+    return markers.get(color) as string
+  }
+
+  const edges = siteFlow.connections.flatMap(connection => {
+    const from = centers.get(connection.from)
+    const to = centers.get(connection.to)
+    const fromNode = nodesById.get(connection.from)
+    if (!from || !to || !fromNode) return []
+    const [x1, y1] = boxEdgePoint(from, to.x, to.y)
+    const [x2, y2] = boxEdgePoint(to, from.x, from.y)
+    const color = connectionColor(connection, fromNode)
+    const line = `  <line x1="${x1.toFixed(1)}" y1="${y1.toFixed(1)}" x2="${x2.toFixed(1)}" y2="${y2.toFixed(1)}" stroke="${color}" stroke-width="1.5" marker-end="url(#${markerFor(color)})" />`
+    if (connection.type !== 'failure' && connection.type !== 'conditional') return [line]
+    return [
+      line,
+      `  <text x="${((x1 + x2) / 2).toFixed(1)}" y="${((y1 + y2) / 2 - 4).toFixed(1)}" font-size="9" font-weight="600" text-anchor="middle" fill="${color}" stroke="#FAFAF8" stroke-width="3" paint-order="stroke">${connection.type}</text>`,
+    ]
+  })
+
+  const nodes = siteFlow.nodes.map(node => {
+    const x = node.x + offsetX
+    const y = node.y + offsetY
+    const { width, height } = getSiteFlowNodeSize(node)
+    const color = nodeColor(node)
+    const stroke = node.isParent ? '#D9A441' : color || '#BDBDBD'
+    const textX = isSiteFlowNodeType(node.type) ? x + 36 : x + TEXT_INSET
+    // Long names and descriptions wrap inside the box, as they do in the editor
+    const nameLines = wrapText(node.name, Math.floor((x + width - TEXT_INSET - textX) / NAME_CHAR_WIDTH), 2)
+    const descriptionTop = y + 28 + nameLines.length * NAME_LINE_HEIGHT
+    const descriptionLines = wrapText(
+      node.description || '',
+      Math.floor((width - TEXT_INSET * 2) / DESCRIPTION_CHAR_WIDTH),
+      Math.max(0, Math.floor((y + height - TEXT_INSET - descriptionTop) / DESCRIPTION_LINE_HEIGHT) + 1)
+    )
+    return [
+      `  <g>`,
+      `    <rect x="${x}" y="${y}" width="${width}" height="${height}" rx="8" fill="#FFFFFF" stroke="${stroke}" stroke-width="${node.isParent ? 2 : 1}" />`,
+      isSiteFlowNodeType(node.type)
+        ? `    <path transform="translate(${x + TEXT_INSET} ${y + 13}) scale(0.75)" d="${SITE_FLOW_ICON_PATHS[node.type]}" fill="none" stroke="${color}" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" />`
+        : '',
+      ...nameLines.map((line, index) =>
+        `    <text x="${textX}" y="${y + 26 + index * NAME_LINE_HEIGHT}" font-size="${NAME_FONT_SIZE}" font-weight="600" fill="#212121">${escapeXML(line)}</text>`),
+      ...descriptionLines.map((line, index) =>
+        `    <text x="${x + TEXT_INSET}" y="${descriptionTop + index * DESCRIPTION_LINE_HEIGHT}" font-size="${DESCRIPTION_FONT_SIZE}" fill="#6E6E6E">${escapeXML(line)}</text>`),
+      `  </g>`,
+    ].filter(Boolean).join('\n')
+  })
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Helvetica, Arial, sans-serif">`,
+    `  <defs>`,
+    ...Array.from(markers, ([color, id]) => [
+      `    <marker id="${id}" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">`,
+      `      <path d="M 0 0 L 10 5 L 0 10 z" fill="${color}" />`,
+      `    </marker>`,
+    ].join('\n')),
+    `  </defs>`,
+    `  <rect width="100%" height="100%" fill="#FAFAF8" />`,
+    ...edges,
+    ...nodes,
+    `</svg>`,
+  ].join('\n')
+}
+
+// Mermaid shapes that say something about a node type; everything else is a plain box
+const MERMAID_SHAPES: Partial<Record<SiteFlowNodeType, [string, string]>> = {
+  trigger: ['([', '])'],
+  condition: ['{', '}'],
+  database: ['[(', ')]'],
+  webhook: ['>', ']'],
+}
+
+const escapeMermaid = (text: string): string => text.replace(/\s+/g, ' ').trim().replace(/"/g, '#quot;')
+
+/**
+ * Write a site flow as a Mermaid flowchart, which GitHub and most design doc tools render from a code block.
+ * Node ids are renumbered since saved ids can contain characters Mermaid doesn't allow
+ */
+export const siteFlowToMermaid = (siteFlow: ExportableSiteFlow): string => {
+  const ids = new Map(siteFlow.nodes.map((node, index) => [node.id, `n${index + 1}`]))
+
+  const nodes = siteFlow.nodes.map(node => {
+    const [open, close] = (isSiteFlowNodeType(node.type) && MERMAID_SHAPES[node.type]) || ['[', ']']
+    return `  ${ids.get(node.id)}${open}"${escapeMermaid(node.name)}"${close}`
+  })
+
+  const edges = siteFlow.connections.flatMap(connection => {
+    const from = ids.get(connection.from)
+    const to = ids.get(connection.to)
+    if (!from || !to) return []
+    if (connection.type === 'failure') return [`  ${from} -.->|failure| ${to}`]
+    if (connection.type === 'conditional') return [`  ${from} -->|conditional| ${to}`]
+    return [`  ${from} --> ${to}`]
+  })
+
+  // Colour the nodes by type, as in the editor
+  const styles = SITE_FLOW_NODE_TYPES.flatMap(type => {
+    const members = siteFlow.nodes.filter(node => node.type === type).map(node => ids.get(node.id))
+    if (members.length === 0) return []
+    return [`  classDef ${type} stroke:${SITE_FLOW_NODE_COLORS[type]},stroke-width:2px`, `  class ${members.join(',')} ${type}`]
+  })
+
+  return ['flowchart LR', ...nodes, ...edges, ...styles].join('\n') + '\n'
+}
+
+/**
+ * Rasterise a site flow through a canvas. `scale` sharpens the image for print
+ */
+export const siteFlowToPNG = async (siteFlow: ExportableSiteFlow, scale = 2): Promise<{ dataURL: string; width: number; height: number }> => {
+  const { width, height } = getSiteFlowBounds(siteFlow)
+  const url = URL.createObjectURL(new Blob([siteFlowToSVG(siteFlow)], { type: 'image/svg+xml' }))
+
+  try {
+    const image = new Image()
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve()
+      image.onerror = () => reject(new Error('Failed to render the site flow diagram'))
+      image.src = url
+    })
+
+    const canvas = document.createElement('canvas')
+    canvas.width = width * scale
+    canvas.height = height * scale
+    const context = canvas.getContext('2d')
+    if (!context) throw new Error('Canvas is not available in this browser')
+    context.scale(scale, scale)
+    context.drawImage(image, 0, 0, width, height)
+
+    return { dataURL: canvas.toDataURL('image/png'), width, height }
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+export const dataURLToBytes = (dataURL: string): Uint8Array => {
+  const binary = atob(dataURL.slice(dataURL.indexOf(',') + 1))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { applyCommand, revertCommand, recordCommand, describeCommand, getSiteFlowHistory, clearSiteFlowHistory, type Flow, type SiteFlowCommand } from './siteFlowHistory'
+
+type Node = { id: string; name: string; x: number; y: number }
+type Connection = { from: string; to: string; type: string }
+type Command = SiteFlowCommand<Node, Connection>
+
+const FLOW: Flow<Node, Connection> = {
+  nodes: [
+    { id: 'home', name: 'Home', x: 0, y: 0 },
+    { id: 'login', name: 'Login', x: 300, y: 0 },
+    { id: 'dashboard', name: 'Dashboard', x: 600, y: 0 },
+  ],
+  connections: [
+    { from: 'home', to: 'login', type: 'success' },
+    { from: 'login', to: 'dashboard', type: 'success' },
+    { from: 'home', to: 'dashboard', type: 'conditional' },
+    { from: 'login', to: 'home', type: 'failure' },
+  ],
+}
+
+const COMMANDS: Command[] = [
+  { kind: 'move', nodeId: 'login', from: { x: 300, y: 0 }, to: { x: 320, y: 80 } },
+  { kind: 'addNode', node: { id: 'settings', name: 'Settings', x: 900, y: 0 } },
+  {
+    kind: 'deleteNode',
+    node: FLOW.nodes[1],
+    index: 1,
+    connections: [
+      { connection: FLOW.connections[3], index: 3 },
+      { connection: FLOW.connections[0], index: 0 },
+      { connection: FLOW.connections[1], index: 1 },
+    ],
+  },
+  { kind: 'editNode', before: FLOW.nodes[2], after: { ...FLOW.nodes[2], name: 'Overview' } },
+  { kind: 'addConnection', connection: { from: 'dashboard', to: 'home', type: 'success' } },
+  { kind: 'deleteConnection', connection: FLOW.connections[2], index: 2 },
+  { kind: 'replace', label: 're-layout', before: FLOW, after: { ...FLOW, nodes: FLOW.nodes.map(node => ({ ...node, y: 200 })) } },
+]
+
+describe('applyCommand and revertCommand', () => {
+  it.each(COMMANDS.map(command => [command.kind, command] as const))('undo restores the flow exactly after %s', (_, command) => {
+    const applied = applyCommand(FLOW, command)
+    expect(applied).not.toEqual(FLOW)
+    expect(revertCommand(applied, command)).toEqual(FLOW)
+  })
+
+  it('deletes a node together with its connections', () => {
+    const applied = applyCommand(FLOW, COMMANDS[2])
+    expect(applied.nodes.map(node => node.id)).toEqual(['home', 'dashboard'])
+    expect(applied.connections).toEqual([FLOW.connections[2]])
+  })
+
+  it('replays a sequence of edits forwards and backwards', () => {
+    const sequence = COMMANDS.slice(0, 6)
+    const end = sequence.reduce(applyCommand, FLOW)
+    expect([...sequence].reverse().reduce(revertCommand, end)).toEqual(FLOW)
+  })
+})
+
+describe('history', () => {
+  it('caps the undo stack and drops redo on a new edit', () => {
+    const history = getSiteFlowHistory<Node, Connection>('capped')
+    history.redo.push(COMMANDS[0])
+    for (let index = 0; index < 105; index++) {
+      recordCommand(history, { kind: 'move', nodeId: 'home', from: { x: index, y: 0 }, to: { x: index + 1, y: 0 } })
+    }
+    expect(history.undo).toHaveLength(100)
+    expect(history.undo[0]).toMatchObject({ from: { x: 5, y: 0 } })
+    expect(history.redo).toEqual([])
+    clearSiteFlowHistory('capped')
+  })
+
+  it('keeps a history per key until it is cleared', () => {
+    recordCommand(getSiteFlowHistory<Node, Connection>('project-1'), COMMANDS[0])
+    expect(getSiteFlowHistory('project-1').undo).toHaveLength(1)
+    expect(getSiteFlowHistory('project-2').undo).toHaveLength(0)
+
+    clearSiteFlowHistory('project-1')
+    expect(getSiteFlowHistory('project-1').undo).toHaveLength(0)
+  })
+
+  it('names commands for the undo and redo buttons', () => {
+    expect(COMMANDS.map(describeCommand)).toEqual(['move', 'add node', 'delete node', 'edit node', 'add connection', 'delete connection', 're-layout'])
+  })
+})
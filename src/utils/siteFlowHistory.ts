@@ -0,0 +1,124 @@
+type FlowNode = { id: string; x: number; y: number }
+type FlowConnection = { from: string; to: string }
+
+export type Flow<N extends FlowNode, C extends FlowConnection> = {
+  nodes: N[]
+  connections: C[]
+}
+
+/**
+ * One reversible site flow edit. Each command carries what it needs to be undone,
+ * e.g. where a deleted node and its connections sat in their lists
+ */
+export type SiteFlowCommand<N extends FlowNode, C extends FlowConnection> =
+  | { kind: 'move'; nodeId: string; from: { x: number; y: number }; to: { x: number; y: number } }
+  | { kind: 'addNode'; node: N }
+  | { kind: 'deleteNode'; node: N; index: number; connections: Array<{ connection: C; index: number }> }
+  | { kind: 'editNode'; before: N; after: N }
+  | { kind: 'addConnection'; connection: C }
+  | { kind: 'deleteConnection'; connection: C; index: number }
+  | { kind: 'replace'; label: string; before: Flow<N, C>; after: Flow<N, C> } // Generating, regenerating and re-laying out
+
+export type SiteFlowHistory<N extends FlowNode, C extends FlowConnection> = {
+  undo: SiteFlowCommand<N, C>[]
+  redo: SiteFlowCommand<N, C>[]
+}
+
+const MAX_HISTORY = 100
+
+// Kept outside the visualizer so a project's history outlives the component when its tab is switched
+const histories = new Map<string, SiteFlowHistory<FlowNode, FlowConnection>>()
+
+export const getSiteFlowHistory = <N extends FlowNode, C extends FlowConnection>(key: string): SiteFlowHistory<N, C> => {
+  if (!histories.has(key)) histories.set(key, { undo: [], redo: [] })
+  return histories.get(key) as unknown as SiteFlowHistory<N, C>
+}
+
+export const clearSiteFlowHistory = (key: string) => {
+  histories.delete(key)
+}
+
+/**
+ * Add a command that has already been applied. A new edit drops anything that could have been redone
+ */
+export const recordCommand = <N extends FlowNode, C extends FlowConnection>(history: SiteFlowHistory<N, C>, command: SiteFlowCommand<N, C>) => {
+  history.undo.push(command)
+  if (history.undo.length > MAX_HISTORY) history.undo.shift()
+  history.redo = []
+}
+
+const isSameConnection = (a: FlowConnection, b: FlowConnection) => a.from === b.from && a.to === b.to
+
+const insertAt = <T>(list: T[], index: number, item: T): T[] => [...list.slice(0, index), item, ...list.slice(index)]
+
+export const applyCommand = <N extends FlowNode, C extends FlowConnection>(flow: Flow<N, C>, command: SiteFlowCommand<N, C>): Flow<N, C> => {
+  switch (command.kind) {
+    case 'move':
+      return { ...flow, nodes: flow.nodes.map(node => (node.id === command.nodeId ? { ...node, ...command.to } : node)) }
+    case 'addNode':
+      return { ...flow, nodes: [...flow.nodes, command.node] }
+    case 'deleteNode':
+      return {
+        nodes: flow.nodes.filter(node => node.id !== command.node.id),
+        connections: flow.connections.filter(connection => connection.from !== command.node.id && connection.to !== command.node.id),
+      }
+    case 'editNode':
+      return { ...flow, nodes: flow.nodes.map(node => (node.id === command.after.id ? command.after : node)) }
+    case 'addConnection':
+      return { ...flow, connections: [...flow.connections, command.connection] }
+    case 'deleteConnection':
+      return { ...flow, connections: flow.connections.filter(connection => !isSameConnection(connection, command.connection)) }
+    case 'replace':
+      return command.after
+  }
+}
+
+export const revertCommand = <N extends FlowNode, C extends FlowConnection>(flow: Flow<N, C>, command: SiteFlowCommand<N, C>): Flow<N, C> => {
+  switch (command.kind) {
+    case 'move':
+      return { ...flow, nodes: flow.nodes.map(node => (node.id === command.nodeId ? { ...node, ...command.from } : node)) }
+    case 'addNode':
+      return {
+        nodes: flow.nodes.filter(node => node.id !== command.node.id),
+        connections: flow.connections.filter(connection => connection.from !== command.node.id && connection.to !== command.node.id),
+      }
+    case 'deleteNode':
+      // Put the connections back lowest index first so each lands where it was
+      return {
+        nodes: insertAt(flow.nodes, command.index, command.node),
+        connections: [...command.connections]
+          .sort((a, b) => a.index - b.index)
+          .reduce((connections, { connection, index }) => insertAt(connections, index, connection), flow.connections),
+      }
+    case 'editNode':
+      return { ...flow, nodes: flow.nodes.map(node => (node.id === command.before.id ? command.before : node)) }
+    case 'addConnection':
+      return { ...flow, connections: flow.connections.filter(connection => !isSameConnection(connection, command.connection)) }
+    case 'deleteConnection':
+      return { ...flow, connections: insertAt(flow.connections, command.index, command.connection) }
+    case 'replace':
+      return command.before
+  }
+}
+
+/**
+ * Short name for a command, used in the undo and redo button titles
+ */
+export const describeCommand = <N extends FlowNode, C extends FlowConnection>(command: SiteFlowCommand<N, C>): string => {
+  switch (command.kind) {
+    case 'move':
+      return 'move'
+    case 'addNode':
+      return 'add node'
+    case 'deleteNode':
+      return 'delete node'
+    case 'editNode':
+      return 'edit node'
+    case 'addConnection':
+      return 'add connection'
+    case 'deleteConnection':
+      return 'delete connection'
+    case 'replace':
+      return command.label
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { layoutSiteFlow, type SiteFlowLayout } from './siteFlowLayout'
+import { getSiteFlowNodeSize } from './siteFlow'
+
+type Node = { id: string; name: string; description: string; x: number; y: number }
+
+const node = (id: string, name = id): Node => ({ id, name, description: '', x: 0, y: 0 })
+
+const NODES = [node('home', 'Homepage'), node('login', 'Login Page'), node('signup', 'A rather long Sign Up page name'), node('dashboard'), node('settings'), node('auth-api'), node('db')]
+const CONNECTIONS = [
+  { from: 'home', to: 'login' },
+  { from: 'home', to: 'signup' },
+  { from: 'login', to: 'auth-api' },
+  { from: 'signup', to: 'auth-api' },
+  { from: 'auth-api', to: 'db' },
+  { from: 'auth-api', to: 'dashboard' },
+  { from: 'dashboard', to: 'settings' },
+  { from: 'settings', to: 'dashboard' }, // A cycle
+  { from: 'home', to: 'dashboard' }, // Skips layers
+  { from: 'home', to: 'missing' }, // Unknown nodes are ignored
+]
+
+const overlaps = (nodes: Node[]) =>
+  nodes.flatMap((a, i) => nodes.slice(i + 1).filter(b => {
+    const sizeA = getSiteFlowNodeSize(a)
+    const sizeB = getSiteFlowNodeSize(b)
+    return a.x < b.x + sizeB.width && b.x < a.x + sizeA.width && a.y < b.y + sizeB.height && b.y < a.y + sizeA.height
+  }).map(b => `${a.id}/${b.id}`))
+
+describe.each<SiteFlowLayout>(['layered', 'force'])('layoutSiteFlow (%s)', layout => {
+  it('places every node without overlapping boxes, returning copies', () => {
+    const laidOut = layoutSiteFlow(NODES, CONNECTIONS, layout, getSiteFlowNodeSize)
+    expect(laidOut.map(({ id }) => id)).toEqual(NODES.map(({ id }) => id))
+    expect(overlaps(laidOut)).toEqual([])
+    expect(NODES.every(({ x, y }) => x === 0 && y === 0)).toBe(true)
+    expect(laidOut.every(({ x, y }) => Number.isFinite(x) && Number.isFinite(y))).toBe(true)
+  })
+
+  it('gives the same positions for the same input', () => {
+    expect(layoutSiteFlow(NODES, CONNECTIONS, layout, getSiteFlowNodeSize)).toEqual(layoutSiteFlow(NODES, CONNECTIONS, layout, getSiteFlowNodeSize))
+  })
+
+  it('handles empty and single-node flows', () => {
+    expect(layoutSiteFlow([], [], layout, getSiteFlowNodeSize)).toEqual([])
+    expect(layoutSiteFlow([node('home')], [], layout, getSiteFlowNodeSize)).toEqual([{ ...node('home'), x: 100, y: 100 }])
+  })
+})
+
+describe('layered layout', () => {
+  it('puts each page in a column to the right of the pages that lead to it', () => {
+    const laidOut = layoutSiteFlow(NODES, CONNECTIONS, 'layered', getSiteFlowNodeSize)
+    const x = (id: string) => laidOut.find(candidate => candidate.id === id)!.x
+    expect(x('home')).toBeLessThan(x('login'))
+    expect(x('login')).toBeLessThan(x('auth-api'))
+    expect(x('auth-api')).toBeLessThan(x('db'))
+    expect(x('auth-api')).toBeLessThan(x('dashboard'))
+    // Nodes in a column are centred on it
+    const center = (id: string) => x(id) + getSiteFlowNodeSize(laidOut.find(candidate => candidate.id === id)!).width / 2
+    expect(center('login')).toBe(center('signup'))
+  })
+})
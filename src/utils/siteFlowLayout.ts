@@ -0,0 +1,310 @@
+export type SiteFlowLayout = 'layered' | 'force'
+
+export const SITE_FLOW_LAYOUTS: Array<{ value: SiteFlowLayout; label: string }> = [
+  { value: 'layered', label: 'Layered' },
+  { value: 'force', label: 'Force' },
+]
+
+type LayoutNode = { id: string; x: number; y: number }
+type LayoutConnection = { from: string; to: string }
+type NodeSize = { width: number; height: number }
+
+const MARGIN = 100
+const LAYER_GAP = 120 // Between columns of the layered layout
+const NODE_GAP = 40 // Between nodes in a column, and the least space the force layout leaves
+const DUMMY_HEIGHT = 24 // Lane reserved for an edge passing through a column
+const ORDERING_SWEEPS = 12
+const ALIGNMENT_PASSES = 6
+const FORCE_ITERATIONS = 300
+const OVERLAP_PASSES = 50
+
+// Connections between two known, different nodes, each pair once
+const toEdges = (ids: Set<string>, connections: LayoutConnection[]): Array<[string, string]> => {
+  const seen = new Set<string>()
+  return connections.flatMap(({ from, to }): Array<[string, string]> => {
+    const key = `${from}\u0000${to}`
+    if (from === to || !ids.has(from) || !ids.has(to) || seen.has(key)) return []
+    seen.add(key)
+    return [[from, to]]
+  })
+}
+
+/**
+ * Reverse the edges that close a cycle, found by a depth-first search in node order,
+ * so the graph can be split into layers
+ */
+const breakCycles = (ids: string[], edges: Array<[string, string]>): Array<[string, string]> => {
+  const outgoing = new Map(ids.map(id => [id, [] as string[]]))
+  edges.forEach(([from, to]) => outgoing.get(from)!.push(to))
+
+  const state = new Map<string, 'visiting' | 'done'>()
+  const reversed = new Set<string>()
+  const visit = (id: string) => {
+    state.set(id, 'visiting')
+    outgoing.get(id)!.forEach(next => {
+      if (state.get(next) === 'visiting') reversed.add(`${id}\u0000${next}`)
+      else if (!state.has(next)) visit(next)
+    })
+    state.set(id, 'done')
+  }
+  ids.forEach(id => {
+    if (!state.has(id)) visit(id)
+  })
+
+  return edges.map(([from, to]) => (reversed.has(`${from}\u0000${to}`) ? [to, from] : [from, to]))
+}
+
+// Longest path from a source, so every edge points at least one layer forward
+const assignLayers = (ids: string[], edges: Array<[string, string]>): Map<string, number> => {
+  const incoming = new Map(ids.map(id => [id, 0]))
+  const outgoing = new Map(ids.map(id => [id, [] as string[]]))
+  edges.forEach(([from, to]) => {
+    outgoing.get(from)!.push(to)
+    incoming.set(to, incoming.get(to)! + 1)
+  })
+
+  const layers = new Map(ids.map(id => [id, 0]))
+  const queue = ids.filter(id => incoming.get(id) === 0)
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    outgoing.get(id)!.forEach(next => {
+      layers.set(next, Math.max(layers.get(next)!, layers.get(id)! + 1))
+      incoming.set(next, incoming.get(next)! - 1)
+      if (incoming.get(next) === 0) queue.push(next)
+    })
+  }
+  return layers
+}
+
+const countCrossings = (order: string[][], edges: Array<[string, string]>, layerOf: Map<string, number>): number => {
+  const position = new Map(order.flatMap(layer => layer.map((id, index) => [id, index] as const)))
+  let crossings = 0
+  for (let layer = 0; layer < order.length - 1; layer++) {
+    const between = edges.filter(([from]) => layerOf.get(from) === layer)
+    for (let i = 0; i < between.length; i++) {
+      for (let j = i + 1; j < between.length; j++) {
+        const [a1, b1] = between[i]
+        const [a2, b2] = between[j]
+        const top = position.get(a1)! - position.get(a2)!
+        const bottom = position.get(b1)! - position.get(b2)!
+        if (top * bottom < 0) crossings++
+      }
+    }
+  }
+  return crossings
+}
+
+// Order one layer by the mean position of each node's neighbours in the fixed layer; nodes without any keep their place
+const orderByBarycenter = (layer: string[], neighbours: Map<string, string[]>, fixedPosition: Map<string, number>): string[] => {
+  const weights = layer.map((id, index) => {
+    const positions = neighbours.get(id)!.map(other => fixedPosition.get(other)).filter((value): value is number => value !== undefined)
+    return { id, weight: positions.length > 0 ? positions.reduce((sum, value) => sum + value, 0) / positions.length : index }
+  })
+  return weights.sort((a, b) => a.weight - b.weight).map(entry => entry.id)
+}
+
+/**
+ * Sugiyama-style layout flowing left to right: cycles are broken, nodes are put in layers by longest path,
+ * long edges get dummy nodes, barycenter sweeps reduce crossings and each node is then moved towards
+ * its neighbours without overlapping the rest of its column
+ */
+const layeredLayout = <T extends LayoutNode>(nodes: T[], connections: LayoutConnection[], sizeOf: (node: T) => NodeSize): T[] => {
+  const ids = nodes.map(node => node.id)
+  const edges = breakCycles(ids, toEdges(new Set(ids), connections))
+  const layerOf = assignLayers(ids, edges)
+  const sizes = new Map(nodes.map(node => [node.id, sizeOf(node)]))
+
+  // Split edges that skip layers into one-layer steps through dummy nodes
+  const steps: Array<[string, string]> = []
+  let dummyCount = 0
+  edges.forEach(([from, to]) => {
+    let previous = from
+    for (let layer = layerOf.get(from)! + 1; layer < layerOf.get(to)!; layer++) {
+      const dummy = `\u0000dummy${dummyCount++}`
+      layerOf.set(dummy, layer)
+      sizes.set(dummy, { width: 0, height: DUMMY_HEIGHT })
+      steps.push([previous, dummy])
+      previous = dummy
+    }
+    steps.push([previous, to])
+  })
+
+  const layerCount = Math.max(...layerOf.values()) + 1
+  let order: string[][] = Array.from({ length: layerCount }, () => [])
+  layerOf.forEach((layer, id) => order[layer].push(id))
+
+  const predecessors = new Map(Array.from(layerOf.keys(), id => [id, [] as string[]]))
+  const successors = new Map(Array.from(layerOf.keys(), id => [id, [] as string[]]))
+  steps.forEach(([from, to]) => {
+    successors.get(from)!.push(to)
+    predecessors.get(to)!.push(from)
+  })
+
+  const positionsOf = (layers: string[][]) => new Map(layers.flatMap(layer => layer.map((id, index) => [id, index] as const)))
+  let best = order.map(layer => [...layer])
+  let bestCrossings = countCrossings(best, steps, layerOf)
+  for (let sweep = 0; sweep < ORDERING_SWEEPS && bestCrossings > 0; sweep++) {
+    const down = sweep % 2 === 0
+    const next = order.map(layer => [...layer])
+    for (let step = 1; step < layerCount; step++) {
+      const layer = down ? step : layerCount - 1 - step
+      next[layer] = orderByBarycenter(next[layer], down ? predecessors : successors, positionsOf(next))
+    }
+    order = next
+    const crossings = countCrossings(order, steps, layerOf)
+    if (crossings < bestCrossings) {
+      best = order.map(layer => [...layer])
+      bestCrossings = crossings
+    }
+  }
+
+  // Columns are as wide as their widest node
+  const columnWidths = best.map(layer => Math.max(0, ...layer.map(id => sizes.get(id)!.width)))
+  const columnX = columnWidths.reduce<number[]>((xs, _, index) => [...xs, index === 0 ? MARGIN : xs[index - 1] + columnWidths[index - 1] + LAYER_GAP], [])
+
+  // Stack each column, then pull nodes towards the centre of their neighbours while keeping the order and gaps
+  const top = new Map<string, number>()
+  best.forEach(layer => {
+    let y = MARGIN
+    layer.forEach(id => {
+      top.set(id, y)
+      y += sizes.get(id)!.height + NODE_GAP
+    })
+  })
+  const centerOf = (id: string) => top.get(id)! + sizes.get(id)!.height / 2
+
+  for (let pass = 0; pass < ALIGNMENT_PASSES; pass++) {
+    best.forEach(layer => {
+      const desired = layer.map(id => {
+        const linked = [...predecessors.get(id)!, ...successors.get(id)!]
+        const center = linked.length > 0 ? linked.reduce((sum, other) => sum + centerOf(other), 0) / linked.length : centerOf(id)
+        return center - sizes.get(id)!.height / 2
+      })
+      const placed: number[] = []
+      layer.forEach((_, index) => {
+        const previous = index > 0 ? placed[index - 1] + sizes.get(layer[index - 1])!.height + NODE_GAP : -Infinity
+        placed.push(Math.max(desired[index], previous))
+      })
+      // Pushing nodes down to make room drifts the column; shift it back so it sits on its neighbours on average
+      const shift = layer.reduce((sum, _, index) => sum + desired[index] - placed[index], 0) / layer.length
+      layer.forEach((id, index) => top.set(id, placed[index] + shift))
+    })
+  }
+
+  const minY = Math.min(...ids.map(id => top.get(id)!))
+  return nodes.map(node => {
+    const layer = layerOf.get(node.id)!
+    return { ...node, x: columnX[layer] + (columnWidths[layer] - sizes.get(node.id)!.width) / 2, y: Math.round(top.get(node.id)! - minY + MARGIN) }
+  })
+}
+
+/**
+ * Fruchterman-Reingold force-directed layout seeded with the current positions: connected nodes
+ * attract, all nodes repel and are pulled towards the middle, then any boxes still overlapping are pushed apart
+ */
+const forceLayout = <T extends LayoutNode>(nodes: T[], connections: LayoutConnection[], sizeOf: (node: T) => NodeSize): T[] => {
+  const sizes = nodes.map(sizeOf)
+  const index = new Map(nodes.map((node, position) => [node.id, position]))
+  const edges = toEdges(new Set(index.keys()), connections).map(([from, to]) => [index.get(from)!, index.get(to)!] as const)
+
+  // Ideal edge length: a typical node plus a gap
+  const ideal = Math.max(...sizes.map(size => Math.hypot(size.width, size.height))) + NODE_GAP
+  const points = nodes.map((node, position) => {
+    const center = { x: node.x + sizes[position].width / 2, y: node.y + sizes[position].height / 2 }
+    // Nodes on top of each other get nudged apart on a small circle so the forces have a direction
+    const stacked = nodes.some((other, otherPosition) => otherPosition < position && other.x === node.x && other.y === node.y)
+    const angle = (position / nodes.length) * Math.PI * 2
+    return stacked ? { x: center.x + Math.cos(angle) * 10, y: center.y + Math.sin(angle) * 10 } : center
+  })
+
+  for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration++) {
+    const temperature = ideal * (1 - iteration / FORCE_ITERATIONS)
+    const moves = points.map(() => ({ x: 0, y: 0 }))
+
+    for (let i = 0; i < points.length; i++) {
+      for (let j = i + 1; j < points.length; j++) {
+        const dx = points[i].x - points[j].x
+        const dy = points[i].y - points[j].y
+        const distance = Math.max(1, Math.hypot(dx, dy))
+        const force = (ideal * ideal) / distance
+        moves[i].x += (dx / distance) * force
+        moves[i].y += (dy / distance) * force
+        moves[j].x -= (dx / distance) * force
+        moves[j].y -= (dy / distance) * force
+      }
+    }
+
+    edges.forEach(([from, to]) => {
+      const dx = points[from].x - points[to].x
+      const dy = points[from].y - points[to].y
+      const distance = Math.max(1, Math.hypot(dx, dy))
+      const force = (distance * distance) / ideal
+      moves[from].x -= (dx / distance) * force
+      moves[from].y -= (dy / distance) * force
+      moves[to].x += (dx / distance) * force
+      moves[to].y += (dy / distance) * force
+    })
+
+    // A pull towards the middle, as strong as an edge to it, keeps unconnected nodes from drifting off
+    const centerX = points.reduce((sum, point) => sum + point.x, 0) / points.length
+    const centerY = points.reduce((sum, point) => sum + point.y, 0) / points.length
+    points.forEach((point, position) => {
+      const distance = Math.hypot(point.x - centerX, point.y - centerY)
+      moves[position].x -= ((point.x - centerX) * distance) / ideal
+      moves[position].y -= ((point.y - centerY) * distance) / ideal
+    })
+
+    points.forEach((point, position) => {
+      const length = Math.hypot(moves[position].x, moves[position].y)
+      if (length === 0) return
+      const step = Math.min(length, temperature)
+      point.x += (moves[position].x / length) * step
+      point.y += (moves[position].y / length) * step
+    })
+  }
+
+  // Forces keep centres apart but the boxes are wide, so separate any that still overlap along the shallower axis
+  for (let pass = 0; pass < OVERLAP_PASSES; pass++) {
+    let moved = false
+    for (let i = 0; i < points.length; i++) {
+      for (let j = i + 1; j < points.length; j++) {
+        const overlapX = (sizes[i].width + sizes[j].width) / 2 + NODE_GAP - Math.abs(points[i].x - points[j].x)
+        const overlapY = (sizes[i].height + sizes[j].height) / 2 + NODE_GAP - Math.abs(points[i].y - points[j].y)
+        if (overlapX <= 0 || overlapY <= 0) continue
+        moved = true
+        if (overlapX < overlapY) {
+          const push = (points[i].x < points[j].x ? -overlapX : overlapX) / 2
+          points[i].x += push
+          points[j].x -= push
+        } else {
+          const push = (points[i].y < points[j].y ? -overlapY : overlapY) / 2
+          points[i].y += push
+          points[j].y -= push
+        }
+      }
+    }
+    if (!moved) break
+  }
+
+  const minX = Math.min(...points.map((point, position) => point.x - sizes[position].width / 2))
+  const minY = Math.min(...points.map((point, position) => point.y - sizes[position].height / 2))
+  return nodes.map((node, position) => ({
+    ...node,
+    x: Math.round(points[position].x - sizes[position].width / 2 - minX + MARGIN),
+    y: Math.round(points[position].y - sizes[position].height / 2 - minY + MARGIN),
+  }))
+}
+
+/**
+ * Position site flow nodes from their connections. `sizeOf` gives each node's rendered box so the
+ * layout can keep them from overlapping; the returned nodes are copies with new x and y
+ */
+export const layoutSiteFlow = <T extends LayoutNode>(
+  nodes: T[],
+  connections: LayoutConnection[],
+  layout: SiteFlowLayout,
+  sizeOf: (node: T) => NodeSize
+): T[] => {
+  if (nodes.length === 0) return []
+  return layout === 'layered' ? layeredLayout(nodes, connections, sizeOf) : forceLayout(nodes, connections, sizeOf)
+}
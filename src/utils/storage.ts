@@ -1,6 +1,14 @@
+import type { ExtractedInfo } from './contentGenerator'
+
+export type DocumentSource = {
+  provider: string // AI provider that wrote the document, or 'template' for the offline fallback
+  model?: string
+}
+
 export type ProjectDocument = {
-  type: 'PRD' | 'Design Prompt' | 'User Stories' | 'Specs'
+  type: 'PRD' | 'Design Prompt' | 'User Stories' | 'Specs' | 'Data Model' | 'OpenAPI'
   content: string
+  source?: DocumentSource
 }
 
 export type SiteFlowData = {
@@ -27,127 +35,121 @@ export type Project = {
   content: string // Keep for backward compatibility - will contain PRD if multiple docs exist
   documents?: ProjectDocument[] // New: array of all documents
   siteFlow?: SiteFlowData // New: site flow data
+  brief?: ExtractedInfo // Confirmed brief the documents were generated from, reused when regenerating
+  storageBackend?: string // Name of the storage adapter this copy was read from (not persisted)
+  syncStatus?: 'synced' | 'pending' | 'error' // Whether local changes still wait to reach the remote (not persisted)
+  syncError?: string // Why the remote rejected them, when syncStatus is 'error' (not persisted)
   createdAt: string
   updatedAt: string
 }
 
-// Import Supabase storage (will use Supabase if configured, otherwise localStorage)
-import { supabaseStorage } from './supabaseStorage'
-
-// Fallback localStorage storage
-const localStorageStorage = {
-  async getAll(): Promise<Project[]> {
-    const data = localStorage.getItem('docflow-projects')
-    return data ? JSON.parse(data) : []
-  },
+export type ProjectVersion = {
+  id: string
+  projectId: string
+  title: string
+  documents?: ProjectDocument[]
+  siteFlow?: SiteFlowData
+  author?: string // Who saved this version, when known
+  createdAt: string
+}
 
-  async get(id: string): Promise<Project | null> {
-    const projects = await this.getAll()
-    return projects.find(p => p.id === id) || null
-  },
+import { supabaseStorage, isSupabaseConfigured } from './supabaseStorage'
+import { indexedDBStorage, indexedDBOutbox } from './indexedDBStorage'
+import { withOfflineSync } from './offlineSync'
+import { withCache, type StorageAdapter, type NewProject, type ProjectUpdates } from './storageAdapter'
+
+export { StorageQuotaError } from './indexedDBStorage'
+export { ProjectConflictError } from './storageAdapter'
+export type { StorageAdapter, ProjectUpdates } from './storageAdapter'
+
+// Adapters selectable with VITE_STORAGE_BACKEND
+const storageAdapters: Record<string, () => StorageAdapter> = {
+  supabase: () => supabaseStorage,
+  indexeddb: () => indexedDBStorage,
+  'supabase+indexeddb': () => withOfflineSync(supabaseStorage, indexedDBStorage, indexedDBOutbox),
+  'supabase+cache': () => withCache(supabaseStorage, indexedDBStorage), // Cached reads, but writes fail while offline
+}
 
-  async save(project: Omit<Project, 'id' | 'createdAt' | 'updatedAt'>): Promise<Project> {
-    const projects = await this.getAll()
-    const newProject: Project = {
-      ...project,
-      id: Date.now().toString(),
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    }
-    projects.push(newProject)
-    localStorage.setItem('docflow-projects', JSON.stringify(projects))
-    return newProject
-  },
+// Short labels for the backend indicator, keyed by the adapter name a project was read from
+export const STORAGE_BACKEND_LABELS: Record<string, string> = {
+  supabase: 'Cloud',
+  indexeddb: 'This browser',
+}
 
-  async update(id: string, updates: Partial<Omit<Project, 'id' | 'createdAt'>>): Promise<Project | null> {
-    const projects = await this.getAll()
-    const index = projects.findIndex(p => p.id === id)
-    if (index === -1) return null
-    
-    projects[index] = {
-      ...projects[index],
-      ...updates,
-      updatedAt: new Date().toISOString()
-    }
-    localStorage.setItem('docflow-projects', JSON.stringify(projects))
-    return projects[index]
-  },
+/**
+ * Make a custom adapter selectable by name (e.g. from a plugin or test setup)
+ */
+export const registerStorageAdapter = (name: string, create: () => StorageAdapter) => {
+  storageAdapters[name] = create
+  activeAdapter = null
+}
 
-  async delete(id: string): Promise<boolean> {
-    const projects = await this.getAll()
-    const filteredProjects = projects.filter(p => p.id !== id)
-    if (filteredProjects.length === projects.length) return false
-    
-    localStorage.setItem('docflow-projects', JSON.stringify(filteredProjects))
-    return true
-  },
+let activeAdapter: StorageAdapter | null = null
 
-  async clear(): Promise<void> {
-    try {
-      localStorage.removeItem('docflow-projects')
-    } catch (error) {
-      console.error('Failed to clear localStorage:', error)
-    }
-  },
+/**
+ * The adapter chosen by configuration: VITE_STORAGE_BACKEND if set, otherwise
+ * Supabase with an IndexedDB cache when Supabase is configured, else IndexedDB alone
+ */
+export const getStorageAdapter = (): StorageAdapter => {
+  if (activeAdapter) return activeAdapter
 
-  formatDate(dateString: string): string {
-    return new Date(dateString).toLocaleDateString()
+  const fallback = isSupabaseConfigured ? 'supabase+indexeddb' : 'indexeddb'
+  const configured = import.meta.env.VITE_STORAGE_BACKEND || fallback
+  const create = storageAdapters[configured]
+  if (!create) {
+    console.warn(`⚠️ Unknown VITE_STORAGE_BACKEND "${configured}", using "${fallback}". Available: ${Object.keys(storageAdapters).join(', ')}`)
   }
+
+  activeAdapter = (create || storageAdapters[fallback])()
+  console.log(`💾 Storage backend: ${activeAdapter.name}`)
+  return activeAdapter
 }
 
 export const storage = {
   async getAll(): Promise<Project[]> {
-    try {
-      return await supabaseStorage.getAll()
-    } catch (error) {
-      console.warn('⚠️ Supabase failed, falling back to localStorage:', error)
-      return await localStorageStorage.getAll()
-    }
+    return await getStorageAdapter().getAll()
   },
 
   async get(id: string): Promise<Project | null> {
-    try {
-      return await supabaseStorage.get(id)
-    } catch (error) {
-      console.warn('⚠️ Supabase failed, falling back to localStorage:', error)
-      return await localStorageStorage.get(id)
-    }
+    return await getStorageAdapter().get(id)
   },
 
-  async save(project: Omit<Project, 'id' | 'createdAt' | 'updatedAt'>): Promise<Project> {
-    try {
-      return await supabaseStorage.save(project)
-    } catch (error) {
-      console.warn('⚠️ Supabase failed, falling back to localStorage:', error)
-      return await localStorageStorage.save(project)
-    }
+  async save(project: NewProject): Promise<Project> {
+    return await getStorageAdapter().save(project)
   },
 
-  async update(id: string, updates: Partial<Omit<Project, 'id' | 'createdAt'>>): Promise<Project | null> {
-    try {
-      return await supabaseStorage.update(id, updates)
-    } catch (error) {
-      console.warn('⚠️ Supabase failed, falling back to localStorage:', error)
-      return await localStorageStorage.update(id, updates)
-    }
+  async update(id: string, updates: ProjectUpdates, expectedUpdatedAt?: string): Promise<Project | null> {
+    return await getStorageAdapter().update(id, updates, expectedUpdatedAt)
+  },
+
+  async getVersions(projectId: string): Promise<ProjectVersion[]> {
+    return await getStorageAdapter().getVersions(projectId)
   },
 
   async delete(id: string): Promise<boolean> {
-    try {
-      return await supabaseStorage.delete(id)
-    } catch (error) {
-      console.warn('⚠️ Supabase failed, falling back to localStorage:', error)
-      return await localStorageStorage.delete(id)
-    }
+    return await getStorageAdapter().delete(id)
   },
 
   async clear(): Promise<void> {
-    try {
-      await supabaseStorage.clear()
-    } catch (error) {
-      console.warn('⚠️ Supabase failed, falling back to localStorage:', error)
-      await localStorageStorage.clear()
-    }
+    await getStorageAdapter().clear()
+  },
+
+  async retrySync(id: string): Promise<void> {
+    await getStorageAdapter().retrySync?.(id)
+  },
+
+  async discardUnsynced(id: string): Promise<Project | null> {
+    const adapter = getStorageAdapter()
+    return adapter.discardUnsynced ? await adapter.discardUnsynced(id) : await adapter.get(id)
+  },
+
+  /**
+   * Move projects left in localStorage by older versions to the remote.
+   * With an IndexedDB cache they are migrated into the cache and uploaded from there instead
+   */
+  async migrateFromLocalStorage(): Promise<number> {
+    if (getStorageAdapter().name !== supabaseStorage.name) return 0
+    return await supabaseStorage.migrateFromLocalStorage()
   },
 
   formatDate(dateString: string): string {
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { SITE_FLOW_VERSION_INTERVAL_MS, shouldRecordVersion, withCache } from './storageAdapter'
+import { NEW_PROJECT, createCache, createRemote } from './testing/storageFakes'
+
+const setup = () => {
+  const { remote, store: server } = createRemote()
+  const { cache, store: cached } = createCache()
+  return { storage: withCache(remote, cache), remote, server, cache, cached }
+}
+
+describe('withCache', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('uploads a project only the cache has instead of dropping it when the remote has projects', async () => {
+    const { storage, server, cache, cached } = setup()
+    await server.save({ ...NEW_PROJECT, title: 'On the server' })
+    const local = await cache.save({ ...NEW_PROJECT, title: 'Migrated from localStorage' })
+
+    const projects = await storage.getAll()
+
+    expect(projects.map(project => project.title).sort()).toEqual(['Migrated from localStorage', 'On the server'])
+    expect([...server.projects.values()].map(project => project.title)).toContain('Migrated from localStorage')
+    expect(cached.projects.has(local.id)).toBe(false)
+    expect([...cached.projects.keys()].sort()).toEqual([...server.projects.keys()].sort())
+    expect(await cache.getLocalOnly()).toEqual([])
+  })
+
+  it('keeps a local project whose upload fails, and prunes remote copies the remote no longer has', async () => {
+    const { storage, remote, server, cache, cached } = setup()
+    const stale = await server.save({ ...NEW_PROJECT, title: 'Deleted elsewhere' })
+    await storage.getAll()
+    await server.delete(stale.id)
+    await server.save({ ...NEW_PROJECT, title: 'On the server' })
+    const local = await cache.save({ ...NEW_PROJECT, title: 'Only here' })
+    vi.spyOn(remote, 'save').mockRejectedValue(new Error('User not authenticated'))
+
+    const projects = await storage.getAll()
+
+    expect(projects.map(project => project.title)).toEqual(['On the server'])
+    expect(cached.projects.has(stale.id)).toBe(false)
+    expect(await cache.getLocalOnly()).toMatchObject([{ id: local.id, title: 'Only here' }])
+  })
+})
+
+describe('shouldRecordVersion', () => {
+  const savedAt = '2026-01-01T12:00:00.000Z'
+  const before = (ms: number) => async () => new Date(Date.parse(savedAt) - ms).toISOString()
+  const siteFlow = { nodes: [], connections: [] }
+
+  it('records every document save without looking up the latest version', async () => {
+    const latestVersionAt = vi.fn(before(1000))
+    expect(await shouldRecordVersion({ documents: [] }, savedAt, latestVersionAt)).toBe(true)
+    expect(await shouldRecordVersion({ content: '# PRD', siteFlow }, savedAt, latestVersionAt)).toBe(true)
+    expect(latestVersionAt).not.toHaveBeenCalled()
+  })
+
+  it('records a site flow save at most once per interval', async () => {
+    expect(await shouldRecordVersion({ siteFlow }, savedAt, async () => undefined)).toBe(true)
+    expect(await shouldRecordVersion({ siteFlow }, savedAt, before(SITE_FLOW_VERSION_INTERVAL_MS - 1))).toBe(false)
+    expect(await shouldRecordVersion({ siteFlow }, savedAt, before(SITE_FLOW_VERSION_INTERVAL_MS))).toBe(true)
+  })
+
+  it('does not record saves that only change other fields', async () => {
+    expect(await shouldRecordVersion({ title: 'Renamed' }, savedAt, async () => undefined)).toBe(false)
+  })
+})
@@ -0,0 +1,211 @@
+import type { Project, ProjectVersion } from './storage'
+
+export type NewProject = Omit<Project, 'id' | 'createdAt' | 'updatedAt'>
+
+export type ProjectUpdates = Partial<Omit<Project, 'id' | 'createdAt'>>
+
+/**
+ * The fields of a stored project that another backend needs to save it as its own
+ */
+export const toNewProject = (project: Project): NewProject => ({
+  title: project.title,
+  type: project.type,
+  description: project.description,
+  content: project.content,
+  documents: project.documents,
+  siteFlow: project.siteFlow,
+  brief: project.brief,
+})
+
+// Every backend prunes a project's versions beyond this, oldest first
+export const MAX_VERSIONS = 100
+
+// Site flow saves follow every (debounced) edit, so they add a version only when the
+// project's latest one is at least this old. Document saves always add one
+export const SITE_FLOW_VERSION_INTERVAL_MS = 60 * 1000
+
+/**
+ * Whether a save should be recorded as a new version. latestVersionAt is only looked up for site flow saves
+ */
+export const shouldRecordVersion = async (
+  updates: ProjectUpdates,
+  savedAt: string,
+  latestVersionAt: () => Promise<string | undefined>
+): Promise<boolean> => {
+  if (updates.documents !== undefined || updates.content !== undefined) return true
+  if (updates.siteFlow === undefined) return false
+  const latest = await latestVersionAt()
+  return !latest || Date.parse(savedAt) - Date.parse(latest) >= SITE_FLOW_VERSION_INTERVAL_MS
+}
+
+/**
+ * A place projects can be stored. Every adapter tags the projects it returns
+ * with its name in `storageBackend`, so the UI can show where each one lives
+ */
+export interface StorageAdapter {
+  readonly name: string
+  getAll(): Promise<Project[]>
+  get(id: string): Promise<Project | null>
+  save(project: NewProject): Promise<Project>
+  // With expectedUpdatedAt, throws ProjectConflictError if the project was saved elsewhere since it was read
+  update(id: string, updates: ProjectUpdates, expectedUpdatedAt?: string): Promise<Project | null>
+  getVersions(projectId: string): Promise<ProjectVersion[]>
+  delete(id: string): Promise<boolean>
+  clear(): Promise<void>
+  // Adapters with an offline outbox: replay a project's rejected writes again, or drop them and reload the stored copy
+  retrySync?(id: string): Promise<void>
+  discardUnsynced?(id: string): Promise<Project | null>
+}
+
+/**
+ * Thrown when an update was based on an outdated copy of the project.
+ * Carries the copy that is stored now, so the two can be merged
+ */
+export class ProjectConflictError extends Error {
+  current: Project
+
+  constructor(current: Project) {
+    super(`"${current.title}" was changed somewhere else since you opened it`)
+    this.name = 'ProjectConflictError'
+    this.current = current
+  }
+}
+
+/**
+ * A local adapter that can also hold copies of projects owned by another backend
+ */
+export interface CacheStorageAdapter extends StorageAdapter {
+  put(project: Project): Promise<void>
+  // Replaces the cached copies of remote projects; projects saved only in this browser are kept
+  replaceAll(projects: Project[]): Promise<void>
+  getLocalOnly(): Promise<Project[]>
+  remove(id: string): Promise<void>
+  moveVersions(fromId: string, toId: string): Promise<void>
+}
+
+/**
+ * A write made while the remote backend was unreachable, waiting to be replayed
+ */
+export type OutboxEntry = {
+  seq?: number // Assigned by the store; entries replay in this order
+  type: 'create' | 'update' | 'delete'
+  projectId: string
+  updates?: ProjectUpdates
+  expectedUpdatedAt?: string // updatedAt of the stored copy the update was made to; replay stops at a conflict instead of overwriting
+  conflict?: boolean // The stored copy changed before this update could be replayed
+  createdAt: string
+  attempts: number
+  lastError?: string // Set when the remote rejected the write for a reason other than being offline
+}
+
+export interface OutboxStore {
+  getAll(): Promise<OutboxEntry[]>
+  add(entry: OutboxEntry): Promise<void>
+  put(entry: OutboxEntry): Promise<void>
+  remove(seq: number): Promise<void>
+}
+
+/**
+ * Layer a local cache over a remote adapter.
+ * Reads come from the remote and are copied into the cache, falling back to the
+ * cached copies when the remote is unreachable. Writes only succeed if the remote
+ * accepts them, so nothing is silently saved somewhere it will never sync from.
+ */
+export const withCache = (remote: StorageAdapter, cache: CacheStorageAdapter): StorageAdapter => {
+  const cacheQuietly = async (write: () => Promise<void>) => {
+    try {
+      await write()
+    } catch (error) {
+      console.warn(`⚠️ Failed to update the ${cache.name} cache:`, error)
+    }
+  }
+
+  /**
+   * Upload projects that only exist in the cache, e.g. ones migrated from localStorage,
+   * so they show up alongside the remote's. Any that fail stay cached for the next attempt
+   */
+  const uploadLocalOnly = async (remoteProjects: Project[]): Promise<Project[]> => {
+    const remoteIds = new Set(remoteProjects.map(project => project.id))
+    const localOnly = await cache.getLocalOnly().catch(() => [])
+    const uploaded: Project[] = []
+
+    for (const local of localOnly.filter(project => !remoteIds.has(project.id))) {
+      try {
+        const saved = await remote.save(toNewProject(local))
+        await cacheQuietly(async () => {
+          await cache.remove(local.id)
+          await cache.put(saved)
+          await cache.moveVersions(local.id, saved.id)
+        })
+        uploaded.push(saved)
+        console.log(`⬆️ Uploaded local project ${local.id} as ${saved.id}`)
+      } catch (error) {
+        console.warn(`⚠️ Failed to upload local project ${local.id}:`, error)
+      }
+    }
+    return uploaded
+  }
+
+  return {
+    name: `${remote.name}+${cache.name}`,
+
+    async getAll() {
+      try {
+        const projects = await remote.getAll()
+        // An empty answer can also mean a signed-out session, so keep the cache in that case
+        if (projects.length > 0) {
+          await cacheQuietly(() => cache.replaceAll(projects))
+        }
+        const uploaded = await uploadLocalOnly(projects)
+        return [...uploaded, ...projects].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      } catch (error) {
+        console.warn(`⚠️ ${remote.name} unreachable, showing cached projects:`, error)
+        return await cache.getAll()
+      }
+    },
+
+    async get(id) {
+      try {
+        const project = await remote.get(id)
+        if (project) {
+          await cacheQuietly(() => cache.put(project))
+        }
+        return project
+      } catch (error) {
+        console.warn(`⚠️ ${remote.name} unreachable, showing cached project:`, error)
+        return await cache.get(id)
+      }
+    },
+
+    async save(project) {
+      const saved = await remote.save(project)
+      await cacheQuietly(() => cache.put(saved))
+      return saved
+    },
+
+    async update(id, updates, expectedUpdatedAt) {
+      const updated = await remote.update(id, updates, expectedUpdatedAt)
+      if (updated) {
+        await cacheQuietly(() => cache.put(updated))
+      }
+      return updated
+    },
+
+    async getVersions(projectId) {
+      return await remote.getVersions(projectId)
+    },
+
+    async delete(id) {
+      const deleted = await remote.delete(id)
+      if (deleted) {
+        await cacheQuietly(() => cache.remove(id))
+      }
+      return deleted
+    },
+
+    async clear() {
+      await remote.clear()
+      await cache.clear()
+    },
+  }
+}
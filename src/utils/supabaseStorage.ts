@@ -1,12 +1,30 @@
+import { isAuthRetryableFetchError } from '@supabase/supabase-js'
 import { supabase } from './supabase'
-import type { Project, ProjectDocument, SiteFlowData } from './storage'
+import type { Project, ProjectDocument, ProjectVersion, SiteFlowData } from './storage'
+import type { ExtractedInfo } from './contentGenerator'
+import { ProjectConflictError, MAX_VERSIONS, shouldRecordVersion } from './storageAdapter'
 import type { Database, Json } from '../types/database.types'
 
 type ProjectRow = Database['public']['Tables']['projects']['Row']
 type ProjectInsert = Database['public']['Tables']['projects']['Insert']
 type ProjectUpdate = Database['public']['Tables']['projects']['Update']
+type VersionRow = Database['public']['Tables']['project_versions']['Row']
+type VersionInsert = Database['public']['Tables']['project_versions']['Insert']
 
-const isSupabaseConfigured = import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY
+export const isSupabaseConfigured = !!(import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY)
+
+// PostgREST's "no rows" error from .single(), which means not found rather than a failure
+const NOT_FOUND_CODE = 'PGRST116'
+
+/**
+ * The signed-in user, or null when signed out. Network failures are thrown
+ * rather than reported as "signed out", so callers can tell offline apart
+ */
+const getCurrentUser = async () => {
+  const { data: { user }, error } = await supabase.auth.getUser()
+  if (error && isAuthRetryableFetchError(error)) throw error
+  return user
+}
 
 const toDocumentsJson = (documents?: ProjectDocument[] | null): Json | null => {
   if (documents === undefined || documents === null) {
@@ -22,6 +40,13 @@ const toSiteFlowJson = (siteFlow?: SiteFlowData | null): Json | null => {
   return siteFlow as unknown as Json
 }
 
+const toBriefJson = (brief?: ExtractedInfo | null): Json | null => {
+  if (brief === undefined || brief === null) {
+    return null
+  }
+  return brief as unknown as Json
+}
+
 const isProjectDocument = (value: unknown): value is ProjectDocument => {
   if (!value || typeof value !== 'object') {
     return false
@@ -30,7 +55,7 @@ const isProjectDocument = (value: unknown): value is ProjectDocument => {
   return typeof doc.type === 'string' && typeof doc.content === 'string'
 }
 
-const parseDocuments = (value: Json | null): ProjectDocument[] | undefined => {
+export const parseDocuments = (value: Json | null): ProjectDocument[] | undefined => {
   if (!Array.isArray(value)) return undefined
   return value.filter(isProjectDocument) as ProjectDocument[]
 }
@@ -61,11 +86,28 @@ const isSiteFlowData = (value: unknown): value is SiteFlowData => {
   return nodesValid && connectionsValid
 }
 
-const parseSiteFlow = (value: Json | null): SiteFlowData | undefined => {
+export const parseSiteFlow = (value: Json | null): SiteFlowData | undefined => {
   if (!value) return undefined
   return isSiteFlowData(value) ? value : undefined
 }
 
+const BRIEF_LIST_FIELDS = ['features', 'targetUsers', 'problems', 'goals', 'techStack'] as const
+
+const isExtractedInfo = (value: unknown): value is ExtractedInfo => {
+  if (!value || typeof value !== 'object') return false
+  const brief = value as Record<string, unknown>
+  if (typeof brief.projectName !== 'string') return false
+  return BRIEF_LIST_FIELDS.every((field) => {
+    const list = brief[field]
+    return Array.isArray(list) && list.every(item => typeof item === 'string')
+  })
+}
+
+export const parseBrief = (value: Json | null): ExtractedInfo | undefined => {
+  if (!value) return undefined
+  return isExtractedInfo(value) ? value : undefined
+}
+
 const mapRowToProject = (row: ProjectRow): Project => {
   const project: Project = {
     id: row.id,
@@ -75,6 +117,7 @@ const mapRowToProject = (row: ProjectRow): Project => {
     content: row.content,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
+    storageBackend: 'supabase',
   }
 
   const documents = parseDocuments(row.documents)
@@ -87,14 +130,105 @@ const mapRowToProject = (row: ProjectRow): Project => {
     project.siteFlow = siteFlow
   }
 
+  const brief = parseBrief(row.brief)
+  if (brief) {
+    project.brief = brief
+  }
+
   return project
 }
 
+const mapRowToVersion = (row: VersionRow): ProjectVersion => {
+  const version: ProjectVersion = {
+    id: row.id,
+    projectId: row.project_id,
+    title: row.title,
+    createdAt: row.created_at,
+  }
+
+  const documents = parseDocuments(row.documents)
+  if (documents !== undefined) {
+    version.documents = documents
+  }
+
+  const siteFlow = parseSiteFlow(row.site_flow)
+  if (siteFlow) {
+    version.siteFlow = siteFlow
+  }
+
+  if (row.author) {
+    version.author = row.author
+  }
+
+  return version
+}
+
+/**
+ * Snapshot a saved project into project_versions and prune the oldest beyond MAX_VERSIONS.
+ * Failures are logged, not thrown, so a missing versions table never blocks saving the project itself
+ */
+const snapshotVersion = async (project: Project, user: { id: string; email?: string }) => {
+  const payload: VersionInsert = {
+    project_id: project.id,
+    user_id: user.id,
+    author: user.email ?? null,
+    title: project.title,
+    documents: toDocumentsJson(project.documents),
+    site_flow: toSiteFlowJson(project.siteFlow),
+    created_at: project.updatedAt,
+  }
+
+  const { error } = await supabase.from('project_versions').insert(payload)
+  if (error) {
+    console.warn('⚠️ Failed to record project version:', error)
+    return
+  }
+
+  // Keep the newest MAX_VERSIONS, as the IndexedDB backend does
+  const { data: stale, error: staleError } = await supabase
+    .from('project_versions')
+    .select('id')
+    .eq('project_id', project.id)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false })
+    .range(MAX_VERSIONS, MAX_VERSIONS + 999)
+  if (staleError || !stale || stale.length === 0) {
+    if (staleError) console.warn('⚠️ Failed to look up old project versions:', staleError)
+    return
+  }
+
+  const { error: pruneError } = await supabase
+    .from('project_versions')
+    .delete()
+    .in('id', stale.map(row => row.id))
+  if (pruneError) {
+    console.warn('⚠️ Failed to prune old project versions:', pruneError)
+  }
+}
+
+// A failed lookup reads as no versions, so the save is still recorded
+const latestVersionAt = async (projectId: string, userId: string): Promise<string | undefined> => {
+  const { data, error } = await supabase
+    .from('project_versions')
+    .select('created_at')
+    .eq('project_id', projectId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+  if (error) {
+    console.warn('⚠️ Failed to look up the latest project version:', error)
+    return undefined
+  }
+  return data?.[0]?.created_at
+}
+
 /**
  * Supabase storage for projects
  * Uses Supabase database - requires authentication
  */
 export const supabaseStorage = {
+  name: 'supabase',
+
   /**
    * Migrate localStorage data to Supabase (one-time migration)
    */
@@ -105,7 +239,7 @@ export const supabaseStorage = {
     }
 
     try {
-      const { data: { user } } = await supabase.auth.getUser()
+      const user = await getCurrentUser()
       if (!user) {
         console.warn('User not authenticated, cannot migrate')
         return 0
@@ -135,6 +269,7 @@ export const supabaseStorage = {
             content: project.content,
             documents: toDocumentsJson(project.documents),
             site_flow: toSiteFlowJson(project.siteFlow),
+            brief: toBriefJson(project.brief),
             created_at: project.createdAt,
             updated_at: project.updatedAt,
           }
@@ -170,7 +305,7 @@ export const supabaseStorage = {
     }
 
     try {
-      const { data: { user } } = await supabase.auth.getUser()
+      const user = await getCurrentUser()
       if (!user) return []
 
       const { data, error } = await supabase
@@ -181,14 +316,14 @@ export const supabaseStorage = {
 
       if (error) {
         console.error('Error fetching projects from Supabase:', error)
-        return []
+        throw error
       }
 
       const rows = (data ?? []) as ProjectRow[]
       return rows.map(mapRowToProject)
     } catch (error) {
       console.error('Error in getAll:', error)
-      return []
+      throw error
     }
   },
 
@@ -201,7 +336,7 @@ export const supabaseStorage = {
     }
 
     try {
-      const { data: { user } } = await supabase.auth.getUser()
+      const user = await getCurrentUser()
       if (!user) return null
 
       const { data, error } = await supabase
@@ -211,12 +346,13 @@ export const supabaseStorage = {
         .eq('user_id', user.id)
         .single()
 
-      if (error || !data) return null
+      if (error && error.code !== NOT_FOUND_CODE) throw error
+      if (!data) return null
 
       return mapRowToProject(data as ProjectRow)
     } catch (error) {
       console.error('Error in get:', error)
-      return null
+      throw error
     }
   },
 
@@ -229,7 +365,7 @@ export const supabaseStorage = {
     }
 
     try {
-      const { data: { user } } = await supabase.auth.getUser()
+      const user = await getCurrentUser()
       if (!user) {
         throw new Error('User not authenticated')
       }
@@ -243,6 +379,7 @@ export const supabaseStorage = {
         content: project.content,
         documents: toDocumentsJson(project.documents),
         site_flow: toSiteFlowJson(project.siteFlow),
+        brief: toBriefJson(project.brief),
         created_at: now,
         updated_at: now,
       }
@@ -258,7 +395,9 @@ export const supabaseStorage = {
         throw error
       }
 
-      return mapRowToProject(data as ProjectRow)
+      const saved = mapRowToProject(data as ProjectRow)
+      await snapshotVersion(saved, user)
+      return saved
     } catch (error) {
       console.error('Error in save:', error)
       throw error
@@ -268,13 +407,13 @@ export const supabaseStorage = {
   /**
    * Update an existing project
    */
-  async update(id: string, updates: Partial<Omit<Project, 'id' | 'createdAt'>>): Promise<Project | null> {
+  async update(id: string, updates: Partial<Omit<Project, 'id' | 'createdAt'>>, expectedUpdatedAt?: string): Promise<Project | null> {
     if (!isSupabaseConfigured) {
       throw new Error('Supabase is not configured')
     }
 
     try {
-      const { data: { user } } = await supabase.auth.getUser()
+      const user = await getCurrentUser()
       if (!user) return null
 
       const updateData: ProjectUpdate = {
@@ -286,21 +425,70 @@ export const supabaseStorage = {
       if (updates.content !== undefined) updateData.content = updates.content
       if (updates.documents !== undefined) updateData.documents = toDocumentsJson(updates.documents)
       if (updates.siteFlow !== undefined) updateData.site_flow = toSiteFlowJson(updates.siteFlow)
+      if (updates.brief !== undefined) updateData.brief = toBriefJson(updates.brief)
 
-      const { data, error } = await supabase
+      let query = supabase
         .from('projects')
         .update(updateData)
         .eq('id', id)
         .eq('user_id', user.id)
-        .select()
-        .single()
 
-      if (error || !data) return null
+      // Only apply the update if nobody saved since the caller read the project
+      if (expectedUpdatedAt) {
+        query = query.eq('updated_at', expectedUpdatedAt)
+      }
+
+      const { data, error } = await query.select().single()
 
-      return mapRowToProject(data as ProjectRow)
+      if (error && error.code !== NOT_FOUND_CODE) throw error
+      if (!data) {
+        const current = expectedUpdatedAt ? await supabaseStorage.get(id) : null
+        if (current) throw new ProjectConflictError(current)
+        return null
+      }
+
+      const updated = mapRowToProject(data as ProjectRow)
+      if (await shouldRecordVersion(updates, updated.updatedAt, () => latestVersionAt(id, user.id))) {
+        await snapshotVersion(updated, user)
+      }
+      return updated
     } catch (error) {
-      console.error('Error in update:', error)
-      return null
+      if (!(error instanceof ProjectConflictError)) {
+        console.error('Error in update:', error)
+      }
+      throw error
+    }
+  },
+
+  /**
+   * Get the saved versions of a project, newest first
+   */
+  async getVersions(projectId: string): Promise<ProjectVersion[]> {
+    if (!isSupabaseConfigured) {
+      throw new Error('Supabase is not configured')
+    }
+
+    try {
+      const user = await getCurrentUser()
+      if (!user) return []
+
+      const { data, error } = await supabase
+        .from('project_versions')
+        .select('*')
+        .eq('project_id', projectId)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        console.error('Error fetching project versions from Supabase:', error)
+        return []
+      }
+
+      const rows = (data ?? []) as VersionRow[]
+      return rows.map(mapRowToVersion)
+    } catch (error) {
+      console.error('Error in getVersions:', error)
+      return []
     }
   },
 
@@ -313,7 +501,7 @@ export const supabaseStorage = {
     }
 
     try {
-      const { data: { user } } = await supabase.auth.getUser()
+      const user = await getCurrentUser()
       if (!user) return false
 
       const { error } = await supabase
@@ -322,10 +510,11 @@ export const supabaseStorage = {
         .eq('id', id)
         .eq('user_id', user.id)
 
-      return !error
+      if (error) throw error
+      return true
     } catch (error) {
       console.error('Error in delete:', error)
-      return false
+      throw error
     }
   },
 
@@ -338,7 +527,7 @@ export const supabaseStorage = {
     }
 
     try {
-      const { data: { user } } = await supabase.auth.getUser()
+      const user = await getCurrentUser()
       if (!user) return
 
       await supabase
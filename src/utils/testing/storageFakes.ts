@@ -0,0 +1,131 @@
+import type { Project } from '../storage'
+import { ProjectConflictError, type CacheStorageAdapter, type NewProject, type OutboxEntry, type OutboxStore, type ProjectUpdates, type StorageAdapter } from '../storageAdapter'
+
+// In-memory stand-ins for the storage backends, shared by the storage tests
+
+// Strictly increasing timestamps, so every save changes updatedAt
+let clock = 0
+export const now = () => new Date(Date.UTC(2026, 0, 1) + ++clock * 1000).toISOString()
+
+export const NEW_PROJECT: NewProject = { title: 'TaskPilot', type: 'PRD', description: 'A task manager', content: '# PRD' }
+
+/**
+ * In-memory projects, shared by the fake remote and the fake cache
+ */
+export const createMemoryStore = (name: string, idPrefix: string) => {
+  const projects = new Map<string, Project>()
+  const versions = new Map<string, string[]>()
+  let nextId = 0
+
+  const adapter = {
+    name,
+    projects,
+    versions,
+    async getAll() {
+      return [...projects.values()]
+    },
+    async get(id: string) {
+      return projects.get(id) || null
+    },
+    async save(project: NewProject) {
+      const timestamp = now()
+      const saved: Project = { ...project, id: `${idPrefix}-${++nextId}`, createdAt: timestamp, updatedAt: timestamp }
+      projects.set(saved.id, saved)
+      return saved
+    },
+    async update(id: string, updates: ProjectUpdates, expectedUpdatedAt?: string) {
+      const current = projects.get(id)
+      if (!current) return null
+      if (expectedUpdatedAt && current.updatedAt !== expectedUpdatedAt) throw new ProjectConflictError(current)
+      const updated = { ...current, ...updates, updatedAt: now() }
+      projects.set(id, updated)
+      return updated
+    },
+    async getVersions() {
+      return []
+    },
+    async delete(id: string) {
+      return projects.delete(id)
+    },
+    async clear() {
+      projects.clear()
+    },
+  }
+  return adapter
+}
+
+// A remote that fails like fetch() does while offline
+export const createRemote = () => {
+  const store = createMemoryStore('remote', 'remote')
+  const state = { online: true }
+  const reachable = <A extends unknown[], R>(call: (...args: A) => Promise<R>) => async (...args: A): Promise<R> => {
+    if (!state.online) throw new TypeError('Failed to fetch')
+    return call(...args)
+  }
+  const remote: StorageAdapter = {
+    name: store.name,
+    getAll: reachable(store.getAll),
+    get: reachable(store.get),
+    save: reachable(store.save),
+    update: reachable(store.update),
+    getVersions: reachable(store.getVersions),
+    delete: reachable(store.delete),
+    clear: reachable(store.clear),
+  }
+  return { remote, store, state }
+}
+
+// Like the IndexedDB cache, tells projects saved here apart from copies of remote ones
+export const createCache = () => {
+  const store = createMemoryStore('cache', 'local')
+  const localOnly = new Set<string>()
+  const cache: CacheStorageAdapter = {
+    ...store,
+    async save(project) {
+      const saved = await store.save(project)
+      localOnly.add(saved.id)
+      return saved
+    },
+    async put(project) {
+      store.projects.set(project.id, project)
+      localOnly.delete(project.id)
+    },
+    async replaceAll(projects) {
+      [...store.projects.keys()].filter(id => !localOnly.has(id)).forEach(id => store.projects.delete(id))
+      projects.forEach(project => cache.put(project))
+    },
+    async getLocalOnly() {
+      return [...store.projects.values()].filter(project => localOnly.has(project.id))
+    },
+    async remove(id) {
+      store.projects.delete(id)
+      localOnly.delete(id)
+    },
+    async moveVersions(fromId, toId) {
+      store.versions.set(toId, [...(store.versions.get(toId) || []), ...(store.versions.get(fromId) || [])])
+      store.versions.delete(fromId)
+    },
+  }
+  return { cache, store }
+}
+
+export const createOutbox = () => {
+  let seq = 0
+  const entries = new Map<number, OutboxEntry>()
+  const outbox: OutboxStore = {
+    async getAll() {
+      return [...entries.values()].sort((a, b) => a.seq! - b.seq!)
+    },
+    async add(entry) {
+      const stored = { ...entry, seq: ++seq }
+      entries.set(stored.seq, stored)
+    },
+    async put(entry) {
+      entries.set(entry.seq!, entry)
+    },
+    async remove(key) {
+      entries.delete(key)
+    },
+  }
+  return { outbox, entries }
+}
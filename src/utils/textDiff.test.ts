@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { diffLines, summarizeDiff } from './textDiff'
+
+describe('diffLines', () => {
+  it('marks every line equal when nothing changed', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'equal', text: 'b' },
+    ])
+  })
+
+  it('keeps the common lines and reports a changed line as removed then added', () => {
+    expect(diffLines('title\nold line\nfooter', 'title\nnew line\nfooter\nextra')).toEqual([
+      { type: 'equal', text: 'title' },
+      { type: 'removed', text: 'old line' },
+      { type: 'added', text: 'new line' },
+      { type: 'equal', text: 'footer' },
+      { type: 'added', text: 'extra' },
+    ])
+  })
+
+  it('rebuilds both texts from the diff', () => {
+    const before = '# PRD\n\n## Goals\nShip\n\n## Risks\nNone'
+    const after = '# PRD\n\n## Overview\nNew\n\n## Goals\nShip faster\n\n## Risks\nNone'
+    const diff = diffLines(before, after)
+    expect(diff.filter(line => line.type !== 'added').map(line => line.text).join('\n')).toBe(before)
+    expect(diff.filter(line => line.type !== 'removed').map(line => line.text).join('\n')).toBe(after)
+  })
+
+  it('falls back to replacing everything when the texts are too long to compare', () => {
+    const before = Array.from({ length: 2001 }, (_, index) => `old ${index}`).join('\n')
+    const after = Array.from({ length: 2001 }, (_, index) => `new ${index}`).join('\n')
+    expect(summarizeDiff(diffLines(before, after))).toEqual({ added: 2001, removed: 2001 })
+  })
+})
+
+describe('summarizeDiff', () => {
+  it('counts added and removed lines', () => {
+    expect(summarizeDiff(diffLines('a\nb\nc', 'a\nc\nd\ne'))).toEqual({ added: 2, removed: 1 })
+  })
+})
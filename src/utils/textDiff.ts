@@ -0,0 +1,69 @@
+/**
+ * Line-based diff for comparing document revisions
+ */
+
+export type DiffLineType = 'equal' | 'added' | 'removed'
+
+export interface DiffLine {
+  type: DiffLineType
+  text: string
+}
+
+// Above this many line pairs the LCS table gets too large to build in the browser
+const MAX_DIFF_CELLS = 4000000
+
+/**
+ * Diff two texts line by line using a longest-common-subsequence table
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const oldLines = before.split('\n')
+  const newLines = after.split('\n')
+  const rows = oldLines.length
+  const cols = newLines.length
+
+  if (rows * cols > MAX_DIFF_CELLS) {
+    return [
+      ...oldLines.map(text => ({ type: 'removed' as const, text })),
+      ...newLines.map(text => ({ type: 'added' as const, text })),
+    ]
+  }
+
+  // lcs[i][j] = length of the LCS of oldLines[i..] and newLines[j..]
+  const lcs: Uint32Array[] = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1))
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const result: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < rows && j < cols) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'equal', text: oldLines[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: oldLines[i] })
+      i++
+    } else {
+      result.push({ type: 'added', text: newLines[j] })
+      j++
+    }
+  }
+  while (i < rows) result.push({ type: 'removed', text: oldLines[i++] })
+  while (j < cols) result.push({ type: 'added', text: newLines[j++] })
+
+  return result
+}
+
+/**
+ * Count added and removed lines in a diff
+ */
+export const summarizeDiff = (diff: DiffLine[]): { added: number; removed: number } => ({
+  added: diff.filter(line => line.type === 'added').length,
+  removed: diff.filter(line => line.type === 'removed').length,
+})
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import { parseUserStories, formatStoryDescription, toJiraCSV, toLinearCSV, toGitHubIssuesJSON, type UserStory } from './userStories'
+
+const AI_DOCUMENT = `# User Stories: TaskPilot
+
+## Project Overview
+A task manager for freelancers.
+
+## User Stories
+
+### Task Boards
+
+#### Create a board
+**As a** freelancer, **I want** to create a board per client, **so that** my work stays separate.
+
+**Acceptance Criteria:**
+- [ ] A board has a name
+- [ ] Boards are listed on the dashboard
+
+**Priority:** High
+**Story Points:** 5
+
+### Reminders
+**As a** freelancer, **I want** reminders before deadlines, **so that** I never miss one.
+Email only for now.
+
+**Acceptance Criteria:**
+- Reminders are sent a day ahead
+
+**Priority:** Medium
+
+## Priority Breakdown
+- **High Priority:** Create a board
+
+## Definition of Done
+- [ ] Tested
+`
+
+const TEMPLATE_DOCUMENT = `# User Stories: TaskPilot
+
+## User Stories
+
+### As a freelancer, I want to track time so that I can achieve my goals efficiently
+- Acceptance criteria: Feature is accessible and easy to use
+- Acceptance criteria: Feature works reliably without errors
+
+**Priority:** High
+`
+
+describe('parseUserStories', () => {
+  it('reads stories from an AI document, grouping them under their feature heading', () => {
+    expect(parseUserStories(AI_DOCUMENT)).toEqual([
+      {
+        title: 'Create a board',
+        epic: 'Task Boards',
+        asA: 'freelancer',
+        iWant: 'to create a board per client',
+        soThat: 'my work stays separate',
+        acceptanceCriteria: ['A board has a name', 'Boards are listed on the dashboard'],
+        priority: 'High',
+        points: 5,
+        notes: [],
+      },
+      {
+        title: 'Reminders',
+        asA: 'freelancer',
+        iWant: 'reminders before deadlines',
+        soThat: 'I never miss one',
+        acceptanceCriteria: ['Reminders are sent a day ahead'],
+        priority: 'Medium',
+        notes: ['Email only for now.'],
+      },
+    ])
+  })
+
+  it('reads template stories whose sentence is the heading', () => {
+    const [story] = parseUserStories(TEMPLATE_DOCUMENT)
+    expect(story).toMatchObject({
+      title: 'Track time',
+      asA: 'freelancer',
+      iWant: 'to track time',
+      acceptanceCriteria: ['Feature is accessible and easy to use', 'Feature works reliably without errors'],
+      priority: 'High',
+    })
+  })
+
+  it('finds nothing in a document without stories', () => {
+    expect(parseUserStories('# Notes\n\nJust some text.')).toEqual([])
+  })
+})
+
+const STORY: UserStory = {
+  title: 'Create a board',
+  asA: 'freelancer',
+  iWant: 'to create a board',
+  soThat: 'work stays "separate"',
+  acceptanceCriteria: ['A board has a name'],
+  priority: 'High',
+  points: 3,
+  epic: 'Task Boards',
+  notes: [],
+}
+
+describe('story exports', () => {
+  it('formats the description as markdown with a checklist', () => {
+    expect(formatStoryDescription(STORY)).toBe(
+      '**As a** freelancer, **I want** to create a board, **so that** work stays "separate".\n\n## Acceptance Criteria\n- [ ] A board has a name'
+    )
+  })
+
+  it('writes Jira CSV with wiki markup, quoted fields and slugged epic labels', () => {
+    const [header, row] = toJiraCSV([STORY]).split('\r\n')
+    expect(header).toBe('"Summary","Issue Type","Description","Priority","Story Points","Labels"')
+    expect(row).toBe('"Create a board","Story","*As a* freelancer, *I want* to create a board, *so that* work stays ""separate"".\n\nh3. Acceptance Criteria\n* A board has a name","High","3","task-boards"')
+  })
+
+  it('writes Linear CSV with the epic as a label', () => {
+    expect(toLinearCSV([STORY])).toMatch(/"High","3","User Story, Task Boards"$/)
+  })
+
+  it('writes one GitHub issue per story, labelled by priority, points and epic', () => {
+    expect(JSON.parse(toGitHubIssuesJSON([STORY, { ...STORY, title: 'Untracked', priority: undefined, points: undefined, epic: undefined }]))).toEqual([
+      { title: 'Create a board', body: formatStoryDescription(STORY), labels: ['user story', 'priority: high', 'points: 3', 'Task Boards'] },
+      { title: 'Untracked', body: formatStoryDescription(STORY), labels: ['user story'] },
+    ])
+  })
+})
@@ -0,0 +1,210 @@
+export type StoryPriority = 'High' | 'Medium' | 'Low'
+
+export interface UserStory {
+  title: string
+  asA?: string
+  iWant?: string
+  soThat?: string
+  acceptanceCriteria: string[]
+  priority?: StoryPriority
+  points?: number
+  epic?: string // Feature heading the story was grouped under, if any
+  notes: string[] // Other prose in the story that doesn't fit a field
+}
+
+export type StoryExportFormat = 'Jira CSV' | 'Linear CSV' | 'GitHub Issues'
+
+export const STORY_EXPORT_FORMATS: StoryExportFormat[] = ['Jira CSV', 'Linear CSV', 'GitHub Issues']
+
+// Appended to the document's file name
+export const STORY_EXPORT_FILES: Record<StoryExportFormat, string> = {
+  'Jira CSV': '-jira.csv',
+  'Linear CSV': '-linear.csv',
+  'GitHub Issues': '-github-issues.json',
+}
+
+export const isStoryExportFormat = (format: string): format is StoryExportFormat => format in STORY_EXPORT_FILES
+
+// Sections generateUserStories writes around the stories themselves
+const NON_STORY_SECTIONS = /^(project overview|priority( breakdown)?|definition of done)$/i
+const STORY_SENTENCE = /\bas an?\s+(.+?),?\s+I want\s+(.+?),?\s+so that\s+(.+?)\.?$/i
+const ACCEPTANCE_HEADING = /^acceptance criteria:?$/i
+const ACCEPTANCE_PREFIX = /^acceptance criteri(?:a|on):\s*/i
+const PRIORITY_LINE = /^priority:\s*(high|medium|low)\b/i
+const POINTS_LINE = /^(?:story\s+)?points?:\s*(\d+)/i
+
+// Drop emphasis and checkbox markers so the fields read as plain text
+const stripMarkdown = (text: string): string =>
+  text.replace(/\*\*|__/g, '').replace(/(^|\s)[*_](\S)/g, '$1$2').replace(/(\S)[*_](\s|$)/g, '$1$2').replace(/^\[[ xX]\]\s*/, '').trim()
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1)
+
+type Section = { depth: number; heading: string; lines: string[] }
+
+const splitSections = (markdown: string): Section[] => {
+  const sections: Section[] = [{ depth: 0, heading: '', lines: [] }]
+  markdown.split('\n').forEach(line => {
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/)
+    if (heading) {
+      sections.push({ depth: heading[1].length, heading: stripMarkdown(heading[2]), lines: [] })
+    } else {
+      sections[sections.length - 1].lines.push(line)
+    }
+  })
+  return sections
+}
+
+const parseStory = (section: Section, epic: string | undefined): UserStory | null => {
+  const story: UserStory = { title: section.heading, acceptanceCriteria: [], notes: [], ...(epic ? { epic } : {}) }
+  let inAcceptance = false
+
+  const readSentence = (text: string): boolean => {
+    const match = text.match(STORY_SENTENCE)
+    if (!match) return false
+    story.asA = match[1].trim()
+    story.iWant = match[2].trim()
+    story.soThat = match[3].trim()
+    return true
+  }
+
+  // The template fallback puts the whole story sentence in the heading
+  if (readSentence(section.heading)) {
+    story.title = capitalize(story.iWant!.replace(/^to\s+/i, ''))
+  }
+
+  section.lines.forEach(raw => {
+    const bullet = raw.match(/^\s*(?:[-*+]|\d+[.)])\s+(.*)$/)
+    const text = stripMarkdown(bullet ? bullet[1] : raw)
+    if (!text) return
+
+    const priority = text.match(PRIORITY_LINE)
+    const points = text.match(POINTS_LINE)
+    if (priority) {
+      story.priority = capitalize(priority[1].toLowerCase()) as StoryPriority
+      inAcceptance = false
+    } else if (points) {
+      story.points = Number(points[1])
+      inAcceptance = false
+    } else if (ACCEPTANCE_HEADING.test(text)) {
+      inAcceptance = true
+    } else if (ACCEPTANCE_PREFIX.test(text)) {
+      story.acceptanceCriteria.push(text.replace(ACCEPTANCE_PREFIX, ''))
+    } else if (inAcceptance && bullet) {
+      story.acceptanceCriteria.push(text)
+    } else if (!story.iWant && readSentence(text)) {
+      inAcceptance = false
+    } else {
+      story.notes.push(text)
+      inAcceptance = false
+    }
+  })
+
+  return story.iWant || story.acceptanceCriteria.length > 0 ? story : null
+}
+
+/**
+ * Pull structured stories out of a "User Stories" document. A story is any heading whose
+ * section holds an "As a... I want... so that..." sentence or acceptance criteria; headings
+ * above it without a story of their own become its epic
+ */
+export const parseUserStories = (markdown: string): UserStory[] => {
+  const stories: UserStory[] = []
+  const groups: Section[] = []
+
+  splitSections(markdown).forEach(section => {
+    if (section.depth === 0) return
+    while (groups.length > 0 && groups[groups.length - 1].depth >= section.depth) groups.pop()
+    if (NON_STORY_SECTIONS.test(section.heading)) {
+      groups.push(section)
+      return
+    }
+
+    // The nearest enclosing heading below the "User Stories" section level is the feature group
+    const epic = groups.filter(group => group.depth > 2).pop()?.heading
+    const story = groups.some(group => NON_STORY_SECTIONS.test(group.heading)) ? null : parseStory(section, epic)
+    if (story) {
+      stories.push(story)
+    } else {
+      groups.push(section)
+    }
+  })
+
+  return stories
+}
+
+/**
+ * The story sentence and acceptance criteria as markdown, for trackers that render it
+ */
+export const formatStoryDescription = (story: UserStory): string => {
+  const parts: string[] = []
+  if (story.iWant) {
+    parts.push(`**As a** ${story.asA}, **I want** ${story.iWant}, **so that** ${story.soThat}.`)
+  }
+  if (story.notes.length > 0) parts.push(story.notes.join('\n\n'))
+  if (story.acceptanceCriteria.length > 0) {
+    parts.push(['## Acceptance Criteria', ...story.acceptanceCriteria.map(criterion => `- [ ] ${criterion}`)].join('\n'))
+  }
+  return parts.join('\n\n')
+}
+
+// Jira's importer reads wiki markup rather than markdown
+const formatJiraDescription = (story: UserStory): string => {
+  const parts: string[] = []
+  if (story.iWant) parts.push(`*As a* ${story.asA}, *I want* ${story.iWant}, *so that* ${story.soThat}.`)
+  if (story.notes.length > 0) parts.push(story.notes.join('\n\n'))
+  if (story.acceptanceCriteria.length > 0) {
+    parts.push(['h3. Acceptance Criteria', ...story.acceptanceCriteria.map(criterion => `* ${criterion}`)].join('\n'))
+  }
+  return parts.join('\n\n')
+}
+
+const toLabel = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+
+const toCSV = (rows: Array<Array<string | number | undefined>>): string =>
+  rows.map(row => row.map(value => `"${String(value ?? '').replace(/"/g, '""')}"`).join(',')).join('\r\n')
+
+/**
+ * CSV for Jira's external system import. Labels can't contain spaces there, so epics are slugged
+ */
+export const toJiraCSV = (stories: UserStory[]): string =>
+  toCSV([
+    ['Summary', 'Issue Type', 'Description', 'Priority', 'Story Points', 'Labels'],
+    ...stories.map(story => [
+      story.title,
+      'Story',
+      formatJiraDescription(story),
+      story.priority,
+      story.points,
+      story.epic ? toLabel(story.epic) : '',
+    ]),
+  ])
+
+/**
+ * CSV for Linear's importer, which takes markdown descriptions and comma-separated labels
+ */
+export const toLinearCSV = (stories: UserStory[]): string =>
+  toCSV([
+    ['Title', 'Description', 'Priority', 'Estimate', 'Labels'],
+    ...stories.map(story => [
+      story.title,
+      formatStoryDescription(story),
+      story.priority,
+      story.points,
+      ['User Story', ...(story.epic ? [story.epic] : [])].join(', '),
+    ]),
+  ])
+
+/**
+ * One GitHub "create an issue" request body per story
+ */
+export const toGitHubIssuesJSON = (stories: UserStory[]): string =>
+  JSON.stringify(stories.map(story => ({
+    title: story.title,
+    body: formatStoryDescription(story),
+    labels: [
+      'user story',
+      ...(story.priority ? [`priority: ${story.priority.toLowerCase()}`] : []),
+      ...(story.points !== undefined ? [`points: ${story.points}`] : []),
+      ...(story.epic ? [story.epic] : []),
+    ],
+  })), null, 2)
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import { parseYAML, stringifyYAML, YAMLParseError } from './yaml'
+
+describe('parseYAML', () => {
+  it('reads nested mappings and sequences, including sequences at their key\'s indentation', () => {
+    const yaml = `openapi: 3.1.0
+info:
+  title: TaskPilot API
+  version: "1.0"
+tags:
+- name: boards
+- name: tasks
+  description: Work items
+paths: {}
+`
+    expect(parseYAML(yaml)).toEqual({
+      openapi: '3.1.0',
+      info: { title: 'TaskPilot API', version: '1.0' },
+      tags: [{ name: 'boards' }, { name: 'tasks', description: 'Work items' }],
+      paths: {},
+    })
+  })
+
+  it('resolves plain scalars with the core schema', () => {
+    expect(parseYAML('a: 12\nb: -1.5e3\nc: true\nd: ~\ne: null\nf: 1.0.0\ng: yes\nh:')).toEqual({
+      a: 12, b: -1500, c: true, d: null, e: null, f: '1.0.0', g: 'yes', h: null,
+    })
+  })
+
+  it('reads quoted strings with escapes and comments outside them', () => {
+    expect(parseYAML(`a: "tab\\there # not a comment" # comment
+b: 'it''s'
+c: value#hash
+d: "\\u00e9"`)).toEqual({ a: 'tab\there # not a comment', b: "it's", c: 'value#hash', d: 'é' })
+  })
+
+  it('reads flow collections, also across lines', () => {
+    expect(parseYAML('required: [id, name]\nschema: { type: string, enum: [a, "b, c"] }\nlong: [one,\n  two]')).toEqual({
+      required: ['id', 'name'],
+      schema: { type: 'string', enum: ['a', 'b, c'] },
+      long: ['one', 'two'],
+    })
+  })
+
+  it('reads literal and folded block scalars with chomping', () => {
+    expect(parseYAML('literal: |\n  line 1\n  line 2\nfolded: >-\n  one\n  two\n\n  three\nkeep: |+\n  end\n\n')).toEqual({
+      literal: 'line 1\nline 2\n',
+      folded: 'one two\nthree',
+      keep: 'end\n\n',
+    })
+  })
+
+  it('reads mappings that start on a sequence dash', () => {
+    expect(parseYAML('- name: id\n  in: path\n- - nested')).toEqual([{ name: 'id', in: 'path' }, ['nested']])
+  })
+
+  it.each([
+    ['a: 1\na: 2', 'Duplicate key "a"', 2],
+    ['a:\n    b: 1\n  c: 2', 'Unexpected indentation', 3],
+    ['a: &anchor 1', 'Anchors, aliases and tags are not supported', 1],
+    ['a: "open', 'Unterminated quoted string', 1],
+    ['a: [1, 2', 'in flow sequence', 1],
+    ['a:\n\tb: 1', 'Tabs are not allowed', 2],
+  ])('reports %j with its line', (yaml, message, line) => {
+    let caught: unknown
+    try {
+      parseYAML(yaml)
+    } catch (error) {
+      caught = error
+    }
+    expect(caught).toBeInstanceOf(YAMLParseError)
+    expect((caught as YAMLParseError).message).toContain(message)
+    expect((caught as YAMLParseError).line).toBe(line)
+  })
+})
+
+describe('stringifyYAML', () => {
+  it('writes block YAML that parses back to the same value', () => {
+    const value = {
+      openapi: '3.1.0',
+      info: { title: 'TaskPilot: API', version: '1.0', description: 'First line\nSecond line\n' },
+      paths: {
+        '/boards/{id}': {
+          get: {
+            parameters: [{ name: 'id', in: 'path', required: true }],
+            responses: { '200': { description: 'OK' } },
+          },
+        },
+      },
+      tags: [],
+      extra: {},
+      flags: ['true', '12', '', ' padded', '#hash', 'plain'],
+      count: 3,
+      nothing: null,
+    }
+    const yaml = stringifyYAML(value)
+    expect(parseYAML(yaml)).toEqual(value)
+    expect(yaml).toContain('title: "TaskPilot: API"')
+    expect(yaml).toContain('  description: |\n    First line\n    Second line\n')
+    expect(yaml).toContain('      parameters:\n        - name: id\n          in: path')
+  })
+
+  it('writes scalars on their own', () => {
+    expect(stringifyYAML('text')).toBe('text\n')
+    expect(stringifyYAML([])).toBe('[]\n')
+  })
+})
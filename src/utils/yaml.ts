@@ -0,0 +1,366 @@
+/**
+ * Thrown when YAML can't be read, with the 1-based line it failed on
+ */
+export class YAMLParseError extends Error {
+  line: number
+
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line})`)
+    this.name = 'YAMLParseError'
+    this.line = line
+  }
+}
+
+const isBlank = (line: string): boolean => /^\s*(#.*)?$/.test(line) || /^(---|\.\.\.)\s*(#.*)?$/.test(line)
+
+const indentOf = (line: string): number => line.length - line.trimStart().length
+
+const isSequenceItem = (text: string): boolean => text === '-' || text.startsWith('- ')
+
+// A # only starts a comment at the start of the text or after whitespace, and never inside quotes
+const stripComment = (text: string): string => {
+  let quote: string | null = null
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quote) {
+      if (char === '\\' && quote === '"') i++
+      else if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      if (i === 0 || /[\s[{,:]/.test(text[i - 1])) quote = char
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd()
+    }
+  }
+  return text.trimEnd()
+}
+
+const unescapeDouble = (body: string): string =>
+  body.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, escape: string) => {
+    if (escape.startsWith('u') && escape.length === 5) return String.fromCharCode(parseInt(escape.slice(1), 16))
+    return ({ n: '\n', t: '\t', r: '\r', '0': '\0', '"': '"', '\\': '\\', '/': '/', ' ': ' ' } as Record<string, string>)[escape] ?? escape
+  })
+
+// Reads a quoted scalar starting at text[start]; returns the value and the index after the closing quote
+const readQuoted = (text: string, start: number): { value: string; end: number } | null => {
+  const quote = text[start]
+  for (let i = start + 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++
+    } else if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") {
+        i++
+        continue
+      }
+      const body = text.slice(start + 1, i)
+      return { value: quote === '"' ? unescapeDouble(body) : body.replace(/''/g, "'"), end: i + 1 }
+    }
+  }
+  return null
+}
+
+/**
+ * Resolve a plain scalar the way the YAML 1.2 core schema does
+ */
+const resolveScalar = (text: string): unknown => {
+  if (/^(null|Null|NULL|~)?$/.test(text)) return null
+  if (/^(true|True|TRUE)$/.test(text)) return true
+  if (/^(false|False|FALSE)$/.test(text)) return false
+  if (/^[-+]?\d+$/.test(text)) return Number(text)
+  if (/^[-+]?(\.\d+|\d+(\.\d*)?)([eE][-+]?\d+)?$/.test(text)) return Number(text)
+  return text
+}
+
+// Splits "key: rest" into its parts, or returns null when the text isn't a mapping entry
+const splitKey = (text: string): { key: string; rest: string } | null => {
+  if (text.startsWith('[') || text.startsWith('{')) return null
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const quoted = readQuoted(text, 0)
+    if (!quoted) return null
+    const after = text.slice(quoted.end).match(/^\s*:(\s+(.*))?$/)
+    return after ? { key: quoted.value, rest: after[2] ?? '' } : null
+  }
+  const match = text.match(/^(.*?):(\s+(.*))?$/)
+  if (!match || match[1].includes(': ')) return null
+  return { key: match[1].trim(), rest: match[3] ?? '' }
+}
+
+/**
+ * Parse a flow collection such as [a, b] or { type: string }
+ */
+const parseFlow = (text: string, line: number): unknown => {
+  let pos = 0
+  const fail = (message: string): never => {
+    throw new YAMLParseError(message, line)
+  }
+  const skipSpace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++
+  }
+
+  const readScalar = (stops: RegExp): unknown => {
+    skipSpace()
+    if (text[pos] === '"' || text[pos] === "'") {
+      const quoted = readQuoted(text, pos)
+      if (!quoted) return fail('Unterminated quoted string')
+      pos = quoted.end
+      return quoted.value
+    }
+    const start = pos
+    while (pos < text.length && !stops.test(text[pos])) pos++
+    return resolveScalar(text.slice(start, pos).trim())
+  }
+
+  const readValue = (): unknown => {
+    skipSpace()
+    if (text[pos] === '[') {
+      pos++
+      const items: unknown[] = []
+      skipSpace()
+      while (text[pos] !== ']') {
+        if (pos >= text.length) fail('Unterminated flow sequence')
+        items.push(readValue())
+        skipSpace()
+        if (text[pos] === ',') pos++
+        else if (text[pos] !== ']') fail('Expected "," or "]" in flow sequence')
+        skipSpace()
+      }
+      pos++
+      return items
+    }
+    if (text[pos] === '{') {
+      pos++
+      const entries: Record<string, unknown> = {}
+      skipSpace()
+      while (text[pos] !== '}') {
+        if (pos >= text.length) fail('Unterminated flow mapping')
+        const key = String(readScalar(/[:,}]/))
+        skipSpace()
+        let value: unknown = null
+        if (text[pos] === ':') {
+          pos++
+          value = readValue()
+        }
+        entries[key] = value
+        skipSpace()
+        if (text[pos] === ',') pos++
+        else if (text[pos] !== '}') fail('Expected "," or "}" in flow mapping')
+        skipSpace()
+      }
+      pos++
+      return entries
+    }
+    return readScalar(/[,\]}]/)
+  }
+
+  const value = readValue()
+  skipSpace()
+  if (pos < text.length) fail('Unexpected text after flow collection')
+  return value
+}
+
+/**
+ * Parse block-style YAML: mappings, sequences, plain, quoted and block scalars, and
+ * flow collections. Anchors, aliases, tags and multiple documents are not supported
+ */
+export const parseYAML = (source: string): unknown => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n')
+  // The final line break ends the last line rather than starting an empty one, which a kept (|+) block would count
+  if (lines[lines.length - 1] === '') lines.pop()
+  let index = 0
+
+  const fail = (message: string, at = index): never => {
+    throw new YAMLParseError(message, at + 1)
+  }
+
+  const skipBlank = () => {
+    while (index < lines.length && isBlank(lines[index])) index++
+  }
+
+  const parseBlockScalar = (header: string, parentIndent: number): string => {
+    const match = header.match(/^([|>])([+-]?)(\d?)([+-]?)$/)
+    if (!match) return fail(`Invalid block scalar header "${header}"`)
+    const folded = match[1] === '>'
+    const chomping = match[2] || match[4]
+    const collected: string[] = []
+    while (index < lines.length && (lines[index].trim() === '' || indentOf(lines[index]) > parentIndent)) {
+      collected.push(lines[index])
+      index++
+    }
+    const firstContent = collected.find(line => line.trim() !== '')
+    const contentIndent = match[3] ? parentIndent + Number(match[3]) : firstContent ? indentOf(firstContent) : parentIndent + 1
+    const body = collected.map(line => line.slice(contentIndent))
+
+    let text = folded
+      ? body.reduce((result, line, i) => {
+          if (i === 0) return line
+          const previous = body[i - 1]
+          // A blank line stands for a line break; more-indented lines keep theirs
+          if (line === '') return `${result}\n`
+          if (previous === '') return `${result}${line}`
+          if (/^\s/.test(line) || /^\s/.test(previous)) return `${result}\n${line}`
+          return `${result} ${line}`
+        }, '')
+      : body.join('\n')
+
+    if (chomping === '+') return `${text}\n`
+    text = text.replace(/\n+$/, '')
+    return chomping === '-' || text === '' ? text : `${text}\n`
+  }
+
+  const parseValue = (rest: string, parentIndent: number, inMapping: boolean): unknown => {
+    const start = index - 1
+    if (rest === '') {
+      skipBlank()
+      if (index >= lines.length) return null
+      const next = indentOf(lines[index])
+      if (next > parentIndent) return parseNode()
+      // Block sequences may sit at the same indentation as their mapping key
+      if (inMapping && next === parentIndent && isSequenceItem(lines[index].slice(next))) return parseSequence(next)
+      return null
+    }
+    if (/^[&*!]/.test(rest)) return fail('Anchors, aliases and tags are not supported', start)
+    if (rest.startsWith('|') || rest.startsWith('>')) return parseBlockScalar(rest, parentIndent)
+
+    // Flow collections and quoted strings may continue on the following lines
+    let text = rest
+    while (index < lines.length && indentOf(lines[index]) > parentIndent && lines[index].trim() !== '') {
+      const complete = text.startsWith('[') || text.startsWith('{')
+        ? (() => {
+            try {
+              parseFlow(text, start + 1)
+              return true
+            } catch {
+              return false
+            }
+          })()
+        : text.startsWith('"') || text.startsWith("'") ? readQuoted(text, 0) !== null : false
+      if (complete) break
+      text = `${text} ${stripComment(lines[index].trim())}`
+      index++
+    }
+
+    if (text.startsWith('[') || text.startsWith('{')) return parseFlow(text, start + 1)
+    if (text.startsWith('"') || text.startsWith("'")) {
+      const quoted = readQuoted(text, 0)
+      if (!quoted) return fail('Unterminated quoted string', start)
+      if (text.slice(quoted.end).trim() !== '') return fail('Unexpected text after quoted string', start)
+      return quoted.value
+    }
+    return resolveScalar(text.trim())
+  }
+
+  const parseSequence = (indent: number): unknown[] => {
+    const items: unknown[] = []
+    for (;;) {
+      skipBlank()
+      if (index >= lines.length) break
+      const current = indentOf(lines[index])
+      const text = lines[index].slice(current)
+      if (current < indent || (current === indent && !isSequenceItem(text))) break
+      if (current > indent) fail('Unexpected indentation')
+
+      const rest = stripComment(text.slice(1)).trimStart()
+      if (rest !== '' && (isSequenceItem(rest) || (splitKey(rest) && !/^[[{|>]/.test(rest)))) {
+        // A nested collection starts on the dash line: re-read it with the dash turned into indentation
+        const column = current + text.length - text.slice(1).trimStart().length
+        lines[index] = ' '.repeat(column) + text.slice(1).trimStart()
+        items.push(parseNode())
+      } else {
+        index++
+        items.push(parseValue(rest, indent, false))
+      }
+    }
+    return items
+  }
+
+  const parseMapping = (indent: number): Record<string, unknown> => {
+    const entries: Record<string, unknown> = {}
+    for (;;) {
+      skipBlank()
+      if (index >= lines.length) break
+      const current = indentOf(lines[index])
+      if (current < indent) break
+      if (current > indent) fail('Unexpected indentation')
+      const text = stripComment(lines[index].slice(current))
+      if (isSequenceItem(text)) break
+
+      const entry = splitKey(text)
+      if (!entry) return fail('Expected a "key: value" entry')
+      if (Object.prototype.hasOwnProperty.call(entries, entry.key)) fail(`Duplicate key "${entry.key}"`)
+      index++
+      entries[entry.key] = parseValue(entry.rest, indent, true)
+    }
+    return entries
+  }
+
+  const parseNode = (): unknown => {
+    skipBlank()
+    if (index >= lines.length) return null
+    const line = lines[index]
+    if (/^\t/.test(line)) fail('Tabs are not allowed for indentation')
+    const current = indentOf(line)
+    const text = stripComment(line.slice(current))
+    if (isSequenceItem(text)) return parseSequence(current)
+    if (splitKey(text)) return parseMapping(current)
+    index++
+    return parseValue(text, current - 1, false)
+  }
+
+  const value = parseNode()
+  skipBlank()
+  if (index < lines.length) fail('Unexpected content')
+  return value
+}
+
+// Plain scalars that would read back as something else, or that YAML reserves
+const needsQuotes = (text: string): boolean =>
+  text === '' ||
+  text !== text.trim() ||
+  typeof resolveScalar(text) !== 'string' ||
+  /^[-?:,[\]{}#&*!|>'"%@`]/.test(text) ||
+  /: |:$| #|[\t\n]/.test(text)
+
+const formatScalar = (value: unknown): string => {
+  if (value === null || value === undefined) return 'null'
+  if (typeof value === 'string') return needsQuotes(value) ? JSON.stringify(value) : value
+  return String(value)
+}
+
+const isCollection = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  typeof value === 'object' && value !== null && (Array.isArray(value) ? value.length > 0 : Object.keys(value).length > 0)
+
+const formatBlock = (value: unknown, indent: number): string[] => {
+  const pad = ' '.repeat(indent)
+
+  if (Array.isArray(value)) {
+    return value.flatMap(item => {
+      if (isCollection(item)) {
+        // The first line of a nested collection shares the dash's line
+        const [first, ...rest] = formatBlock(item, indent + 2)
+        return [`${pad}- ${first.trimStart()}`, ...rest]
+      }
+      return [`${pad}- ${formatInline(item, indent + 2)}`]
+    })
+  }
+
+  return Object.entries(value as Record<string, unknown>).flatMap(([key, item]) => {
+    const label = `${pad}${formatScalar(key)}:`
+    return isCollection(item) ? [label, ...formatBlock(item, indent + 2)] : [`${label} ${formatInline(item, indent + 2)}`]
+  })
+}
+
+// Scalars and empty collections on the current line; multi-line strings become literal blocks
+const formatInline = (value: unknown, indent: number): string => {
+  if (Array.isArray(value)) return '[]'
+  if (typeof value === 'object' && value !== null) return '{}'
+  if (typeof value === 'string' && value.includes('\n') && !/^\s|[ \t]\n/.test(value)) {
+    const body = value.replace(/\n$/, '').split('\n').map(line => (line ? ' '.repeat(indent) + line : ''))
+    return [value.endsWith('\n') ? '|' : '|-', ...body].join('\n')
+  }
+  return formatScalar(value)
+}
+
+/**
+ * Write a JSON-compatible value as block-style YAML
+ */
+export const stringifyYAML = (value: unknown): string =>
+  `${isCollection(value) ? formatBlock(value, 0).join('\n') : formatInline(value, 0)}\n`
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { createZip } from './zip'
+
+type ReadEntry = { name: string; data: string; crc: number; flags: number }
+
+// Read a stored (uncompressed) archive back through its central directory
+const readZip = async (blob: Blob): Promise<ReadEntry[]> => {
+  const buffer = new Uint8Array(await blob.arrayBuffer())
+  const view = new DataView(buffer.buffer)
+  const decoder = new TextDecoder()
+  const end = buffer.length - 22
+  expect(view.getUint32(end, true)).toBe(0x06054B50)
+
+  const count = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+  const entries: ReadEntry[] = []
+  for (let index = 0; index < count; index++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014B50)
+    const nameLength = view.getUint16(offset + 28, true)
+    const size = view.getUint32(offset + 24, true)
+    const local = view.getUint32(offset + 42, true)
+    expect(view.getUint32(local, true)).toBe(0x04034B50)
+    const dataStart = local + 30 + view.getUint16(local + 26, true)
+    entries.push({
+      name: decoder.decode(buffer.subarray(offset + 46, offset + 46 + nameLength)),
+      data: decoder.decode(buffer.subarray(dataStart, dataStart + size)),
+      crc: view.getUint32(offset + 16, true),
+      flags: view.getUint16(offset + 8, true),
+    })
+    offset += 46 + nameLength
+  }
+  return entries
+}
+
+describe('createZip', () => {
+  it('stores every entry so it can be read back', async () => {
+    const zip = createZip([
+      { name: 'TaskPilot/PRD.md', data: '# PRD\n' },
+      { name: 'TaskPilot/site-flow.svg', data: new TextEncoder().encode('<svg />') },
+    ])
+    expect(zip.type).toBe('application/zip')
+
+    const entries = await readZip(zip)
+    expect(entries.map(({ name, data }) => ({ name, data }))).toEqual([
+      { name: 'TaskPilot/PRD.md', data: '# PRD\n' },
+      { name: 'TaskPilot/site-flow.svg', data: '<svg />' },
+    ])
+  })
+
+  it('writes standard CRC-32 checksums', async () => {
+    const [entry] = await readZip(createZip([{ name: 'hello.txt', data: 'hello' }]))
+    expect(entry.crc).toBe(0x3610A686)
+  })
+
+  it('marks names as UTF-8 so accented titles survive', async () => {
+    const [entry] = await readZip(createZip([{ name: 'Café/Résumé.md', data: 'ok' }]))
+    expect(entry.name).toBe('Café/Résumé.md')
+    expect(entry.flags & 0x0800).toBe(0x0800)
+  })
+
+  it('builds a valid empty archive', async () => {
+    expect(await readZip(createZip([]))).toEqual([])
+  })
+})
@@ -0,0 +1,101 @@
+export type ZipEntry = {
+  name: string // Path inside the archive; use / for folders
+  data: Uint8Array | string
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xFFFFFFFF
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0
+}
+
+// Zip stores local time in MS-DOS format
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+})
+
+const LOCAL_HEADER_SIZE = 30
+const CENTRAL_HEADER_SIZE = 46
+const END_RECORD_SIZE = 22
+const UTF8_FLAG = 0x0800
+
+/**
+ * Build an uncompressed zip archive. The documents exported here are small,
+ * so storing them keeps this dependency-free without a noticeable size cost
+ */
+export const createZip = (entries: ZipEntry[]): Blob => {
+  const encoder = new TextEncoder()
+  const { time, date } = toDosDateTime(new Date())
+  const files = entries.map(entry => {
+    const name = encoder.encode(entry.name)
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data
+    return { name, data, crc: crc32(data) }
+  })
+
+  const localSize = files.reduce((sum, file) => sum + LOCAL_HEADER_SIZE + file.name.length + file.data.length, 0)
+  const centralSize = files.reduce((sum, file) => sum + CENTRAL_HEADER_SIZE + file.name.length, 0)
+  const buffer = new Uint8Array(localSize + centralSize + END_RECORD_SIZE)
+  const view = new DataView(buffer.buffer)
+
+  let offset = 0
+  const offsets: number[] = []
+  files.forEach(file => {
+    offsets.push(offset)
+    view.setUint32(offset, 0x04034B50, true)
+    view.setUint16(offset + 4, 20, true) // Version needed to extract
+    view.setUint16(offset + 6, UTF8_FLAG, true)
+    view.setUint16(offset + 8, 0, true) // Stored, no compression
+    view.setUint16(offset + 10, time, true)
+    view.setUint16(offset + 12, date, true)
+    view.setUint32(offset + 14, file.crc, true)
+    view.setUint32(offset + 18, file.data.length, true)
+    view.setUint32(offset + 22, file.data.length, true)
+    view.setUint16(offset + 26, file.name.length, true)
+    view.setUint16(offset + 28, 0, true)
+    buffer.set(file.name, offset + LOCAL_HEADER_SIZE)
+    buffer.set(file.data, offset + LOCAL_HEADER_SIZE + file.name.length)
+    offset += LOCAL_HEADER_SIZE + file.name.length + file.data.length
+  })
+
+  const centralOffset = offset
+  files.forEach((file, index) => {
+    view.setUint32(offset, 0x02014B50, true)
+    view.setUint16(offset + 4, 20, true) // Version made by
+    view.setUint16(offset + 6, 20, true)
+    view.setUint16(offset + 8, UTF8_FLAG, true)
+    view.setUint16(offset + 10, 0, true)
+    view.setUint16(offset + 12, time, true)
+    view.setUint16(offset + 14, date, true)
+    view.setUint32(offset + 16, file.crc, true)
+    view.setUint32(offset + 20, file.data.length, true)
+    view.setUint32(offset + 24, file.data.length, true)
+    view.setUint16(offset + 28, file.name.length, true)
+    // Extra field, comment, disk number and attributes stay zero
+    view.setUint32(offset + 42, offsets[index], true)
+    buffer.set(file.name, offset + CENTRAL_HEADER_SIZE)
+    offset += CENTRAL_HEADER_SIZE + file.name.length
+  })
+
+  view.setUint32(offset, 0x06054B50, true)
+  view.setUint16(offset + 8, files.length, true)
+  view.setUint16(offset + 10, files.length, true)
+  view.setUint32(offset + 12, offset - centralOffset, true)
+  view.setUint32(offset + 16, centralOffset, true)
+
+  return new Blob([buffer], { type: 'application/zip' })
+}